@@ -1,5 +1,6 @@
 import type ast from 'luaparse'
 import type { LuaScope } from '../common'
+import { readHeuristicsFile } from '../helpers'
 import { TypeResolver } from './TypeResolver'
 import { ClassResolver } from './ClassResolver'
 import { AnalysisFinalizer } from './AnalysisFinalizer'
@@ -15,6 +16,10 @@ import type {
     FunctionDefinitionItem,
     RequireAssignmentItem,
     ResolvedScopeItem,
+    LuaDocComment,
+    CallSiteInfo,
+    HeuristicRule,
+    TypeGuard,
 } from './types'
 
 /**
@@ -27,9 +32,14 @@ export class AnalysisContext {
     aliasMap: Map<string, Set<string>>
 
     /**
-     * Flag for whether heuristics based on item names should be applied.
+     * Function calls that couldn't be resolved while reading, to check after all modules are read.
      */
-    applyHeuristics: boolean
+    callSites: CallSiteInfo[]
+
+    /**
+     * The maximum number of types to infer for a parameter from calls to functions defined later.
+     */
+    callSiteTypeLimit: number
 
     /**
      * Helper for finding and resolving class definitions.
@@ -47,16 +57,47 @@ export class AnalysisContext {
      */
     definitions: Map<string, LuaExpressionInfo[]>
 
+    /**
+     * Maps event names to the types of the parameters passed to their callbacks.
+     */
+    eventParameterTypes: Record<string, (string | undefined)[]>
+
+    /**
+     * Associates expressions to the type guards that apply to them.
+     */
+    guards: Map<LuaExpression, TypeGuard[]>
+
+    /**
+     * Associates parameter IDs to the types checked for them by type guards.
+     */
+    guardedParameterTypes: Map<string, Set<string>>
+
     /**
      * Helper for finalizing analyzed types.
      */
     finalizer: AnalysisFinalizer
 
+    /**
+     * Rules for assigning types to parameters based on their names.
+     * This is empty if heuristics are disabled.
+     */
+    heuristicRules: HeuristicRule[]
+
+    /**
+     * Flag for whether comments preceding functions and tables should be kept as descriptions.
+     */
+    includeSourceComments: boolean
+
     /**
      * Flag for whether the analysis is running in the context of Rosetta initialization or updating.
      */
     isForRosetta: boolean
 
+    /**
+     * Maps names of global functions and static methods to the types of their returns.
+     */
+    knownReturnTypes: Record<string, string[]>
+
     /**
      * Associates file identifiers to resolved modules.
      */
@@ -133,6 +174,8 @@ export class AnalysisContext {
         this.parameterToFunctionId = new Map()
         this.definitions = new Map()
         this.usageTypes = new Map()
+        this.guards = new Map()
+        this.guardedParameterTypes = new Map()
         this.unknownClasses = new Map()
         this.globalDefsToMerge = new Map()
         this.modules = new Map()
@@ -142,7 +185,14 @@ export class AnalysisContext {
         this.finalizer = new AnalysisFinalizer(this)
 
         this.isForRosetta = args.isForRosetta ?? false
-        this.applyHeuristics = args.heuristics ?? false
+        this.heuristicRules = args.heuristics
+            ? (readHeuristicsFile(args.heuristicsFile)?.analysis ?? [])
+            : []
+        this.includeSourceComments = args.sourceComments ?? false
+        this.eventParameterTypes = args.eventParameterTypes ?? {}
+        this.knownReturnTypes = args.knownReturnTypes ?? {}
+        this.callSiteTypeLimit = args.callSiteTypes ?? 0
+        this.callSites = []
     }
 
     /**
@@ -307,17 +357,20 @@ export class AnalysisContext {
      * @param scope The current scope.
      * @param node The AST node for the function.
      * @param identExpr An identifier expression used for the function name.
+     * @param docComment The annotation comment preceding the function.
      */
     setFunctionInfo(
         functionId: string,
         scope: LuaScope,
         node: ast.FunctionDeclaration,
         identExpr: LuaExpression | undefined,
+        docComment?: LuaDocComment,
     ): string[] {
         const info = this.getFunctionInfo(functionId)
         info.identifierExpression = identExpr
+        info.line = node.loc?.start.line
 
-        this.typeResolver.resolveFunctionParams(scope, node, info)
+        this.typeResolver.resolveFunctionParams(scope, node, info, docComment)
 
         for (const param of info.parameters) {
             this.parameterToFunctionId.set(param, functionId)
@@ -1,21 +1,30 @@
-import { getLiteralKey, getLuaFieldKey, isEmptyClass } from '../helpers'
+import {
+    getLiteralKey,
+    getLuaFieldKey,
+    isEmptyClass,
+    mergeEventParameters,
+} from '../helpers'
 import type { AnalysisContext } from './AnalysisContext'
 import type {
     AnalyzedClass,
+    AnalyzedEvent,
     AnalyzedField,
     AnalyzedFunction,
     AnalyzedModule,
     AnalyzedParameter,
     AnalyzedReturn,
+    AnalyzedSource,
     AnalyzedTable,
     LuaExpression,
     LuaExpressionInfo,
     LuaType,
     ResolvedClassInfo,
+    ResolvedEventInfo,
     ResolvedModule,
     ResolvedRequireInfo,
     ResolvedReturnInfo,
     LiteralTableField,
+    TableInfo,
     TableKey,
 } from './types'
 
@@ -136,20 +145,36 @@ export class AnalysisFinalizer {
                 returns.push(this.finalizeReturn(ret, refMap))
             }
 
-            modules.set(id, {
+            const finalized: AnalyzedModule = {
                 id: id,
                 classes,
                 tables,
                 functions,
                 fields,
                 returns,
-            })
+            }
+
+            const events = this.finalizeEvents(mod.events)
+            if (events.length > 0) {
+                finalized.events = events
+            }
+
+            modules.set(id, finalized)
         }
 
         for (const clsDefs of clsMap.values()) {
             this.deduplicateClassFields(clsDefs, clsMap)
         }
 
+        // classes used as a base can't be enums
+        for (const clsDefs of clsMap.values()) {
+            for (const cls of clsDefs) {
+                for (const base of cls.extends?.split(',') ?? []) {
+                    clsMap.get(base.trim())?.forEach((x) => delete x.isEnum)
+                }
+            }
+        }
+
         this.context.setCurrentReadingModule(undefined)
         return modules
     }
@@ -405,6 +430,10 @@ export class AnalysisFinalizer {
                 fields.push({
                     name,
                     types,
+                    isAnnotated:
+                        instanceExprs.some((x) => x.annotatedTypes) ||
+                        undefined,
+                    source: this.getFieldSource(instanceExprs),
                 })
 
                 continue
@@ -432,6 +461,9 @@ export class AnalysisFinalizer {
                     name,
                     types,
                     expression,
+                    isAnnotated:
+                        staticExprs.some((x) => x.annotatedTypes) || undefined,
+                    source: this.getFieldSource(staticExprs),
                 })
             }
         }
@@ -476,6 +508,8 @@ export class AnalysisFinalizer {
                 methods,
                 functions,
                 overloads,
+                description: info.description,
+                source: this.getSource(info.definingModule, info.definingLine),
             }
 
             return [finalized, true, []]
@@ -530,6 +564,7 @@ export class AnalysisFinalizer {
                         name,
                         types,
                         expression,
+                        source: this.getFieldSource(definingExprs),
                     })
 
                     continue
@@ -549,6 +584,22 @@ export class AnalysisFinalizer {
             }
         }
 
+        const hasMembers =
+            fields.length > 0 ||
+            staticFields.length > 0 ||
+            setterFields.length > 0 ||
+            functions.length > 0 ||
+            methods.length > 0 ||
+            constructors.length > 0 ||
+            functionConstructors.length > 0 ||
+            overloads.length > 0
+
+        const isEnum =
+            !hasMembers &&
+            !cls.base &&
+            literalFields.length > 0 &&
+            this.isEnumTable(info)
+
         const finalized: AnalyzedClass = {
             name: cls.name,
             extends: cls.base,
@@ -563,11 +614,67 @@ export class AnalysisFinalizer {
             constructors,
             functionConstructors,
             overloads,
+            isEnum: isEnum || undefined,
+            description: info.description,
+            source: this.getSource(info.definingModule, info.definingLine),
         }
 
         return [finalized, false, extraClasses]
     }
 
+    /**
+     * Finalizes the custom events registered or triggered in a module.
+     * Parameter types are inferred from the arguments passed to `triggerEvent`.
+     * @param infos Information about event registrations and triggers.
+     */
+    protected finalizeEvents(infos: ResolvedEventInfo[]): AnalyzedEvent[] {
+        const events = new Map<string, AnalyzedEvent>()
+        for (const info of infos) {
+            let event = events.get(info.name)
+            if (!event) {
+                event = { name: info.name, parameters: [] }
+                events.set(info.name, event)
+            }
+
+            if (info.isRegistered) {
+                event.isRegistered = true
+                continue
+            }
+
+            const names = new Set<string>()
+            const parameters = (info.arguments ?? []).map(
+                (expression, i): AnalyzedParameter => {
+                    let name = info.argumentNames?.[i]
+                    if (!name || names.has(name)) {
+                        name = `arg${i + 1}`
+                    }
+
+                    names.add(name)
+                    return {
+                        name,
+                        types: this.context.typeResolver.resolve({
+                            expression,
+                        }),
+                    }
+                },
+            )
+
+            event.parameters = event.isTriggered
+                ? mergeEventParameters(event.parameters, parameters)
+                : parameters
+
+            event.isTriggered = true
+        }
+
+        for (const event of events.values()) {
+            for (const param of event.parameters) {
+                param.types = this.finalizeTypes(param.types)
+            }
+        }
+
+        return [...events.values()]
+    }
+
     /**
      * Determines the information to emit for a list of definitions.
      * @param defs The definition list.
@@ -585,10 +692,11 @@ export class AnalysisFinalizer {
         let includeTypes = true
         const firstDef = defs[0]
 
-        // one def → rewrite unless it's a class reference or defined in a function
+        // one def → rewrite unless it's a class reference, defined in a function, or annotated
         const rewriteSingleDef =
             defs.length === 1 &&
             !firstDef.functionLevel &&
+            !firstDef.annotatedTypes &&
             !this.isLiteralClassTable(firstDef.expression)
 
         if (rewriteSingleDef) {
@@ -771,12 +879,25 @@ export class AnalysisFinalizer {
             }
 
             const name = info.parameterNames[i]
-            const paramTypes = info.parameterTypes[i] ?? new Set()
+            const annotatedTypes = info.annotatedParameterTypes?.[i]
+            let paramTypes =
+                annotatedTypes ?? info.parameterTypes[i] ?? new Set()
+
+            // use types checked by type guards if nothing else is known
+            const guardedTypes = this.context.guardedParameterTypes.get(
+                info.parameters[i],
+            )
+
+            if (paramTypes.size === 0 && guardedTypes) {
+                paramTypes = guardedTypes
+            }
+
             const types = this.finalizeTypes(paramTypes)
 
             parameters.push({
                 name,
                 types,
+                isAnnotated: annotatedTypes ? true : undefined,
             })
         }
 
@@ -784,7 +905,14 @@ export class AnalysisFinalizer {
             ? info.returnTypes.map((x) => this.finalizeTypes(x))
             : []
 
-        if (!info.isConstructor) {
+        const hasAnnotatedReturns =
+            !info.isConstructor && !!info.annotatedReturnTypes
+
+        if (hasAnnotatedReturns) {
+            info.annotatedReturnTypes!.forEach((x) =>
+                returns.push(this.finalizeTypes(x)),
+            )
+        } else if (!info.isConstructor) {
             for (let i = 0; i < info.returnTypes.length; i++) {
                 const expressions = info.returnExpressions[i] ?? []
 
@@ -804,8 +932,11 @@ export class AnalysisFinalizer {
             name,
             parameters,
             returnTypes: returns,
+            hasAnnotatedReturns: hasAnnotatedReturns || undefined,
             isMethod,
             isConstructor: info.isConstructor || name === 'new',
+            description: info.description,
+            source: this.getSource(this.context.currentModule, info.line),
         }
     }
 
@@ -898,8 +1029,9 @@ export class AnalysisFinalizer {
         let expression: LuaExpression | undefined
         const types = this.finalizeTypes(staticTypes)
 
-        // only rewrite module-level definitions
-        if (moduleLevelDef) {
+        // only rewrite unannotated module-level definitions
+        const isAnnotated = expressions.some((x) => x.annotatedTypes)
+        if (moduleLevelDef && !isAnnotated) {
             if (expressions.length === 1) {
                 expression = moduleLevelDef.expression
             } else if (types.size === 1) {
@@ -1018,6 +1150,10 @@ export class AnalysisFinalizer {
             fields: fields,
         }
 
+        if (fields.length > 0 && this.isEnumTable(info)) {
+            expression.isEnum = true
+        }
+
         seen.set(id, expression)
         return expression
     }
@@ -1147,6 +1283,17 @@ export class AnalysisFinalizer {
         }
     }
 
+    /**
+     * Gets the location of the first definition of a field that includes a line.
+     * @param defs The definitions of the field.
+     */
+    protected getFieldSource(
+        defs: LuaExpressionInfo[],
+    ): AnalyzedSource | undefined {
+        const def = defs.find((x) => x.line !== undefined)
+        return def && this.getSource(def.definingModule, def.line)
+    }
+
     /**
      * Gets a set of locals that are referenced by analyzed members.
      * @param mod The module to collect locals from.
@@ -1270,6 +1417,68 @@ export class AnalysisFinalizer {
         return new Set([...refCount.entries()].map((x) => x[0]))
     }
 
+    /**
+     * Gets a source location, if both the module and line are known.
+     * @param module The file identifier of the module containing the definition.
+     * @param line The line of the definition.
+     */
+    protected getSource(
+        module: string | undefined,
+        line: number | undefined,
+    ): AnalyzedSource | undefined {
+        if (module === undefined || line === undefined) {
+            return
+        }
+
+        return { module, line }
+    }
+
+    /**
+     * Checks whether a table only contains constants that are never reassigned.
+     * Such tables are candidates for enum annotations.
+     * @param info Information about the table.
+     */
+    protected isEnumTable(info: TableInfo): boolean {
+        if (info.definitions.size === 0) {
+            return false
+        }
+
+        let valueType: LuaType | undefined
+        for (const [key, defs] of info.definitions) {
+            // only named keys with a single definition in the table constructor
+            if (getLuaFieldKey(key).startsWith('[') || defs.length !== 1) {
+                return false
+            }
+
+            const def = defs[0]
+            if (!def.fromLiteral || def.instance || def.annotatedTypes) {
+                return false
+            }
+
+            let expr = def.expression
+            if (expr.type === 'operation' && expr.operator === '-') {
+                expr = expr.arguments.length === 1 ? expr.arguments[0] : expr
+            }
+
+            if (expr.type !== 'literal') {
+                return false
+            }
+
+            // only number or string constants, without mixing the two
+            if (expr.luaType !== 'number' && expr.luaType !== 'string') {
+                return false
+            }
+
+            if (valueType && valueType !== expr.luaType) {
+                return false
+            }
+
+            valueType = expr.luaType
+        }
+
+        return true
+    }
+
     /**
      * Checks whether an expression is a literal table that is associated with a class definition.
      * @param expr The expression to check.
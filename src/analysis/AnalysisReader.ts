@@ -6,14 +6,16 @@ import type {
     LuaScope,
     NodeWithBody,
 } from '../common'
-import { readLuaStringLiteral } from '../helpers'
+import { readDocComment, readLuaStringLiteral } from '../helpers'
 
 import type {
     AnalysisItem,
     BasicLuaType,
+    LuaDocComment,
     LuaExpression,
     LiteralTableField,
     TableKey,
+    TypeGuard,
 } from './types'
 
 import {
@@ -37,6 +39,21 @@ export class AnalysisReader extends BaseReader {
      */
     protected expressionCache: Map<ast.Node, LuaExpression>
 
+    /**
+     * Maps line numbers to the annotation comments that immediately precede them.
+     */
+    protected docComments: Map<number, LuaDocComment>
+
+    /**
+     * The type guards that apply to the scope being read.
+     */
+    protected activeGuards: TypeGuard[]
+
+    /**
+     * Associates `if` statement clauses to the type guards that apply within them.
+     */
+    protected clauseGuards: Map<ast.Node, TypeGuard[]>
+
     /**
      * Creates a new analysis reader.
      * @param context The analysis context.
@@ -45,6 +62,9 @@ export class AnalysisReader extends BaseReader {
         super()
         this.context = context
         this.expressionCache = new Map()
+        this.docComments = new Map()
+        this.activeGuards = []
+        this.clauseGuards = new Map()
     }
 
     /**
@@ -58,11 +78,12 @@ export class AnalysisReader extends BaseReader {
             return
         }
 
-        const tree = this.parse(content, filename, true)
+        const tree = this.parse(content, filename, true, true)
         if (!tree) {
             return
         }
 
+        this.readDocComments(tree, content)
         this.context.setCurrentReadingModule(identifier)
 
         const scope = this.createScope(tree) as LuaModuleScope
@@ -70,6 +91,56 @@ export class AnalysisReader extends BaseReader {
 
         this.context.setCurrentReadingModule(undefined)
         this.expressionCache.clear()
+        this.docComments.clear()
+        this.clauseGuards.clear()
+    }
+
+    /**
+     * Determines the type guards that apply within each clause of an `if` statement.
+     * Guards from the conditions of earlier clauses apply negated to later clauses.
+     * @param node The `if` statement node.
+     * @param scope The current scope.
+     */
+    protected addClauseGuards(node: ast.IfStatement, scope: LuaScope) {
+        const previous: TypeGuard[] = []
+        for (const clause of node.clauses) {
+            const guards = [...previous]
+            if (clause.type !== 'ElseClause') {
+                const whenTrue = this.getGuards(clause.condition, scope, true)
+                const whenFalse = this.getGuards(clause.condition, scope, false)
+
+                this.addGuardedParameterTypes([...whenTrue, ...whenFalse])
+                guards.push(...whenTrue)
+                previous.push(...whenFalse)
+            }
+
+            this.clauseGuards.set(clause, guards)
+        }
+    }
+
+    /**
+     * Records the types checked by type guards on parameters.
+     * These are used for parameters with no other inferred types.
+     * @param guards The type guards.
+     */
+    protected addGuardedParameterTypes(guards: TypeGuard[]) {
+        for (const guard of guards) {
+            if (guard.negated || !guard.id.startsWith('@parameter')) {
+                continue
+            }
+
+            let types = this.context.guardedParameterTypes.get(guard.id)
+            if (!types) {
+                types = new Set()
+                this.context.guardedParameterTypes.set(guard.id, types)
+            }
+
+            for (const type of guard.types) {
+                if (type !== 'nil') {
+                    types.add(type)
+                }
+            }
+        }
     }
 
     /**
@@ -94,6 +165,9 @@ export class AnalysisReader extends BaseReader {
             return
         }
 
+        // annotations apply to the first variable
+        const docComment = this.getDocComment(node)
+
         for (let i = 0; i < node.init.length; i++) {
             const lhs = node.variables[i]
             if (!lhs) {
@@ -106,7 +180,15 @@ export class AnalysisReader extends BaseReader {
                 case 'CallExpression':
                 case 'TableCallExpression':
                 case 'StringCallExpression':
-                    this.analyzeCallAssignment(node, scope, lhs, rhs, i + 1)
+                    this.analyzeCallAssignment(
+                        node,
+                        scope,
+                        lhs,
+                        rhs,
+                        i + 1,
+                        i === 0 ? docComment : undefined,
+                    )
+
                     break
 
                 default:
@@ -121,6 +203,8 @@ export class AnalysisReader extends BaseReader {
                         type: 'assignment',
                         lhs: lhsExpression,
                         rhs: rhsExpression,
+                        docComment: i === 0 ? docComment : undefined,
+                        line: node.loc?.start.line,
                     })
 
                     break
@@ -159,7 +243,8 @@ export class AnalysisReader extends BaseReader {
     }
 
     /**
-     * Analyzes calls to perform type resolution based on `setmetatable`.
+     * Analyzes calls to perform type resolution based on `setmetatable`
+     * and to collect custom event registrations and triggers.
      * @param node The call statement node to analyze.
      * @param scope The current scope.
      */
@@ -169,6 +254,10 @@ export class AnalysisReader extends BaseReader {
             return
         }
 
+        if (this.analyzeEventCall(expr, scope)) {
+            return
+        }
+
         const ident = expr.base
         if (ident.type !== 'Identifier' || ident.name !== 'setmetatable') {
             return
@@ -192,6 +281,7 @@ export class AnalysisReader extends BaseReader {
      * @param lhs The left side of the assignment.
      * @param rhs The right side of the assignment.
      * @param index The 1-indexed index of the return to use from the assignment.
+     * @param docComment The annotation comment preceding the assignment.
      */
     protected analyzeCallAssignment(
         node: ast.LocalStatement | ast.AssignmentStatement,
@@ -199,6 +289,7 @@ export class AnalysisReader extends BaseReader {
         lhs: AssignmentLHS,
         rhs: AnyCallExpression,
         index: number,
+        docComment?: LuaDocComment,
     ) {
         const isLocal = node.type === 'LocalStatement'
 
@@ -225,6 +316,8 @@ export class AnalysisReader extends BaseReader {
             lhs: lhsExpression,
             rhs: rhsExpression,
             index,
+            docComment,
+            line: node.loc?.start.line,
         })
 
         const checkNewAssign =
@@ -237,6 +330,73 @@ export class AnalysisReader extends BaseReader {
         }
     }
 
+    /**
+     * Analyzes a call to `LuaEventManager.AddEvent` or `triggerEvent` with a literal event name.
+     * @param expr The call expression to analyze.
+     * @param scope The current scope.
+     * @returns Flag for whether the call registers or triggers an event.
+     */
+    protected analyzeEventCall(
+        expr: ast.CallExpression,
+        scope: LuaScope,
+    ): boolean {
+        const [nameArg, ...args] = expr.arguments
+        if (nameArg?.type !== 'StringLiteral') {
+            return false
+        }
+
+        const name = readLuaStringLiteral(nameArg.raw)
+        if (!name) {
+            return false
+        }
+
+        const base = expr.base
+        const isRegistered =
+            base.type === 'MemberExpression' &&
+            base.indexer === '.' &&
+            base.identifier.name === 'AddEvent' &&
+            base.base.type === 'Identifier' &&
+            base.base.name === 'LuaEventManager'
+
+        if (isRegistered) {
+            scope.items.push({
+                type: 'partial',
+                eventInfo: { name, isRegistered },
+            })
+
+            return true
+        }
+
+        if (base.type !== 'Identifier' || base.name !== 'triggerEvent') {
+            return false
+        }
+
+        // the count of arguments passed through varargs is unknown
+        const vararg = args.findIndex((x) => x.type === 'VarargLiteral')
+        if (vararg !== -1) {
+            args.splice(vararg)
+        }
+
+        scope.items.push({
+            type: 'partial',
+            eventInfo: {
+                name,
+                arguments: args.map((x) => this.getLuaExpression(x, scope)),
+                argumentNames: args.map((x) => {
+                    switch (x.type) {
+                        case 'Identifier':
+                            return x.name
+
+                        case 'MemberExpression':
+                            return x.identifier.name
+                    }
+                }),
+            },
+        })
+
+        return true
+    }
+
     /**
      * Analyzes a table constructor.
      * @param node The table constructor node to analyze.
@@ -543,11 +703,21 @@ export class AnalysisReader extends BaseReader {
                     scope.addLocal(node.name)
                 }
 
-                return {
+                const reference: LuaExpression = {
                     type: 'reference',
                     id: scope.getLocalId(node.name) ?? node.name,
                 }
 
+                const guards = this.activeGuards.filter(
+                    (x) => x.id === reference.id,
+                )
+
+                if (!isNewLocal && guards.length > 0) {
+                    this.context.guards.set(reference, guards)
+                }
+
+                return reference
+
             case 'VarargLiteral':
                 return {
                     type: 'reference',
@@ -698,6 +868,76 @@ export class AnalysisReader extends BaseReader {
         }
     }
 
+    /**
+     * Gets the annotation comment that immediately precedes a node.
+     * @param node The node to get the annotation comment for.
+     */
+    protected getDocComment(node: ast.Node): LuaDocComment | undefined {
+        const line = node.loc?.start.line
+        return line !== undefined ? this.docComments.get(line) : undefined
+    }
+
+    /**
+     * Gets the type guards that hold when a condition has a given truthiness.
+     * This handles `type(x) == "..."`, `instanceof(x, "...")`, `not`, `and`, and `or`.
+     * @param expr The condition expression.
+     * @param scope The current scope.
+     * @param isTrue The truthiness of the condition.
+     */
+    protected getGuards(
+        expr: ast.Expression,
+        scope: LuaScope,
+        isTrue: boolean,
+    ): TypeGuard[] {
+        switch (expr.type) {
+            case 'UnaryExpression':
+                if (expr.operator !== 'not') {
+                    return []
+                }
+
+                return this.getGuards(expr.argument, scope, !isTrue)
+
+            case 'LogicalExpression':
+                const left = this.getGuards(expr.left, scope, isTrue)
+                const right = this.getGuards(expr.right, scope, isTrue)
+
+                // `a and b` → both hold if true; `a or b` → neither holds if false
+                if ((expr.operator === 'and') === isTrue) {
+                    return [...left, ...right]
+                }
+
+                // `a or b` with guards for the same variable → one of the types
+                const canMerge =
+                    left.length === 1 &&
+                    right.length === 1 &&
+                    left[0].id === right[0].id &&
+                    !left[0].negated &&
+                    !right[0].negated
+
+                if (!canMerge) {
+                    return []
+                }
+
+                return [
+                    {
+                        id: left[0].id,
+                        types: new Set([...left[0].types, ...right[0].types]),
+                    },
+                ]
+
+            case 'BinaryExpression':
+            case 'CallExpression':
+                const guard = this.getTypeGuard(expr, scope)
+                if (!guard) {
+                    return []
+                }
+
+                return [isTrue ? guard : { ...guard, negated: !guard.negated }]
+        }
+
+        return []
+    }
+
     /**
      * Gets or creates an object representing a Lua expression.
      * @param node The expression node to get or create an expression object for.
@@ -719,6 +959,75 @@ export class AnalysisReader extends BaseReader {
         return created
     }
 
+    /**
+     * Gets the type guard for a `type(x) == "..."` comparison or an `instanceof(x, "...")` call.
+     * @param expr The expression to check.
+     * @param scope The current scope.
+     */
+    protected getTypeGuard(
+        expr: ast.BinaryExpression | ast.CallExpression,
+        scope: LuaScope,
+    ): TypeGuard | undefined {
+        if (expr.type === 'CallExpression') {
+            if (
+                expr.base.type !== 'Identifier' ||
+                expr.base.name !== 'instanceof'
+            ) {
+                return
+            }
+
+            const [target, cls] = expr.arguments
+            if (
+                target?.type !== 'Identifier' ||
+                cls?.type !== 'StringLiteral'
+            ) {
+                return
+            }
+
+            const name = readLuaStringLiteral(cls.raw)
+            if (!name) {
+                return
+            }
+
+            return {
+                id: scope.getLocalId(target.name) ?? target.name,
+                types: new Set([name]),
+            }
+        }
+
+        if (expr.operator !== '==' && expr.operator !== '~=') {
+            return
+        }
+
+        const [call, literal] =
+            expr.left.type === 'StringLiteral'
+                ? [expr.right, expr.left]
+                : [expr.left, expr.right]
+
+        if (
+            literal.type !== 'StringLiteral' ||
+            call.type !== 'CallExpression' ||
+            call.base.type !== 'Identifier' ||
+            call.base.name !== 'type' ||
+            call.arguments.length !== 1 ||
+            call.arguments[0].type !== 'Identifier'
+        ) {
+            return
+        }
+
+        const type = readLuaStringLiteral(literal.raw)
+        if (!type) {
+            return
+        }
+
+        const target = call.arguments[0]
+        return {
+            id: scope.getLocalId(target.name) ?? target.name,
+            types: new Set([type]),
+            negated: expr.operator === '~=',
+        }
+    }
+
     /**
      * Performs processing on a newly-created scope.
      * @param scope The new scope.
@@ -776,6 +1085,7 @@ export class AnalysisReader extends BaseReader {
             scope,
             node,
             identExpr,
+            this.getDocComment(node),
         )
 
         this.context.addAssignment(parent, {
@@ -802,11 +1112,61 @@ export class AnalysisReader extends BaseReader {
         }
     }
 
+    /**
+     * Reads annotation comment blocks from a parsed chunk.
+     * Blocks of consecutive comments are associated with the line that follows them.
+     * @param tree The parsed chunk, including comments.
+     * @param content The Lua source.
+     */
+    protected readDocComments(tree: ast.Chunk, content: string) {
+        this.docComments.clear()
+
+        const sourceLines = content.split(/\r?\n/)
+        const includeDescription = this.context.includeSourceComments
+
+        let block: string[] = []
+        let lastLine = -1
+        const addBlock = () => {
+            const docComment = readDocComment(block, includeDescription)
+            if (docComment) {
+                this.docComments.set(lastLine + 1, docComment)
+            }
+
+            block = []
+        }
+
+        for (const comment of tree.comments ?? []) {
+            const loc = comment.loc
+            if (!loc) {
+                continue
+            }
+
+            // ignore comments that follow code on the same line
+            const line = loc.start.line
+            const prefix = sourceLines[line - 1]?.slice(0, loc.start.column)
+            if (prefix?.trim()) {
+                continue
+            }
+
+            if (line !== lastLine + 1) {
+                addBlock()
+            }
+
+            block.push(...comment.value.split(/\r?\n/))
+            lastLine = loc.end.line
+        }
+
+        addBlock()
+    }
+
     /**
      * Analyzes statements in the scope's body.
      * @param scope The scope to read.
      */
     protected readScope(scope: LuaScope) {
+        const guardCount = this.activeGuards.length
+        this.activeGuards.push(...(this.clauseGuards.get(scope.node) ?? []))
+
         for (const node of scope.body) {
             this.analyzeUsage(node, scope)
 
@@ -835,7 +1195,21 @@ export class AnalysisReader extends BaseReader {
                     break
 
                 case 'IfStatement':
+                    this.addClauseGuards(node, scope)
                     this.readScopedBlocks(node.clauses, scope)
+
+                    // if not x then return end → x holds for the rest of the block
+                    const [clause] = node.clauses
+                    if (
+                        node.clauses.length === 1 &&
+                        clause.type === 'IfClause' &&
+                        this.hasGuaranteedReturn(clause)
+                    ) {
+                        this.activeGuards.push(
+                            ...this.getGuards(clause.condition, scope, false),
+                        )
+                    }
+
                     break
 
                 case 'CallStatement':
@@ -854,6 +1228,8 @@ export class AnalysisReader extends BaseReader {
             }
         }
 
+        this.activeGuards.length = guardCount
+
         const resolved = this.context.typeResolver.resolveScope(scope)
         if (scope.parent) {
             scope.parent.items.push(resolved)
@@ -1,10 +1,27 @@
 import path from 'path'
-import { AnalyzeArgs, AnalyzedModule } from './types'
+import { AnalyzeArgs, AnalyzedModule, AnalyzedParameter } from './types'
 import { BaseCommandHandler } from '../common'
+import { AnalysisCache } from '../cache'
+import { Rosetta } from '../rosetta/Rosetta'
 import { DependencyResolver } from '../dependency-resolution'
 import { AnalysisReader } from './AnalysisReader'
 import { AnalysisContext } from './AnalysisContext'
-import { getAliasMap, log, writeReport, time } from '../helpers'
+import {
+    getAliasMap,
+    getRosettaReturnTypes,
+    log,
+    mergeEventParameters,
+    writeReport,
+    time,
+} from '../helpers'
+
+/**
+ * The paths of the files containing the default definitions.
+ */
+const DEFAULT_DEFINITION_PATHS = [
+    path.join(__dirname, '../../__definitions.yml'),
+    path.join(__dirname, '../../__kahlua.yml'),
+]
 
 /**
  * Handles analysis of module types.
@@ -25,11 +42,51 @@ export class Analyzer extends BaseCommandHandler {
      */
     protected reader: AnalysisReader
 
+    /**
+     * The cache used to avoid re-analyzing unchanged files.
+     */
+    protected cache: AnalysisCache | undefined
+
+    /**
+     * Storage to use to keep cached analysis data in memory, if there's no cache directory.
+     */
+    protected cacheStorage: Map<string, string> | undefined
+
+    /**
+     * The directory of Rosetta files with additional definitions.
+     */
+    protected definitionsDirectory: string | undefined
+
+    /**
+     * Maps file identifiers to the identifiers of the files they depend on.
+     * This is populated when the analysis order is determined.
+     */
+    protected dependencyMap: Map<string, string[]>
+
+    /**
+     * Maps file identifiers to the identifiers of the files that depend on them.
+     * This is populated when the analysis order is determined.
+     */
+    protected dependentMap: Map<string, string[]>
+
+    /**
+     * Maps file identifiers to the paths of the files they were read from.
+     * This is populated when the analysis order is determined.
+     */
+    protected filePaths: Map<string, string>
+
+    /**
+     * The identifiers of the files that were analyzed rather than read from the cache.
+     * This is only populated when the cache is used.
+     */
+    protected uncachedIds: Set<string> | undefined
+
     /**
      * Creates a new analyzer.
      * @param args Command-line arguments for analysis.
+     * @param cacheStorage Storage to keep cached analysis data in memory across runs.
      */
-    constructor(args: AnalyzeArgs) {
+    constructor(args: AnalyzeArgs, cacheStorage?: Map<string, string>) {
         super(args)
 
         this.context = new AnalysisContext(args)
@@ -38,18 +95,50 @@ export class Analyzer extends BaseCommandHandler {
         this.outFile = args.outputFile
             ? path.normalize(args.outputFile)
             : undefined
+
+        this.definitionsDirectory = args.definitions
+        this.dependencyMap = new Map()
+        this.dependentMap = new Map()
+        this.filePaths = new Map()
+        this.cacheStorage = cacheStorage
     }
 
     /**
      * Runs analysis on the given directory.
      */
     async run() {
+        await this.loadDefinitions()
+        this.cache = this.createCache()
+
         const order = await this.getAnalysisOrder()
-        const modules = time('analysis', async () => {
+        const modules = await time('analysis', async () => {
+            if (this.cache) {
+                return await this.analyzeWithCache(order, this.cache)
+            }
+
             return await this.analyze(order)
         })
 
-        return modules
+        this.mergeEvents(modules)
+
+        if (!this.topLayerOnly || this.inDirectories.length === 0) {
+            return modules
+        }
+
+        // files from lower layers are only analyzed for context
+        const topLayer = path.resolve(
+            this.inDirectories[this.inDirectories.length - 1],
+        )
+
+        return modules.filter((x) => {
+            const filePath = this.filePaths.get(x.id)
+            if (!filePath) {
+                return false
+            }
+
+            const relative = path.relative(topLayer, path.resolve(filePath))
+            return !relative.startsWith('..') && !path.isAbsolute(relative)
+        })
     }
 
     /**
@@ -61,12 +150,34 @@ export class Analyzer extends BaseCommandHandler {
         await writeReport({ modules }, this.outFile)
     }
 
+    /**
+     * Gets a map of file identifiers to the paths of the files they were read from.
+     * This should be called after `run`.
+     */
+    getFilePaths(): Map<string, string> {
+        return new Map(this.filePaths)
+    }
+
+    /**
+     * Gets the identifiers of the files that were analyzed rather than read from the cache.
+     * This returns `undefined` if the cache wasn't used.
+     * This should be called after `run`.
+     */
+    getUncachedModules(): Set<string> | undefined {
+        return this.uncachedIds ? new Set(this.uncachedIds) : undefined
+    }
+
     /**
      * Analyzes the files in the provided array in order.
      * @param identifiers An array of file identifiers.
+     * @param allIdentifiers An array of all known file identifiers, used to resolve aliases.
+     * If not given, this defaults to `identifiers`.
      */
-    protected async analyze(identifiers: string[]): Promise<AnalyzedModule[]> {
-        this.context.aliasMap = getAliasMap(identifiers)
+    protected async analyze(
+        identifiers: string[],
+        allIdentifiers?: string[],
+    ): Promise<AnalyzedModule[]> {
+        this.context.aliasMap = getAliasMap(allIdentifiers ?? identifiers)
 
         // analyze types
         const seen = new Set<string>()
@@ -78,10 +189,9 @@ export class Analyzer extends BaseCommandHandler {
 
                 seen.add(identifier)
 
-                const filename = path.join(
-                    this.inDirectory,
-                    identifier + '.lua',
-                )
+                const filename =
+                    this.filePaths.get(identifier) ??
+                    path.join(this.inDirectory, identifier + '.lua')
 
                 await this.reader.analyzeModule(identifier, filename)
             } catch (e) {
@@ -89,6 +199,9 @@ export class Analyzer extends BaseCommandHandler {
             }
         }
 
+        // infer parameter types from calls that couldn't be resolved while reading
+        this.context.typeResolver.resolveCallSites()
+
         // resolve final types
         const moduleMap = this.finalizeModules()
 
@@ -104,6 +217,154 @@ export class Analyzer extends BaseCommandHandler {
         return modules
     }
 
+    /**
+     * Analyzes the files in the provided array in order, reusing cached modules where possible.
+     * Files are re-analyzed if they or any of their related files have changed.
+     * @see getRelatedModules
+     * @param identifiers An array of file identifiers.
+     * @param cache The analysis cache.
+     */
+    protected async analyzeWithCache(
+        identifiers: string[],
+        cache: AnalysisCache,
+    ): Promise<AnalyzedModule[]> {
+        const cached = new Map<string, AnalyzedModule>()
+        const keys = new Map<string, string>()
+        const related = new Map<string, Set<string>>()
+        const dirty = new Set<string>()
+
+        for (const identifier of identifiers) {
+            const relatedModules = this.getRelatedModules(identifier)
+            const key = cache.getModuleKey(identifier, relatedModules)
+            keys.set(identifier, key)
+            related.set(identifier, relatedModules)
+
+            const mod = await cache.getModule(identifier, key)
+            if (mod) {
+                cached.set(identifier, mod)
+            } else {
+                dirty.add(identifier)
+            }
+        }
+
+        this.uncachedIds = dirty
+
+        // related files of changed files must be analyzed to provide context
+        const toAnalyze = new Set<string>()
+        for (const identifier of dirty) {
+            toAnalyze.add(identifier)
+            related.get(identifier)!.forEach((x) => toAnalyze.add(x))
+        }
+
+        log.verbose(
+            `Reusing ${cached.size} cached modules; analyzing ${toAnalyze.size} files`,
+        )
+
+        const analyzed = new Map<string, AnalyzedModule>()
+        if (toAnalyze.size > 0) {
+            const subset = identifiers.filter((x) => toAnalyze.has(x))
+            for (const mod of await this.analyze(subset, identifiers)) {
+                analyzed.set(mod.id, mod)
+            }
+        }
+
+        const modules: AnalyzedModule[] = []
+        for (const identifier of identifiers) {
+            let mod = cached.get(identifier)
+            if (!mod && dirty.has(identifier)) {
+                mod = analyzed.get(identifier)
+                if (mod) {
+                    await cache.setModule(
+                        identifier,
+                        keys.get(identifier)!,
+                        mod,
+                    )
+                }
+            }
+
+            if (mod) {
+                modules.push(mod)
+            }
+        }
+
+        await cache.save()
+        return modules
+    }
+
+    /**
+     * Creates the cache for analysis results, if a cache directory or storage was given.
+     * Settings that affect analysis results are read from the context.
+     */
+    protected createCache(): AnalysisCache | undefined {
+        if (!this.cacheDirectory && !this.cacheStorage) {
+            return
+        }
+
+        const context = this.context
+        return new AnalysisCache({
+            cacheDirectory: this.cacheDirectory ?? '',
+            storage: this.cacheStorage,
+            settings: {
+                version: AnalysisCache.getToolVersion(),
+                callSiteTypes: context.callSiteTypeLimit,
+                eventParameterTypes: context.eventParameterTypes,
+                heuristics: context.heuristicRules,
+                isForRosetta: context.isForRosetta,
+                knownReturnTypes: context.knownReturnTypes,
+                sourceComments: context.includeSourceComments,
+                subdirectories: this.subdirectories,
+            },
+        })
+    }
+
+    /**
+     * Gets the identifiers of files reachable from a list of files in a dependency or dependent map.
+     * @param identifier The identifier of the file to exclude from the result.
+     * @param start The identifiers of the files to start from. These are included in the result.
+     * @param map The map to follow.
+     */
+    protected getReachable(
+        identifier: string,
+        start: string[],
+        map: Map<string, string[]>,
+    ): Set<string> {
+        const seen = new Set<string>()
+        const stack = [...start]
+
+        while (stack.length > 0) {
+            const dep = stack.pop()!
+            if (seen.has(dep) || dep === identifier) {
+                continue
+            }
+
+            seen.add(dep)
+            stack.push(...(map.get(dep) ?? []))
+        }
+
+        return seen
+    }
+
+    /**
+     * Gets the identifiers of all files whose analysis can affect the results for a file.
+     * This includes the transitive dependencies of the file.
+     * Since arguments at call sites provide parameter types, this also includes the files
+     * that depend on the file, directly or indirectly, along with their dependencies.
+     * @param identifier The file identifier.
+     */
+    protected getRelatedModules(identifier: string): Set<string> {
+        const dependents = this.getReachable(
+            identifier,
+            this.dependentMap.get(identifier) ?? [],
+            this.dependentMap,
+        )
+
+        return this.getReachable(
+            identifier,
+            [...(this.dependencyMap.get(identifier) ?? []), ...dependents],
+            this.dependencyMap,
+        )
+    }
+
     /**
      * Resolves the final types of analyzed modules.
      */
@@ -111,16 +372,104 @@ export class Analyzer extends BaseCommandHandler {
         return this.context.finalizer.finalize()
     }
 
+    /**
+     * Loads the return types of functions from the default definitions, the Kahlua definitions, and the definitions directory.
+     * Return types that were already known take precedence.
+     */
+    protected async loadDefinitions() {
+        const rosetta = new Rosetta({
+            inputDirectory: this.definitionsDirectory ?? '',
+        })
+
+        for (const filePath of DEFAULT_DEFINITION_PATHS) {
+            await rosetta.loadYamlFile(path.resolve(filePath))
+        }
+
+        if (this.definitionsDirectory) {
+            await rosetta.load()
+        }
+
+        this.context.knownReturnTypes = {
+            ...getRosettaReturnTypes(Object.values(rosetta.files)),
+            ...this.context.knownReturnTypes,
+        }
+    }
+
+    /**
+     * Sets the parameters of registered custom events to those passed by triggers in any module.
+     * Events that are only triggered in a module, or registered in an earlier module, are removed from it.
+     * @param modules The analyzed modules.
+     */
+    protected mergeEvents(modules: AnalyzedModule[]) {
+        const triggered = new Map<string, AnalyzedParameter[]>()
+        for (const mod of modules) {
+            for (const event of mod.events ?? []) {
+                if (!event.isTriggered) {
+                    continue
+                }
+
+                const existing = triggered.get(event.name)
+                triggered.set(
+                    event.name,
+                    existing
+                        ? mergeEventParameters(existing, event.parameters)
+                        : event.parameters,
+                )
+            }
+        }
+
+        const registered = new Set<string>()
+        for (const mod of modules) {
+            if (!mod.events) {
+                continue
+            }
+
+            const events = mod.events.filter(
+                (x) => x.isRegistered && !registered.has(x.name),
+            )
+
+            for (const event of events) {
+                registered.add(event.name)
+                event.parameters = triggered.get(event.name) ?? []
+                delete event.isTriggered
+            }
+
+            if (events.length > 0) {
+                mod.events = events
+            } else {
+                delete mod.events
+            }
+        }
+    }
+
     /**
      * Determines the files to analyze based on dependency resolution.
      * This returns a list of file identifiers, rather than filenames.
      */
     protected async getAnalysisOrder(): Promise<string[]> {
-        const resolver = new DependencyResolver({
-            inputDirectory: this.inDirectory,
-            subdirectories: this.subdirectories,
-        })
+        const resolver = new DependencyResolver(
+            {
+                inputDirectory: this.inDirectory,
+                layers: this.inDirectories.slice(1),
+                subdirectories: this.subdirectories,
+            },
+            this.cache,
+        )
+
+        const order = await resolver.run()
+        this.filePaths = resolver.getFilePaths()
+        if (this.cache) {
+            this.dependencyMap = resolver.getDependencyMap()
+            this.dependentMap = new Map()
+            for (const [id, deps] of this.dependencyMap) {
+                for (const dep of deps) {
+                    const dependents = this.dependentMap.get(dep) ?? []
+                    dependents.push(id)
+                    this.dependentMap.set(dep, dependents)
+                }
+            }
+        }
 
-        return await resolver.run()
+        return order
     }
 }
@@ -10,6 +10,7 @@ import type { AnalysisContext } from './AnalysisContext'
 import type {
     AnalysisItem,
     FunctionInfo,
+    LuaDocClass,
     LuaExpression,
     LuaIndex,
     LuaMember,
@@ -265,6 +266,7 @@ export class ClassResolver {
      * @param scope The current scope.
      * @param lhs The left side of the assignment.
      * @param rhs The right side of the assignment.
+     * @param docClass A class declared in an annotation comment preceding the assignment.
      * @returns Returns a string class ID if a class was added.
      * Otherwise, returns a flag for whether searching for a partial should be terminated.
      */
@@ -272,15 +274,17 @@ export class ClassResolver {
         scope: LuaScope,
         lhs: LuaReference,
         rhs: LuaExpression,
+        docClass?: LuaDocClass,
     ): string | boolean {
         let isLocal = false
         let localName: string | undefined
-        const [base, deriveName] = this.findDerive(rhs) ?? []
+        const [deriveBase, deriveName] = this.findDerive(rhs) ?? []
+        const base = deriveBase ?? docClass?.base
 
         // check for local class
         if (lhs.id.startsWith('@')) {
-            if (!base) {
-                // ignore locals without derive call
+            if (!deriveBase && !docClass) {
+                // ignore locals without derive call or class annotation
                 return true
             }
 
@@ -292,7 +296,7 @@ export class ClassResolver {
             }
         }
 
-        const tableId = !base
+        const tableId = !deriveBase
             ? this.findClassTable(rhs)
             : this.context.newTableId()
 
@@ -343,6 +347,11 @@ export class ClassResolver {
             tableInfo.className = moduleName + '.' + localName
         }
 
+        // annotated class name takes precedence
+        if (docClass) {
+            tableInfo.className = docClass.name
+        }
+
         this.removeEmptyDefinition(lhs.id)
         this.mergeUnknownClass(tableInfo)
 
@@ -1,11 +1,18 @@
 import type ast from 'luaparse'
-import { getLiteralKey, isEmptyTableLiteral, isTableCoalesce } from '../helpers'
+import {
+    findHeuristicRule,
+    getLiteralKey,
+    isEmptyTableLiteral,
+    isTableCoalesce,
+    splitUnionType,
+} from '../helpers'
 import type { LuaScope } from '../common'
 import type { AnalysisContext } from './AnalysisContext'
 import type {
     AssignmentItem,
     FunctionDefinitionItem,
     FunctionInfo,
+    LuaDocComment,
     LuaExpression,
     LuaExpressionInfo,
     LuaLiteral,
@@ -13,6 +20,7 @@ import type {
     LuaReference,
     RequireAssignmentItem,
     ResolvedClassInfo,
+    ResolvedEventInfo,
     ResolvedFieldInfo,
     ResolvedFunctionInfo,
     ResolvedRequireInfo,
@@ -20,13 +28,35 @@ import type {
     ResolvedScopeItem,
     ReturnsItem,
     TableInfo,
+    TypeGuard,
     UsageItem,
 } from './types'
 
-const RGBA_NAMES = new Set(['r', 'g', 'b', 'a'])
-const POS_SIZE_NAMES = new Set(['x', 'y', 'z', 'w', 'h', 'width', 'height'])
-const DX_DY_NAMES = new Set(['dx', 'dy'])
-const UNKNOWN_NAMES = /^(?:target|(?:param|arg)\d+)$/
+/**
+ * Type names that can be returned by `type()`.
+ */
+const LUA_TYPE_NAMES = new Set([
+    'boolean',
+    'function',
+    'nil',
+    'number',
+    'string',
+    'table',
+    'thread',
+    'userdata',
+])
+
+/**
+ * Types with a known result for `type()`, aside from function and table IDs.
+ */
+const BASE_TYPES = new Set([
+    'boolean',
+    'false',
+    'nil',
+    'number',
+    'string',
+    'true',
+])
 
 /**
  * Handles resolution of Lua types.
@@ -58,6 +88,11 @@ export class TypeResolver {
         info: LuaExpressionInfo,
         seen?: Map<LuaExpressionInfo, Set<string>>,
     ): Set<string> {
+        // annotated types take precedence
+        if (info.annotatedTypes) {
+            return new Set(info.annotatedTypes)
+        }
+
         seen ??= new Map()
         const types = new Set<string>()
 
@@ -122,9 +157,11 @@ export class TypeResolver {
                             continue
                         }
 
-                        funcInfo.parameterTypes[i]?.forEach((x) =>
-                            typesToAdd.add(x),
-                        )
+                        const paramTypes =
+                            funcInfo.annotatedParameterTypes?.[i] ??
+                            funcInfo.parameterTypes[i]
+
+                        paramTypes?.forEach((x) => typesToAdd.add(x))
 
                         break
                     }
@@ -220,18 +257,30 @@ export class TypeResolver {
         }
 
         let rhs: LuaExpression
+        let line: number | undefined
         switch (item.type) {
             case 'assignment':
+                rhs = item.rhs
+                line = item.line
+                break
+
             case 'requireAssignment':
                 rhs = item.rhs
                 break
 
             case 'functionDefinition':
                 rhs = item.literal
+                line = this.context.getFunctionInfo(item.id).line
                 break
         }
 
+        // assignments that type guards make unreachable are dropped
+        if (this.isExcludedByGuards(rhs)) {
+            return
+        }
+
         const index = item.type === 'assignment' ? item.index : undefined
+        const annotatedTypes = this.getAnnotatedTypes(item, rhs)
         switch (lhs.type) {
             case 'reference':
                 const tableId = this.tryAddPartialItem(scope, item, lhs, rhs)
@@ -243,7 +292,7 @@ export class TypeResolver {
                     }
                 }
 
-                this.addDef(scope, lhs.id, rhs, index)
+                this.addDef(scope, lhs.id, rhs, index, annotatedTypes, line)
                 break
 
             case 'index':
@@ -280,7 +329,19 @@ export class TypeResolver {
 
                 const key = getLiteralKey(resolved.literal, resolved.luaType)
 
-                this.addFieldDef(scope, indexBase[0], key, rhs, lhs, index)
+                this.addFieldDef(
+                    scope,
+                    indexBase[0],
+                    key,
+                    rhs,
+                    lhs,
+                    index,
+                    undefined,
+                    undefined,
+                    annotatedTypes,
+                    line,
+                )
+
                 break
 
             case 'member':
@@ -347,12 +408,79 @@ export class TypeResolver {
                     lhs,
                     index,
                     isInstance,
+                    undefined,
+                    annotatedTypes,
+                    line,
                 )
 
                 break
 
             // operation or literal should not occur directly in lhs
         }
+
+        this.addTableSourceInfo(item, rhs, line)
+    }
+
+    /**
+     * Adds the types of arguments passed at call sites that couldn't be resolved while reading
+     * to the parameter types of the called functions.
+     * If this would result in more types for a parameter than the limit, the argument types are discarded.
+     * This should be called after all modules are read.
+     */
+    resolveCallSites() {
+        // collect argument types for each parameter across all call sites
+        const callTypes = new Map<string, Set<string>[]>()
+        for (const { module, item } of this.context.callSites) {
+            this.context.setCurrentReadingModule(module)
+
+            const types = [...this.resolveExpression(item.expression)]
+            const id = types[0]
+            if (types.length !== 1 || !id.startsWith('@function')) {
+                continue
+            }
+
+            let paramTypes = callTypes.get(id)
+            if (!paramTypes) {
+                paramTypes = []
+                callTypes.set(id, paramTypes)
+            }
+
+            const funcInfo = this.context.getFunctionInfo(id)
+            const args = item.arguments ?? []
+            for (let i = 0; i < funcInfo.parameters.length; i++) {
+                paramTypes[i] ??= new Set()
+                if (i >= args.length) {
+                    paramTypes[i].add('nil')
+                    continue
+                }
+
+                this.resolveExpression(args[i]).forEach((x) =>
+                    paramTypes[i].add(x),
+                )
+            }
+        }
+
+        const limit = this.context.callSiteTypeLimit
+        for (const [id, paramTypes] of callTypes) {
+            const funcInfo = this.context.getFunctionInfo(id)
+            for (let i = 0; i < paramTypes.length; i++) {
+                const merged = new Set(funcInfo.parameterTypes[i])
+                paramTypes[i].forEach((x) => merged.add(x))
+
+                // parameter IDs are resolved to their types during finalization
+                const count = [...merged].filter(
+                    (x) =>
+                        !x.startsWith('@parameter') && !x.startsWith('@self'),
+                ).length
+
+                if (count <= limit) {
+                    funcInfo.parameterTypes[i] = merged
+                }
+            }
+        }
+
+        this.context.callSites = []
+        this.context.setCurrentReadingModule(undefined)
     }
 
     /**
@@ -361,11 +489,13 @@ export class TypeResolver {
      * @param scope The current scope.
      * @param node The function declaration AST node.
      * @param info Information about the function. This is populated with parameters from the node.
+     * @param docComment The annotation comment preceding the function.
      */
     resolveFunctionParams(
         scope: LuaScope,
         node: ast.FunctionDeclaration,
         info: FunctionInfo,
+        docComment?: LuaDocComment,
     ) {
         const identExpr = info.identifierExpression
         if (identExpr?.type === 'member') {
@@ -395,8 +525,18 @@ export class TypeResolver {
 
         info.parameterNames = info.parameters.map((x) => scope.getName(x))
 
-        if (this.context.applyHeuristics) {
-            this.applyParamNameHeuristics(info)
+        if (docComment) {
+            this.applyDocComment(info, docComment)
+        }
+
+        if (this.context.heuristicRules.length > 0) {
+            const ident = node.identifier
+            const funcName =
+                ident?.type === 'MemberExpression'
+                    ? ident.identifier.name
+                    : ident?.name
+
+            this.applyParamNameHeuristics(info, funcName)
         }
     }
 
@@ -417,6 +557,7 @@ export class TypeResolver {
         const functions: ResolvedFunctionInfo[] = []
         const requires: ResolvedRequireInfo[] = []
         const fields: ResolvedFieldInfo[] = []
+        const events: ResolvedEventInfo[] = []
         const seenClasses = new Set<string>()
 
         let hasReturn = false
@@ -449,6 +590,10 @@ export class TypeResolver {
                         fields.push(item.fieldInfo)
                     }
 
+                    if (item.eventInfo) {
+                        events.push(item.eventInfo)
+                    }
+
                     if (item.seenClassId) {
                         seenClasses.add(item.seenClassId)
                     }
@@ -460,6 +605,7 @@ export class TypeResolver {
                     item.classes.forEach((x) => classes.push(x))
                     item.requires.forEach((x) => requires.push(x))
                     item.fields.forEach((x) => fields.push(x))
+                    item.events.forEach((x) => events.push(x))
                 case 'returns':
                     this.resolveReturns(item)
                     break
@@ -508,6 +654,7 @@ export class TypeResolver {
             returns,
             requires,
             fields,
+            events,
             seenClasses,
         }
     }
@@ -668,12 +815,16 @@ export class TypeResolver {
      * @param id The identifier or internal `@`-prefixed ID.
      * @param expression The expression to add.
      * @param index The index of the definition in a call assignment.
+     * @param annotatedTypes Types declared for the definition in an annotation comment.
+     * @param line The line on which the definition occurs.
      */
     protected addDef(
         scope: LuaScope,
         id: string,
         expression: LuaExpression,
         index?: number,
+        annotatedTypes?: Set<string>,
+        line?: number,
     ) {
         let defs = this.context.definitions.get(id)
         if (!defs) {
@@ -686,9 +837,68 @@ export class TypeResolver {
             index,
             definingModule: this.context.currentModule,
             functionLevel: !scope.id.startsWith('@module'),
+            annotatedTypes,
+            line,
         })
     }
 
+    /**
+     * Adds the callback parameter types of a known event to the functions passed to `Events.X.Add` or `Events.X.Remove`.
+     * @param item The usage item for the call.
+     */
+    protected addEventCallbackTypes(item: UsageItem) {
+        const callee = item.expression
+        const callback = item.arguments?.[0]
+        if (
+            !callback ||
+            callee.type !== 'member' ||
+            callee.indexer !== '.' ||
+            (callee.member !== 'Add' && callee.member !== 'Remove')
+        ) {
+            return
+        }
+
+        const event = callee.base
+        if (
+            event.type !== 'member' ||
+            event.indexer !== '.' ||
+            event.base.type !== 'reference' ||
+            event.base.id !== 'Events'
+        ) {
+            return
+        }
+
+        const eventTypes = this.context.eventParameterTypes[event.member]
+        if (!eventTypes) {
+            return
+        }
+
+        for (const id of this.resolveExpression(callback)) {
+            if (!id.startsWith('@function')) {
+                continue
+            }
+
+            const funcInfo = this.context.getFunctionInfo(id)
+            const parameterTypes = funcInfo.parameterTypes
+
+            // arguments are passed positionally, so the first binds to `self` for methods
+            const parameters = funcInfo.parameters
+            for (let i = 0; i < eventTypes.length; i++) {
+                const type = eventTypes[i]
+                if (
+                    type === undefined ||
+                    i >= parameters.length ||
+                    parameters[i].startsWith('@self')
+                ) {
+                    continue
+                }
+
+                parameterTypes[i] ??= new Set()
+                splitUnionType(type).forEach((x) => parameterTypes[i].add(x))
+            }
+        }
+    }
+
     /**
      * Adds an expression to the list of definitions for a table field.
      * @param scope The current scope.
@@ -699,6 +909,8 @@ export class TypeResolver {
      * @param index The index of the definition in a call assignment.
      * @param instance Flag for whether the field is being set on an instance of a class.
      * @param fromLiteral Flag for whether the field comes from the table constructor literal.
+     * @param annotatedTypes Types declared for the field in an annotation comment.
+     * @param line The line on which the definition occurs.
      */
     protected addFieldDef(
         scope: LuaScope,
@@ -709,6 +921,8 @@ export class TypeResolver {
         index?: number,
         instance?: boolean,
         fromLiteral?: boolean,
+        annotatedTypes?: Set<string>,
+        line?: number,
     ) {
         if (!id.startsWith('@table')) {
             return
@@ -785,6 +999,8 @@ export class TypeResolver {
             fromLiteral,
             definingModule: this.context.currentModule,
             functionLevel: !scope.id.startsWith('@module'),
+            annotatedTypes,
+            line,
         })
 
         // created a class → done
@@ -839,65 +1055,107 @@ export class TypeResolver {
     }
 
     /**
-     * Adds known return types based on function names.
-     *
-     * TODO: This should be replaced with using Rosetta files (java + kahlua stub) to populate
-     * default types for the environment, alongside definitions for the basic Lua environment.
-     *
+     * Adds the line and the description from the comment preceding a table assignment to the table.
+     * @param item The assignment item.
+     * @param rhs The right side of the assignment.
+     * @param line The line on which the assignment occurs.
+     */
+    protected addTableSourceInfo(
+        item: AssignmentItem | FunctionDefinitionItem | RequireAssignmentItem,
+        rhs: LuaExpression,
+        line: number | undefined,
+    ) {
+        if (item.type !== 'assignment') {
+            return
+        }
+
+        if (rhs.type !== 'literal' || !rhs.tableId) {
+            return
+        }
+
+        const info = this.context.getTableInfo(rhs.tableId)
+        if (info.definingModule === this.context.currentModule) {
+            info.definingLine ??= line
+        }
+
+        if (item.docComment?.description) {
+            info.description ??= item.docComment.description
+        }
+    }
+
+    /**
+     * Adds known return types for calls to global functions and static methods.
+     * Known types are read from Rosetta data and definitions.
      * @param op The operation expression to check.
-     * @param types Set of types to add potential types to.
-     * @returns Flag representing whether known types were added to the set.
+     * @param types List of sets of return types to add known types to.
+     * @returns Flag representing whether known types were added to the list.
      */
-    protected addKnownReturns(op: LuaOperation, types: Set<string>): boolean {
+    protected addKnownReturns(op: LuaOperation, types: Set<string>[]): boolean {
         const expr = op.arguments[0]
         if (!expr || op.operator !== 'call') {
             return false
         }
 
-        // check for ISXuiSkin.build
-        if (expr.type === 'member' && expr.base.type === 'reference') {
-            if (expr.base.id !== 'ISXuiSkin' || expr.member !== 'build') {
-                return false
-            }
+        // ISXuiSkin.build returns an instance of the class argument
+        if (this.addSkinBuildReturn(op, types)) {
+            return true
+        }
 
-            const clsArg = op.arguments[3]
-            if (!clsArg) {
-                return false
-            }
+        let name: string | undefined
+        if (expr.type === 'reference' && !expr.id.startsWith('@')) {
+            name = expr.id
+        } else if (
+            expr.type === 'member' &&
+            expr.indexer === '.' &&
+            expr.base.type === 'reference' &&
+            !expr.base.id.startsWith('@')
+        ) {
+            name = `${expr.base.id}.${expr.member}`
+        }
 
-            const clsType = this.resolveExpression(clsArg)
-            if (clsType.size !== 1) {
-                return false
-            }
+        const known = name ? this.context.knownReturnTypes[name] : undefined
+        if (!known) {
+            return false
+        }
 
-            types.add([...clsType][0])
-            types.add('@instance')
-            return true
+        for (const type of known) {
+            types.push(new Set(splitUnionType(type)))
         }
 
-        if (expr.type !== 'reference') {
+        return true
+    }
+
+    /**
+     * Adds the return type for a call to `ISXuiSkin.build`, which is the instance of the class argument.
+     * @param op The operation expression to check.
+     * @param types List of sets of return types to add the type to.
+     * @returns Flag representing whether the type was added to the list.
+     */
+    protected addSkinBuildReturn(
+        op: LuaOperation,
+        types: Set<string>[],
+    ): boolean {
+        const expr = op.arguments[0]
+        if (expr?.type !== 'member' || expr.base.type !== 'reference') {
             return false
         }
 
-        const name = expr.id
-        switch (name) {
-            case 'tonumber':
-                types.add('number')
-                types.add('nil')
-                return true
+        if (expr.base.id !== 'ISXuiSkin' || expr.member !== 'build') {
+            return false
+        }
 
-            case 'getTextOrNull':
-                types.add('string')
-                types.add('nil')
-                return true
+        const clsArg = op.arguments[3]
+        if (!clsArg) {
+            return false
+        }
 
-            case 'tostring':
-            case 'getText':
-                types.add('string')
-                return true
+        const clsType = this.resolveExpression(clsArg)
+        if (clsType.size !== 1) {
+            return false
         }
 
-        return false
+        types.push(new Set([[...clsType][0], '@instance']))
+        return true
     }
 
     /**
@@ -960,10 +1218,20 @@ export class TypeResolver {
         usageTypes.delete('string')
         usageTypes.delete('table')
 
+        this.addEventCallbackTypes(item)
+
         const types = [...this.resolveExpression(item.expression)]
 
         const id = types[0]
         if (types.length !== 1 || !id.startsWith('@function')) {
+            // the function may be defined later
+            if (this.context.callSiteTypeLimit > 0) {
+                this.context.callSites.push({
+                    module: this.context.currentModule,
+                    item,
+                })
+            }
+
             return
         }
 
@@ -986,92 +1254,100 @@ export class TypeResolver {
     }
 
     /**
-     * Applies heuristics to the parameters of a function based on their names.
-     *
-     * Currently, this includes the following heuristics:
-     * - If `dx` and `dy` are both present, assume both are numbers.
-     * - If at least 2 of `x`, `y`, `w`, `h`, `width`, and `height` are present, assume they are numbers.
-     * - If at least 3 of `r`, `g`, `b`, and `a` are present, assume they are numbers.
-     * - If a parameter name matches `isX`, assume it's a boolean.
-     * - If a parameter name starts or ends with `num` (and does not start with `do`), assume it's a number.
-     * - If a parameter name starts or ends with `title`, `name`, or `str` (and does not start with `do`), assume it's a string.
-     * - If a parameter name matches `target`, `paramN`, or `argN`, mark it as unknown.
-     *
-     * @param info Information about the function to apply heuristics to.
+     * Applies the types and description from an annotation comment to a function.
+     * @param info Information about the function.
+     * @param docComment The annotation comment preceding the function.
      */
-    protected applyParamNameHeuristics(info: FunctionInfo) {
-        const checkNames = info.parameterNames.map((x) =>
-            x.startsWith('_') ? x.slice(1) : x,
-        )
+    protected applyDocComment(info: FunctionInfo, docComment: LuaDocComment) {
+        for (let i = 0; i < info.parameterNames.length; i++) {
+            // ignore implicit self to keep field attribution
+            if (info.parameters[i].startsWith('@self')) {
+                continue
+            }
 
-        let dxDyCount = 0
-        let posSizeCount = 0
-        let rgbaCount = 0
-
-        for (const name of checkNames) {
-            if (DX_DY_NAMES.has(name)) {
-                // both of dx, dy → assume number
-                dxDyCount++
-            } else if (POS_SIZE_NAMES.has(name)) {
-                // 2+ of {x, y, z, w, h, width, height} → assume number
-                posSizeCount++
-            } else if (RGBA_NAMES.has(name)) {
-                // 3+ of {r, g, b, a} → assume number
-                rgbaCount++
+            const type = docComment.parameters.get(info.parameterNames[i])
+            if (type) {
+                info.annotatedParameterTypes ??= []
+                info.annotatedParameterTypes[i] = new Set(splitUnionType(type))
             }
         }
 
+        if (docComment.returns.length > 0) {
+            info.annotatedReturnTypes = docComment.returns.map(
+                (x) => new Set(splitUnionType(x)),
+            )
+        }
+
+        info.description ??= docComment.description
+    }
+
+    /**
+     * Applies heuristic rules to the parameters of a function based on their names.
+     * The types of the first matching rule for each parameter are added to its types.
+     * @param info Information about the function to apply heuristics to.
+     * @param funcName The name of the function.
+     */
+    protected applyParamNameHeuristics(info: FunctionInfo, funcName?: string) {
         for (let i = 0; i < info.parameters.length; i++) {
-            const name = checkNames[i]
-            const assumeNum =
-                (posSizeCount >= 2 && POS_SIZE_NAMES.has(name)) ||
-                (rgbaCount >= 3 && RGBA_NAMES.has(name)) ||
-                (dxDyCount >= 2 && DX_DY_NAMES.has(name))
+            const rule = findHeuristicRule(
+                this.context.heuristicRules,
+                info.parameterNames[i],
+                info.parameterTypes[i],
+                funcName,
+                info.parameterNames,
+            )
 
-            if (assumeNum) {
+            if (rule) {
                 info.parameterTypes[i] ??= new Set()
-                info.parameterTypes[i].add('number')
-                continue
+                rule.types.forEach((x) => info.parameterTypes[i].add(x))
             }
+        }
+    }
 
-            // isX → boolean
-            const third = name.slice(2, 3)
-            if (name.startsWith('is') && third.toUpperCase() === third) {
-                info.parameterTypes[i] ??= new Set()
-                info.parameterTypes[i].add('boolean')
-                continue
-            }
+    /**
+     * Narrows types based on the type guards that apply to an expression.
+     * If none of the types match a guard, the types checked by the guard are used instead,
+     * unless the guard rules out every known type.
+     * @param expr The expression.
+     * @param types The types of the expression.
+     * @returns False if the guards rule out every known type.
+     */
+    protected applyTypeGuards(
+        expr: LuaExpression,
+        types: Set<string>,
+    ): boolean {
+        const guards = this.context.guards.get(expr)
+        if (!guards) {
+            return true
+        }
 
-            // avoid heuristics for doTitle
-            const upper = name.toUpperCase()
-            if (upper.startsWith('DO')) {
-                continue
-            }
+        for (const guard of guards) {
+            const narrowed = [...types].filter((type) => {
+                const matches = [...guard.types].some((x) =>
+                    this.isGuardedType(type, x),
+                )
 
-            // starts or ends with num → assume number
-            if (upper.startsWith('NUM') || upper.endsWith('NUM')) {
-                info.parameterTypes[i] ??= new Set()
-                info.parameterTypes[i].add('number')
+                return guard.negated ? !matches : matches
+            })
+
+            if (narrowed.length > 0) {
+                types.clear()
+                narrowed.forEach((x) => types.add(x))
                 continue
             }
 
-            // ends with name, title, or str → assume string
-            if (
-                upper.endsWith('STR') ||
-                upper.endsWith('NAME') ||
-                upper.endsWith('TITLE')
-            ) {
-                info.parameterTypes[i] ??= new Set()
-                info.parameterTypes[i].add('string')
-                continue
+            if (this.isDecidableGuard(guard, types)) {
+                types.clear()
+                return false
             }
 
-            // target, paramN, argN → unknown
-            if (UNKNOWN_NAMES.test(name)) {
-                info.parameterTypes[i] ??= new Set()
-                info.parameterTypes[i].add('unknown')
+            if (!guard.negated) {
+                types.clear()
+                guard.types.forEach((x) => types.add(x))
             }
         }
+
+        return true
     }
 
     /**
@@ -1095,6 +1371,27 @@ export class TypeResolver {
         return true
     }
 
+    /**
+     * Gets the types declared for an assignment in an annotation comment.
+     * Annotations on table and function literals are ignored to preserve their analysis.
+     * @param item The assignment item.
+     * @param rhs The right side of the assignment.
+     */
+    protected getAnnotatedTypes(
+        item: AssignmentItem | FunctionDefinitionItem | RequireAssignmentItem,
+        rhs: LuaExpression,
+    ): Set<string> | undefined {
+        if (item.type !== 'assignment' || !item.docComment?.type) {
+            return
+        }
+
+        if (rhs.type === 'literal' && (rhs.tableId || rhs.functionId)) {
+            return
+        }
+
+        return new Set(splitUnionType(item.docComment.type))
+    }
+
     /**
      * Gets the table declared in the current module, if all of the provided types are tables
      * and only one was declared in the current module.
@@ -1152,6 +1449,79 @@ export class TypeResolver {
         }
     }
 
+    /**
+     * Checks whether a type guard can be checked against known types.
+     * This is only the case for `type()` checks against base Lua types.
+     * @param guard The type guard.
+     * @param types The known types of the guarded expression.
+     */
+    protected isDecidableGuard(guard: TypeGuard, types: Set<string>): boolean {
+        if (types.size === 0) {
+            return false
+        }
+
+        for (const type of guard.types) {
+            if (!LUA_TYPE_NAMES.has(type)) {
+                return false
+            }
+        }
+
+        for (const type of types) {
+            const isBaseType =
+                BASE_TYPES.has(type) ||
+                type.startsWith('@function') ||
+                type.startsWith('@table') ||
+                type.startsWith('@instance')
+
+            if (!isBaseType) {
+                return false
+            }
+        }
+
+        return true
+    }
+
+    /**
+     * Checks whether type guards rule out every known type of an expression.
+     * @param expr The expression to check.
+     */
+    protected isExcludedByGuards(expr: LuaExpression): boolean {
+        if (expr.type !== 'reference' || !this.context.guards.has(expr)) {
+            return false
+        }
+
+        // resolve through a reference without guards to get the unguarded types
+        const types = this.resolve({
+            expression: { type: 'reference', id: expr.id },
+        })
+
+        return !this.applyTypeGuards(expr, types)
+    }
+
+    /**
+     * Checks whether a type matches a type checked by a type guard.
+     * @param type The type to check.
+     * @param guardType The type checked by the guard.
+     */
+    protected isGuardedType(type: string, guardType: string): boolean {
+        if (type === guardType) {
+            return true
+        }
+
+        switch (guardType) {
+            case 'boolean':
+                return type === 'true' || type === 'false'
+
+            case 'function':
+                return type.startsWith('@function')
+
+            case 'table':
+                return type.startsWith('@table') || type.startsWith('@instance')
+        }
+
+        return false
+    }
+
     /**
      * Checks whether an expression is a literal or an
      * operation containing only literals.
@@ -1187,6 +1557,8 @@ export class TypeResolver {
      * If narrowing succeeds, this will be cleared and replaced with narrowed types.
      */
     protected narrowTypes(expr: LuaExpression, types: Set<string>) {
+        this.applyTypeGuards(expr, types)
+
         if (types.size <= 1) {
             // no narrowing necessary
             return
@@ -1243,9 +1615,7 @@ export class TypeResolver {
         seen?: Map<LuaExpressionInfo, Set<string>>,
     ): Set<string>[] | undefined {
         const types: Set<string>[] = []
-        const knownTypes = new Set<string>()
-        if (this.addKnownReturns(op, knownTypes)) {
-            types.push(knownTypes)
+        if (this.addKnownReturns(op, types)) {
             return types
         }
 
@@ -1273,8 +1643,10 @@ export class TypeResolver {
             return types
         }
 
-        for (let i = 0; i < funcInfo.returnTypes.length; i++) {
-            types.push(new Set(funcInfo.returnTypes[i]))
+        const returnTypes =
+            funcInfo.annotatedReturnTypes ?? funcInfo.returnTypes
+        for (let i = 0; i < returnTypes.length; i++) {
+            types.push(new Set(returnTypes[i]))
         }
 
         return types
@@ -1730,7 +2102,13 @@ export class TypeResolver {
         }
 
         // class definition
-        const id = this.classResolver.tryAddPartial(scope, lhs, rhs)
+        const id = this.classResolver.tryAddPartial(
+            scope,
+            lhs,
+            rhs,
+            item.docComment?.class,
+        )
+
         if (id) {
             return typeof id === 'string' ? id : undefined
         }
@@ -11,15 +11,123 @@ export type AnalyzeArgs = BaseReportArgs & AnalysisContextArgs
  * Arguments to provide for the shared analysis context.
  */
 export interface AnalysisContextArgs {
+    /**
+     * The maximum number of types to infer for a parameter from the arguments at calls to functions defined later.
+     * If a parameter would have more types, the types from these calls are discarded.
+     * These calls are skipped if this is zero.
+     */
+    callSiteTypes?: number
+
+    /**
+     * The directory of Rosetta files with additional definitions to use for known types.
+     */
+    definitions?: string
+
+    /**
+     * Maps event names to the types of the parameters passed to their callbacks.
+     */
+    eventParameterTypes?: Record<string, (string | undefined)[]>
+
     /**
      * Flag for whether heuristics should be applied.
      */
     heuristics?: boolean
 
+    /**
+     * The path of a YAML or JSON file containing heuristic rules.
+     * If this is not given, the default rules are used.
+     */
+    heuristicsFile?: string
+
     /**
      * Flag for whether the analysis is running in the context of a Rosetta initialization or update.
      */
     isForRosetta?: boolean
+
+    /**
+     * Maps names of global functions and static methods to the types of their returns.
+     * These take precedence over types from definitions.
+     */
+    knownReturnTypes?: Record<string, string[]>
+
+    /**
+     * Flag for whether comments preceding functions and tables should be kept as descriptions.
+     */
+    sourceComments?: boolean
+}
+
+//#endregion
+
+//#region Heuristics
+
+/**
+ * A rule that assigns types to a field or parameter based on its name.
+ */
+export interface HeuristicRule {
+    /**
+     * A regular expression that the name must match.
+     * A leading underscore in the name is ignored.
+     */
+    name: string
+
+    /**
+     * Flag for whether the name pattern should ignore case.
+     */
+    ignoreCase?: boolean
+
+    /**
+     * A regular expression that the name of the containing function must match.
+     * If this is given, the rule only applies to parameters.
+     */
+    function?: string
+
+    /**
+     * The types that the item may already have for the rule to apply.
+     * If this is an empty list, the rule only applies to items without types.
+     * `nil` is ignored.
+     */
+    existingTypes?: string[]
+
+    /**
+     * Types of which the item must already have at least one for the rule to apply.
+     * Items without types also match.
+     * `nil` is ignored.
+     */
+    includesTypes?: string[]
+
+    /**
+     * Names of parameters in the same function, which must be present for the rule to apply.
+     */
+    siblings?: string[]
+
+    /**
+     * The minimum number of parameters with names in `siblings`, including the item itself.
+     * Defaults to the number of sibling names.
+     */
+    minimumSiblings?: number
+
+    /**
+     * The types to assign.
+     */
+    types: string[]
+}
+
+/**
+ * Rules for assigning types based on names.
+ * For each item, the first matching rule in a list is applied.
+ */
+export interface HeuristicRules {
+    /**
+     * Rules applied to function parameters during analysis.
+     * The types of matching rules are added to the inferred types.
+     */
+    analysis?: HeuristicRule[]
+
+    /**
+     * Rules applied to fields and parameters when generating Rosetta data.
+     * The types of matching rules replace the inferred types, apart from `nil`.
+     */
+    rosetta?: HeuristicRule[]
 }
 
 //#endregion
@@ -75,6 +183,12 @@ interface LuaLiteral {
      * These are only populated after analysis finalization.
      */
     returnTypes?: Set<string>[]
+
+    /**
+     * Flag for whether a table literal only contains constants, and can be annotated as an enum.
+     * This is only populated after analysis finalization.
+     */
+    isEnum?: boolean
 }
 
 /**
@@ -393,6 +507,16 @@ export interface AssignmentItem {
      * The index to use for a call assignment.
      */
     index?: number
+
+    /**
+     * Information from an annotation comment preceding the assignment.
+     */
+    docComment?: LuaDocComment
+
+    /**
+     * The line on which the assignment occurs.
+     */
+    line?: number
 }
 
 /**
@@ -500,6 +624,11 @@ export interface PartialItem {
      * Information about a global field.
      */
     fieldInfo?: ResolvedFieldInfo
+
+    /**
+     * Information about a custom event registration or trigger.
+     */
+    eventInfo?: ResolvedEventInfo
 }
 
 /**
@@ -518,6 +647,72 @@ export type AnalysisItem =
 
 //#region Info Objects
 
+/**
+ * Information about a type guard, such as `type(x) == "table"` or `instanceof(x, "IsoPlayer")`.
+ */
+export interface TypeGuard {
+    /**
+     * The identifier or internal `@`-prefixed ID of the guarded variable.
+     */
+    id: string
+
+    /**
+     * The types checked by the guard.
+     */
+    types: Set<string>
+
+    /**
+     * Flag for whether the guard indicates that the variable isn't any of the types.
+     */
+    negated?: boolean
+}
+
+/**
+ * Information about a class declared in an annotation comment.
+ */
+export interface LuaDocClass {
+    /**
+     * The name of the class.
+     */
+    name: string
+
+    /**
+     * The base class or comma-separated list of base classes.
+     */
+    base?: string
+}
+
+/**
+ * Type information read from a LuaDoc/EmmyLua annotation comment block in the source.
+ */
+export interface LuaDocComment {
+    /**
+     * The class declared with `@class`.
+     */
+    class?: LuaDocClass
+
+    /**
+     * Map of parameter names to types declared with `@param`.
+     */
+    parameters: Map<string, string>
+
+    /**
+     * Types declared with `@return`.
+     */
+    returns: string[]
+
+    /**
+     * The type declared with `@type`.
+     */
+    type?: string
+
+    /**
+     * The text of the comment lines that aren't annotation tags.
+     * This is only included if source comments are enabled.
+     */
+    description?: string
+}
+
 /**
  * Information about a Lua expression and the context in which it was used.
  */
@@ -555,6 +750,18 @@ export interface LuaExpressionInfo {
      * Used for field definitions.
      */
     definingModule?: string
+
+    /**
+     * The line on which the expression was defined.
+     * Used for field definitions.
+     */
+    line?: number
+
+    /**
+     * Types declared in an annotation comment.
+     * If present, these are used instead of the types resolved from the expression.
+     */
+    annotatedTypes?: Set<string>
 }
 
 /**
@@ -588,6 +795,12 @@ export interface FunctionInfo {
      */
     parameterTypes: Set<string>[]
 
+    /**
+     * List containing sets of parameter types declared in an annotation comment.
+     * If present, these are used instead of inferred parameter types.
+     */
+    annotatedParameterTypes?: (Set<string> | undefined)[]
+
     /**
      * Analyzed return types.
      */
@@ -598,6 +811,12 @@ export interface FunctionInfo {
      */
     returnExpressions: Set<LuaExpression>[]
 
+    /**
+     * Return types declared in an annotation comment.
+     * If present, these are used instead of analyzed return types.
+     */
+    annotatedReturnTypes?: Set<string>[]
+
     /**
      * The minimum number of returns found in the function scope.
      * This is used to make return values nullable.
@@ -608,6 +827,16 @@ export interface FunctionInfo {
      * Flag for whether the function should be treated as a class constructor.
      */
     isConstructor?: boolean
+
+    /**
+     * The description from the comment preceding the function.
+     */
+    description?: string
+
+    /**
+     * The line on which the function is declared.
+     */
+    line?: number
 }
 
 /**
@@ -636,6 +865,11 @@ export interface TableInfo {
      */
     definingModule?: string
 
+    /**
+     * The line on which the table was assigned in the defining module.
+     */
+    definingLine?: number
+
     /**
      * The name of the class assigned to this table.
      */
@@ -705,6 +939,11 @@ export interface TableInfo {
      * Flag for emitting the class as a simple table without a class annotation.
      */
     emitAsTable?: boolean
+
+    /**
+     * The description from the comment preceding the table assignment.
+     */
+    description?: string
 }
 
 /**
@@ -755,6 +994,46 @@ export interface ResolvedClassInfo {
     emitLocal?: boolean
 }
 
+/**
+ * Information about a function call that couldn't be resolved while reading its module.
+ */
+export interface CallSiteInfo {
+    /**
+     * The file identifier of the module containing the call.
+     */
+    module: string
+
+    /**
+     * The usage item for the call.
+     */
+    item: UsageItem
+}
+
+/**
+ * Resolved information about a call that registers or triggers a custom event, before final analysis.
+ */
+export interface ResolvedEventInfo {
+    /**
+     * The name of the event.
+     */
+    name: string
+
+    /**
+     * Flag for whether the call registers the event with `LuaEventManager.AddEvent`.
+     */
+    isRegistered?: boolean
+
+    /**
+     * The arguments passed to the callbacks of the event, for a `triggerEvent` call.
+     */
+    arguments?: LuaExpression[]
+
+    /**
+     * The names of the arguments, for arguments that are named variables or fields.
+     */
+    argumentNames?: (string | undefined)[]
+}
+
 /**
  * Resolved information about a global function, before final analysis.
  */
@@ -856,6 +1135,11 @@ export interface ResolvedScopeItem {
      */
     fields: ResolvedFieldInfo[]
 
+    /**
+     * The custom event registrations and triggers in the scope.
+     */
+    events: ResolvedEventInfo[]
+
     /**
      * A set of class names encountered in the scope.
      */
@@ -878,6 +1162,21 @@ export interface ResolvedModule extends Omit<ResolvedScopeItem, 'returns'> {
 
 //#region Analyzed
 
+/**
+ * The location of a definition in a Lua source file.
+ */
+export interface AnalyzedSource {
+    /**
+     * The file identifier of the module containing the definition.
+     */
+    module: string
+
+    /**
+     * The line of the definition.
+     */
+    line: number
+}
+
 /**
  * A fully analyzed function parameter.
  */
@@ -891,6 +1190,11 @@ export interface AnalyzedParameter {
      * Parameter types.
      */
     types: Set<string>
+
+    /**
+     * Flag for whether the types were declared in an annotation comment.
+     */
+    isAnnotated?: boolean
 }
 
 /**
@@ -912,6 +1216,11 @@ export interface AnalyzedFunction {
      */
     returnTypes: Set<string>[]
 
+    /**
+     * Flag for whether the return types were declared in an annotation comment.
+     */
+    hasAnnotatedReturns?: boolean
+
     /**
      * Flag for whether the function is a method.
      */
@@ -921,6 +1230,16 @@ export interface AnalyzedFunction {
      * Flag for whether the function is a class constructor.
      */
     isConstructor?: boolean
+
+    /**
+     * A description of the function, from the source comments.
+     */
+    description?: string
+
+    /**
+     * The location of the function declaration.
+     */
+    source?: AnalyzedSource
 }
 
 /**
@@ -941,6 +1260,16 @@ export interface AnalyzedField {
      * The field expression, for rewriting in annotations.
      */
     expression?: LuaExpression
+
+    /**
+     * Flag for whether the types were declared in an annotation comment.
+     */
+    isAnnotated?: boolean
+
+    /**
+     * The location of the first definition of the field.
+     */
+    source?: AnalyzedSource
 }
 
 /**
@@ -976,6 +1305,16 @@ export interface AnalyzedTable {
      * List of table overloads.
      */
     overloads: AnalyzedFunction[]
+
+    /**
+     * A description of the table, from the source comments.
+     */
+    description?: string
+
+    /**
+     * The location of the table assignment.
+     */
+    source?: AnalyzedSource
 }
 
 /**
@@ -1052,6 +1391,21 @@ export interface AnalyzedClass {
      * Overloads to include on the class.
      */
     overloads: AnalyzedFunction[]
+
+    /**
+     * Flag for whether the class table only contains constants, and can be annotated as an enum.
+     */
+    isEnum?: boolean
+
+    /**
+     * A description of the class, from the source comments.
+     */
+    description?: string
+
+    /**
+     * The location of the class definition.
+     */
+    source?: AnalyzedSource
 }
 
 /**
@@ -1069,6 +1423,32 @@ export interface AnalyzedReturn {
     types: Set<string>
 }
 
+/**
+ * A fully analyzed custom event.
+ */
+export interface AnalyzedEvent {
+    /**
+     * The name of the event.
+     */
+    name: string
+
+    /**
+     * The parameters passed to callbacks of the event.
+     */
+    parameters: AnalyzedParameter[]
+
+    /**
+     * Flag for whether the event is registered in the module with `LuaEventManager.AddEvent`.
+     */
+    isRegistered?: boolean
+
+    /**
+     * Flag for whether the event is triggered in the module with `triggerEvent`.
+     * This is only used to merge parameters across modules.
+     */
+    isTriggered?: boolean
+}
+
 /**
  * A fully analyzed module.
  */
@@ -1108,6 +1488,11 @@ export interface AnalyzedModule {
      * Return values of the module.
      */
     returns: AnalyzedReturn[]
+
+    /**
+     * Custom events registered in the module.
+     */
+    events?: AnalyzedEvent[]
 }
 
 //#endregion
@@ -1,6 +1,6 @@
 import path from 'path'
 import { BaseGenerator } from '../common'
-import { AnnotateArgs, InitializerSettings } from './types'
+import { AnnotateArgs, EnumMember, InitializerSettings } from './types'
 import { log } from '../helpers'
 
 import {
@@ -8,12 +8,15 @@ import {
     AnalyzedField,
     AnalyzedFunction,
     AnalyzedModule,
+    AnalyzedSource,
     AnalyzedTable,
+    LiteralTableField,
 } from '../analysis'
 
 import {
     RosettaClass,
     RosettaConstructor,
+    RosettaEvent,
     RosettaField,
     RosettaFile,
     RosettaFunction,
@@ -28,12 +31,12 @@ import {
     getFunctionAnnotation,
     getFunctionAnnotationFromExpression,
     getFunctionString,
+    getEnumMembers,
     getFunctionStringFromParamNames,
     getInlineNotes,
     getRosettaTypeString,
     getTypeString,
     getValueString,
-    writeFile,
     time,
     writeNotes,
     writeTableFields,
@@ -44,6 +47,25 @@ import {
  */
 const SCOPES = new Set(['public', 'private', 'protected', 'package'])
 
+/**
+ * Default Lua patterns for file content that indicates an addon should be used.
+ */
+const DEFAULT_ADDON_WORDS = ['Events%.[%w_]+%.Add']
+
+/**
+ * Default Lua patterns for file paths that indicate an addon should be used.
+ */
+const DEFAULT_ADDON_FILES = ['media/lua/']
+
+/**
+ * Runtime settings matching Kahlua.
+ * Kahlua implements Lua 5.1 without the `io` library.
+ */
+const KAHLUA_RUNTIME_SETTINGS = {
+    'runtime.version': 'Lua 5.1',
+    'runtime.builtin': { io: 'disable' },
+}
+
 /**
  * Handles annotation of Lua files.
  */
@@ -76,6 +98,41 @@ export class Annotator extends BaseGenerator {
      */
     protected helperPattern: RegExp | undefined
 
+    /**
+     * The file extension to use for generated stubs.
+     */
+    protected extension: string
+
+    /**
+     * Flag for whether the output should be written as a LuaLS addon.
+     */
+    protected addon: boolean
+
+    /**
+     * The name of the LuaLS addon.
+     */
+    protected addonName: string
+
+    /**
+     * Lua patterns for file content that indicates the addon should be used.
+     */
+    protected addonWords: string[]
+
+    /**
+     * Lua patterns for file paths that indicate the addon should be used.
+     */
+    protected addonFiles: string[]
+
+    /**
+     * Flag for whether `@source` links to the original Lua files should be written.
+     */
+    protected sourceLinks: boolean
+
+    /**
+     * The path or URI prefix to use in place of the input directory for `@source` links.
+     */
+    protected sourcePrefix: string | undefined
+
     /**
      * Creates a new annotator.
      * @param args Command-line arguments for annotations.
@@ -87,10 +144,30 @@ export class Annotator extends BaseGenerator {
         this.includeKahlua = args.includeKahlua
         this.strictFields = args.strictFields
         this.allowAmbiguous = args.ambiguity
+        this.extension = '.lua'
+
+        this.addon = args.addon ?? false
+        this.addonName =
+            args.addonName ?? path.basename(path.resolve(this.outDirectory))
+        this.addonWords = args.addonWords ?? DEFAULT_ADDON_WORDS
+        this.addonFiles = args.addonFiles ?? DEFAULT_ADDON_FILES
+
+        // the addon runtime settings assume the kahlua stub is available
+        if (this.addon) {
+            this.includeKahlua = true
+        }
 
         if (args.helperPattern) {
             this.helperPattern = new RegExp(args.helperPattern)
         }
+
+        this.sourceLinks = args.sourceLinks ?? false
+        if (args.sourcePrefix) {
+            this.sourcePrefix = args.sourcePrefix.replaceAll('\\', '/')
+            if (!this.sourcePrefix.endsWith('/')) {
+                this.sourcePrefix += '/'
+            }
+        }
     }
 
     /**
@@ -101,11 +178,17 @@ export class Annotator extends BaseGenerator {
         await this.loadRosetta()
 
         const modules = await this.getModules()
-        const outDir = this.outDirectory
+        const outDir = this.addon
+            ? path.join(this.outDirectory, 'library')
+            : this.outDirectory
 
         await time('annotation', async () => {
             for (const mod of modules) {
-                const outFile = path.resolve(path.join(outDir, mod.id + '.lua'))
+                if (!this.isAffectedModule(mod.id)) {
+                    continue
+                }
+
+                const outFile = path.resolve(path.join(outDir, mod.id + this.extension))
 
                 let typestub: string
                 try {
@@ -119,7 +202,7 @@ export class Annotator extends BaseGenerator {
                 }
 
                 try {
-                    await writeFile(outFile, typestub)
+                    await this.writeOutputFile(outFile, typestub, mod.id)
                 } catch (e) {
                     log.error(`Failed to write file '${outFile}': ${e}`)
                 }
@@ -127,6 +210,11 @@ export class Annotator extends BaseGenerator {
         })
 
         log.info(`Generated stubs at '${path.resolve(outDir)}'`)
+
+        if (this.addon) {
+            await this.writeAddonFiles(modules)
+        }
+
         return modules
     }
 
@@ -202,11 +290,128 @@ export class Annotator extends BaseGenerator {
             out.push('\n')
         }
 
+        if (this.writeEvents(mod, out, rosettaFile)) {
+            out.push('\n')
+        }
+
         this.writeReturns(mod, out)
 
         return out.join('').trimEnd() + '\n'
     }
 
+    /**
+     * Gets the name to use for an enum annotation on a field.
+     * @param field The field to check.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @param baseName The name of the table containing the field, if it's a table field.
+     * @returns The enum name, or `undefined` if the field isn't an enum table.
+     */
+    protected getEnumName(
+        field: AnalyzedField,
+        rosettaFile: RosettaFile | undefined,
+        baseName?: string,
+    ): string | undefined {
+        if (field.name.startsWith('[')) {
+            return
+        }
+
+        const name = baseName ? `${baseName}.${field.name}` : field.name
+        const expr = field.expression
+        const isInferredEnum = expr?.type === 'literal' && expr.isEnum
+        if (rosettaFile?.enums[name] || isInferredEnum) {
+            return name
+        }
+    }
+
+    /**
+     * Gets the members of a field that's written as an enum.
+     * Returns an empty list if the field isn't an enum table or has a type from Rosetta.
+     * @param field The analyzed field.
+     * @param rosettaField The Rosetta field associated with the analyzed field.
+     * @param enumName The name to use for the enum, if the field is an enum table.
+     */
+    protected getEnumFieldMembers(
+        field: AnalyzedField,
+        rosettaField: RosettaField | undefined,
+        enumName: string | undefined,
+    ): EnumMember[] {
+        const expr = field.expression
+        if (!enumName || expr?.type !== 'literal' || !expr.fields) {
+            return []
+        }
+
+        if (rosettaField?.type || rosettaField?.nullable !== undefined) {
+            return []
+        }
+
+        return getEnumMembers(expr.fields)
+    }
+
+    /**
+     * Gets the members of a class or table that's written as an enum.
+     * @param literalFields The fields defined in the table constructor.
+     * @param staticFields The static fields of the class or table.
+     */
+    protected getEnumTableMembers(
+        literalFields: LiteralTableField[],
+        staticFields: AnalyzedField[],
+    ): EnumMember[] {
+        const fields = [...literalFields]
+        for (const field of staticFields) {
+            if (field.expression) {
+                fields.push({
+                    key: { type: 'string', name: field.name },
+                    value: field.expression,
+                })
+            }
+        }
+
+        return getEnumMembers(fields)
+    }
+
+    /**
+     * Gets the sorted names of global variables defined in modules.
+     * This includes global fields, functions, and non-local tables and classes.
+     * @param modules The modules to read global variables from.
+     */
+    protected getGlobalNames(modules: AnalyzedModule[]): string[] {
+        const names = new Set<string>()
+        const addName = (name: string, rosettaItem?: { tags?: string[] }) => {
+            if (!rosettaItem?.tags?.includes('StubGen_Hidden')) {
+                names.add(name)
+            }
+        }
+
+        for (const mod of modules) {
+            const rosettaFile = this.rosetta.files[mod.id]
+            if (rosettaFile?.tags.has('StubGen_Hidden')) {
+                continue
+            }
+
+            for (const field of mod.fields) {
+                addName(field.name, rosettaFile?.fields[field.name])
+            }
+
+            for (const func of mod.functions) {
+                addName(func.name, rosettaFile?.functions[func.name])
+            }
+
+            for (const table of mod.tables) {
+                if (!table.local) {
+                    addName(table.name, rosettaFile?.tables[table.name])
+                }
+            }
+
+            for (const cls of mod.classes) {
+                if (!cls.local) {
+                    addName(cls.name, rosettaFile?.classes[cls.name])
+                }
+            }
+        }
+
+        return [...names].sort()
+    }
+
     /**
      * Gets an analyzed module representing the Kahlua definitions.
      */
@@ -240,6 +445,25 @@ export class Annotator extends BaseGenerator {
         return mod
     }
 
+    /**
+     * Gets the path or URI to use for a Lua file in `@source` links.
+     * If a source prefix was given, it's used in place of the input directory.
+     * Files from layered input directories use their absolute paths.
+     * @param id The file identifier.
+     */
+    protected getSourceFile(id: string): string {
+        const filePath =
+            this.filePaths.get(id) ?? path.join(this.inDirectory, id + '.lua')
+
+        const relative = path.relative(this.inDirectory, filePath)
+        const inBase = !relative.startsWith('..') && !path.isAbsolute(relative)
+        if (this.sourcePrefix !== undefined && inBase) {
+            return this.sourcePrefix + relative.replaceAll('\\', '/')
+        }
+
+        return path.resolve(filePath).replaceAll('\\', '/')
+    }
+
     /**
      * Converts a name to a safe identifier by replacing `.` with `_`.
      * @param name The input identifier name.
@@ -311,6 +535,32 @@ export class Annotator extends BaseGenerator {
         }
     }
 
+    /**
+     * Checks whether a class should be written as an enum.
+     * Inferred enums are skipped if Rosetta data treats them as a class.
+     * @param cls The class to check.
+     * @param rosettaClass The Rosetta class associated with the class.
+     * @param rosettaFile The Rosetta file associated with the module.
+     */
+    protected isEnumClass(
+        cls: AnalyzedClass,
+        rosettaClass: RosettaClass | undefined,
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        const { skipInitializer } = this.getInitializerSettings(
+            cls,
+            rosettaClass,
+        )
+
+        const base = rosettaClass?.extends ?? cls.extends
+        const isInferredEnum = cls.isEnum && !base && !rosettaClass?.fields
+
+        return (
+            !skipInitializer &&
+            (rosettaFile?.enums[cls.name] !== undefined || !!isInferredEnum)
+        )
+    }
+
     /**
      * Applies transformations to analyzed modules.
      * This includes:
@@ -334,6 +584,56 @@ export class Annotator extends BaseGenerator {
         }
     }
 
+    /**
+     * Writes the LuaLS addon configuration and a `.luarc.json` snippet for using the addon.
+     * @param modules The modules included in the addon.
+     */
+    protected async writeAddonFiles(modules: AnalyzedModule[]) {
+        const globals = this.getGlobalNames(modules)
+
+        const settings: Record<string, any> = {}
+        for (const [key, value] of Object.entries(KAHLUA_RUNTIME_SETTINGS)) {
+            settings[`Lua.${key}`] = value
+        }
+
+        settings['Lua.diagnostics.globals'] = globals
+
+        const config = {
+            name: this.addonName,
+            words: this.addonWords,
+            files: this.addonFiles,
+            settings,
+        }
+
+        const luarc = {
+            $schema:
+                'https://raw.githubusercontent.com/LuaLS/vscode-lua/master/setting/schema.json',
+            ...KAHLUA_RUNTIME_SETTINGS,
+            'diagnostics.globals': globals,
+            'workspace.library': [
+                path.resolve(path.join(this.outDirectory, 'library')),
+            ],
+        }
+
+        const files: [string, object][] = [
+            ['config.json', config],
+            ['.luarc.json', luarc],
+        ]
+
+        for (const [name, data] of files) {
+            const outFile = path.resolve(path.join(this.outDirectory, name))
+
+            try {
+                const content = JSON.stringify(data, undefined, 2) + '\n'
+                await this.writeOutputFile(outFile, content)
+            } catch (e) {
+                log.error(`Failed to write file '${outFile}': ${e}`)
+            }
+        }
+
+        log.info(`Generated addon at '${path.resolve(this.outDirectory)}'`)
+    }
+
     /**
      * Writes class annotations included in a module.
      * @param mod The module to write classes from.
@@ -365,6 +665,8 @@ export class Annotator extends BaseGenerator {
             )
 
             const base = rosettaClass?.extends ?? cls.extends
+            const rosettaEnum = rosettaFile?.enums[cls.name]
+            const isEnum = this.isEnumClass(cls, rosettaClass, rosettaFile)
 
             const writtenFields = new Set<string>()
 
@@ -373,26 +675,43 @@ export class Annotator extends BaseGenerator {
             }
 
             // class annotation
-            if (rosettaClass?.deprecated) {
+            if (rosettaEnum?.deprecated || rosettaClass?.deprecated) {
                 out.push('\n---@deprecated')
             }
 
-            writeNotes(rosettaClass?.notes, out)
+            writeNotes(
+                rosettaEnum?.notes || rosettaClass?.notes || cls.description,
+                out,
+            )
 
-            out.push(`\n---@class ${cls.name}`)
-            if (base) {
-                out.push(` : ${base}`)
-            }
+            this.writeSource(cls.source, out)
+
+            if (isEnum) {
+                out.push(`\n---@enum ${cls.name}`)
+            } else {
+                out.push(`\n---@class ${cls.name}`)
+                if (
+                    rosettaClass?.generics &&
+                    rosettaClass.generics.length > 0
+                ) {
+                    const names = rosettaClass.generics.map((x) => x.name)
+                    out.push(`<${names.join(', ')}>`)
+                }
+
+                if (base) {
+                    out.push(` : ${base}`)
+                }
 
-            this.writeRosettaOperators(rosettaClass?.operators, out)
+                this.writeRosettaOperators(rosettaClass?.operators, out)
 
-            if (!this.writeRosettaOverloads(rosettaClass?.overloads, out)) {
-                for (const overload of cls.overloads) {
-                    this.writeOverload(overload, out)
+                if (!this.writeRosettaOverloads(rosettaClass?.overloads, out)) {
+                    for (const overload of cls.overloads) {
+                        this.writeOverload(overload, out)
+                    }
                 }
-            }
 
-            this.writeClassFields(cls, writtenFields, out, rosettaClass)
+                this.writeClassFields(cls, writtenFields, out, rosettaClass)
+            }
 
             if (!skipInitializer) {
                 // definition
@@ -438,6 +757,7 @@ export class Annotator extends BaseGenerator {
                     out,
                     identName,
                     writtenFields,
+                    this.getEnumName(field, rosettaFile, cls.name),
                 )
             }
 
@@ -583,6 +903,7 @@ export class Annotator extends BaseGenerator {
      * @param out The output string array.
      * @param baseName The name of the table to write the field for, if writing a table field.
      * @param writtenFields A set of already written fields.
+     * @param enumName The name to use for an enum annotation, if the field is an enum table.
      */
     protected writeFieldAssignment(
         field: AnalyzedField,
@@ -590,6 +911,7 @@ export class Annotator extends BaseGenerator {
         out: string[],
         baseName?: string | undefined,
         writtenFields?: Set<string>,
+        enumName?: string,
     ) {
         if (rosettaField?.tags?.includes('StubGen_Hidden')) {
             return
@@ -601,14 +923,23 @@ export class Annotator extends BaseGenerator {
 
         writtenFields?.add(field.name)
 
-        if (rosettaField?.notes) {
-            if (baseName) {
-                out.push('\n')
-            }
+        const hasAnnotations =
+            rosettaField?.notes || rosettaField?.deprecated || enumName
+
+        if (baseName && hasAnnotations) {
+            out.push('\n')
+        }
 
+        if (rosettaField?.notes) {
             writeNotes(rosettaField.notes, out)
         }
 
+        if (rosettaField?.deprecated) {
+            out.push('\n---@deprecated')
+        }
+
+        this.writeSource(field.source, out)
+
         let hasRosettaType = false
         let typeString: string | undefined
         if (rosettaField?.type || rosettaField?.nullable !== undefined) {
@@ -632,6 +963,10 @@ export class Annotator extends BaseGenerator {
             typeString = getTypeString(field.types, this.allowAmbiguous)
         }
 
+        if (enumName && !hasRosettaType) {
+            out.push(`\n---@enum ${enumName}`)
+        }
+
         out.push('\n')
         if (baseName) {
             out.push(baseName)
@@ -690,7 +1025,14 @@ export class Annotator extends BaseGenerator {
                 out.push('\n')
             }
 
-            this.writeFieldAssignment(field, rosettaField, out)
+            this.writeFieldAssignment(
+                field,
+                rosettaField,
+                out,
+                undefined,
+                undefined,
+                this.getEnumName(field, rosettaFile),
+            )
 
             count++
         }
@@ -729,6 +1071,9 @@ export class Annotator extends BaseGenerator {
             return true
         }
 
+        writeNotes(func.description, out)
+        this.writeSource(func.source, out)
+
         const annotation = getFunctionAnnotation(
             func.parameters,
             func.returnTypes,
@@ -744,6 +1089,104 @@ export class Annotator extends BaseGenerator {
         return true
     }
 
+    /**
+     * Writes an event with `Add` and `Remove` functions that accept a typed callback.
+     * @param name The name of the event.
+     * @param parameters The parameters of the callback, as `name: type` strings.
+     * @param out The output string array.
+     * @param rosettaEvent The event documented in a Rosetta file.
+     */
+    protected writeEvent(
+        name: string,
+        parameters: string[],
+        out: string[],
+        rosettaEvent?: RosettaEvent,
+    ) {
+        if (rosettaEvent?.deprecated) {
+            out.push(`\n---@deprecated`)
+        }
+
+        writeNotes(rosettaEvent?.notes, out)
+        out.push(`\nEvents.${name} = {}`)
+
+        const callback = `fun(${parameters.join(', ')})`
+        for (const funcName of ['Add', 'Remove']) {
+            out.push('\n')
+            out.push(`\n---@param callback ${callback}`)
+            out.push('\n')
+            out.push(
+                getFunctionStringFromParamNames(`Events.${name}.${funcName}`, [
+                    'callback',
+                ]),
+            )
+        }
+    }
+
+    /**
+     * Writes the events included in a Rosetta file and the custom events registered in a module.
+     * Rosetta events are written with the `Events` table.
+     * Custom events are skipped if they're documented in any Rosetta file.
+     * @param mod The module to write custom events from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file to read events from.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeEvents(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        const rosettaEvents = Object.values(rosettaFile?.events ?? {}).filter(
+            (x) => this.canInject(x) && !x.tags?.includes('StubGen_Hidden'),
+        )
+
+        const rosettaFiles = Object.values(this.rosetta.files)
+        const customEvents = (mod.events ?? []).filter(
+            (event) => !rosettaFiles.some((x) => x.events[event.name]),
+        )
+
+        if (rosettaEvents.length > 0) {
+            if (out.length > 1) {
+                out.push('\n')
+            }
+
+            out.push('\n---@class Events')
+            out.push('\nEvents = {}')
+        }
+
+        for (const event of rosettaEvents) {
+            const params = (event.parameters ?? []).map((x) => {
+                const type = getRosettaTypeString(
+                    x.type,
+                    x.optional,
+                    x.nullable,
+                )
+                return `${x.name.trim()}: ${type}`
+            })
+
+            if (out.length > 1) {
+                out.push('\n')
+            }
+
+            this.writeEvent(event.name, params, out, event)
+        }
+
+        for (const event of customEvents) {
+            const params = event.parameters.map(
+                (x) =>
+                    `${x.name}: ${getTypeString(x.types, this.allowAmbiguous)}`,
+            )
+
+            if (out.length > 1) {
+                out.push('\n')
+            }
+
+            this.writeEvent(event.name, params, out)
+        }
+
+        return rosettaEvents.length > 0 || customEvents.length > 0
+    }
+
     /**
      * Writes a global function, including annotations.
      * @param mod The module to write functions from.
@@ -892,7 +1335,17 @@ export class Annotator extends BaseGenerator {
             out.push(`\n---@deprecated`)
         }
 
-        writeNotes(rosettaFunc.notes, out)
+        writeNotes(rosettaFunc.notes || func.description, out)
+        this.writeSource(func.source, out)
+
+        const generics = (rosettaFunc as RosettaFunction).generics ?? []
+        if (generics.length > 0) {
+            const list = generics.map((x) =>
+                x.extends ? `${x.name} : ${x.extends}` : x.name,
+            )
+
+            out.push(`\n---@generic ${list.join(', ')}`)
+        }
 
         let params = rosettaFunc.parameters ?? []
         for (let i = 0; i < params.length; i++) {
@@ -1020,7 +1473,13 @@ export class Annotator extends BaseGenerator {
         }
 
         for (const overload of overloads) {
-            out.push('\n---@overload fun(')
+            out.push('\n---@overload fun')
+            if (overload.generics && overload.generics.length > 0) {
+                const names = overload.generics.map((x) => x.name)
+                out.push(`<${names.join(', ')}>`)
+            }
+
+            out.push('(')
 
             const params: string[] = []
             for (const param of overload.parameters ?? []) {
@@ -1046,6 +1505,20 @@ export class Annotator extends BaseGenerator {
         return true
     }
 
+    /**
+     * Writes a `@source` annotation linking to the original definition, if source links are enabled.
+     * @param source The location of the definition.
+     * @param out The output string array.
+     */
+    protected writeSource(source: AnalyzedSource | undefined, out: string[]) {
+        if (!source || !this.sourceLinks) {
+            return
+        }
+
+        const file = this.getSourceFile(source.module)
+        out.push(`\n---@source ${file}:${source.line}`)
+    }
+
     /**
      * Writes tables from a module.
      * @param mod The module to write tables from.
@@ -1065,6 +1538,8 @@ export class Annotator extends BaseGenerator {
                 continue
             }
 
+            const rosettaEnum = rosettaFile?.enums[table.name]
+
             writtenCount++
 
             const { skipInitializer, forceLocal } = this.getInitializerSettings(
@@ -1079,7 +1554,12 @@ export class Annotator extends BaseGenerator {
                     : table.name
 
             if (!skipInitializer) {
-                writeNotes(rosettaTable?.notes, out)
+                if (rosettaEnum?.deprecated || rosettaTable?.deprecated) {
+                    out.push('\n---@deprecated')
+                }
+
+                writeNotes(rosettaTable?.notes || table.description, out)
+                this.writeSource(table.source, out)
                 this.writeRosettaOperators(rosettaTable?.operators, out)
 
                 if (!this.writeRosettaOverloads(rosettaTable?.overloads, out)) {
@@ -1092,6 +1572,10 @@ export class Annotator extends BaseGenerator {
                     out.push('\n')
                 }
 
+                if (rosettaEnum) {
+                    out.push(`\n---@enum ${table.name}`)
+                }
+
                 out.push('\n')
                 if (table.local) {
                     out.push('local ')
@@ -1111,6 +1595,7 @@ export class Annotator extends BaseGenerator {
                     out,
                     table.name,
                     writtenFields,
+                    this.getEnumName(field, rosettaFile, table.name),
                 )
             }
 
@@ -0,0 +1,1034 @@
+import { Annotator } from './Annotator'
+import type { AnnotateArgs, EnumMember } from './types'
+
+import type {
+    AnalyzedClass,
+    AnalyzedField,
+    AnalyzedFunction,
+    AnalyzedModule,
+} from '../analysis'
+
+import type {
+    RosettaClass,
+    RosettaConstructor,
+    RosettaField,
+    RosettaFile,
+    RosettaFunction,
+    RosettaGeneric,
+    RosettaOverload,
+    RosettaParameter,
+    RosettaReturn,
+} from '../rosetta'
+
+import {
+    getDeclarationParameters,
+    getDeclarationReturns,
+    getRosettaTypeString,
+    getTypeScriptTypeString,
+    getTypeString,
+    readLuaStringLiteral,
+} from '../helpers'
+
+/**
+ * Words which can't be used as parameter or declaration names in TypeScript.
+ */
+const RESERVED_WORDS = new Set([
+    'arguments',
+    'case',
+    'catch',
+    'class',
+    'const',
+    'continue',
+    'debugger',
+    'default',
+    'delete',
+    'enum',
+    'eval',
+    'export',
+    'extends',
+    'finally',
+    'implements',
+    'import',
+    'instanceof',
+    'interface',
+    'let',
+    'new',
+    'package',
+    'private',
+    'protected',
+    'public',
+    'static',
+    'super',
+    'switch',
+    'this',
+    'throw',
+    'try',
+    'typeof',
+    'var',
+    'void',
+    'with',
+    'yield',
+])
+
+/**
+ * Pattern for valid TypeScript identifiers.
+ */
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Handles generation of TypeScript declaration files from Lua files.
+ * The output is intended for use with TypeScriptToLua, in the style of PipeWrench.
+ */
+export class DeclarationAnnotator extends Annotator {
+    /**
+     * The TypeScript names of classes which are written as interfaces.
+     * Classes can't extend these, so they're merged into class declarations with interfaces instead.
+     */
+    protected interfaceNames: Set<string>
+
+    /**
+     * Creates a new declaration annotator.
+     * @param args Command-line arguments for annotations.
+     */
+    constructor(args: AnnotateArgs) {
+        super(args)
+
+        this.extension = '.d.ts'
+        this.interfaceNames = new Set()
+    }
+
+    /**
+     * Generates a declaration file for a single module.
+     * @param mod The analyzed module to write declarations for.
+     * @returns A string containing the file content of the generated declarations.
+     */
+    protected generateStub(mod: AnalyzedModule) {
+        const out: string[] = []
+
+        const rosettaFile = this.rosetta.files[mod.id]
+        if (rosettaFile?.tags.has('StubGen_Hidden')) {
+            return ''
+        }
+
+        this.writeRosettaAliases(out, rosettaFile)
+        this.writeFields(mod, out, rosettaFile)
+        this.writeTables(mod, out, rosettaFile)
+        this.writeClasses(mod, out, rosettaFile)
+        this.writeGlobalFunctions(mod, out, rosettaFile)
+
+        return out.join('').trim() + '\n'
+    }
+
+    /**
+     * Gets a name that can be used for a parameter.
+     * @param name The Lua parameter name.
+     * @param index The index of the parameter, used for names that can't be converted.
+     */
+    protected getParameterName(name: string, index: number): string {
+        name = name.trim()
+        if (!IDENTIFIER_REGEX.test(name)) {
+            return `arg${index}`
+        }
+
+        return RESERVED_WORDS.has(name) ? `${name}_` : name
+    }
+
+    /**
+     * Gets the parameter list for a function declaration.
+     * @param func The analyzed function.
+     * @param isMethod Flag for whether the function is a method.
+     * @param rosettaFunc The Rosetta function associated with the analyzed function.
+     * @param noSelf Flag for whether the function is already marked as having no `self` parameter.
+     */
+    protected getParameterList(
+        func: AnalyzedFunction,
+        isMethod: boolean,
+        rosettaFunc?: RosettaFunction | RosettaConstructor | RosettaOverload,
+        noSelf: boolean = false,
+    ): string {
+        const params = getDeclarationParameters(
+            func,
+            isMethod,
+            rosettaFunc,
+            this.allowAmbiguous,
+        )
+
+        const strings: string[] = []
+
+        // TypeScript doesn't allow required parameters after optional ones
+        let canBeOptional = true
+        for (let i = params.length - 1; i >= 0; i--) {
+            const param = params[i]
+            if (param.name === '...') {
+                const type = getTypeScriptTypeString(`(${param.type})[]`)
+                strings.unshift(`...args: ${type}`)
+                continue
+            }
+
+            const name = this.getParameterName(param.name, i)
+            const type = getTypeScriptTypeString(param.type)
+
+            canBeOptional &&= param.optional
+            strings.unshift(`${name}${canBeOptional ? '?' : ''}: ${type}`)
+        }
+
+        if (!isMethod && !noSelf) {
+            strings.unshift('this: void')
+        }
+
+        return strings.join(', ')
+    }
+
+    /**
+     * Gets the type parameter list for a class or function declaration.
+     * Returns an empty string if there are no type parameters.
+     * @param generics The generic type parameters from Rosetta.
+     */
+    protected getTypeParameters(
+        generics: RosettaGeneric[] | undefined,
+    ): string {
+        if (!generics || generics.length === 0) {
+            return ''
+        }
+
+        const list = generics.map((x) =>
+            x.extends
+                ? `${x.name} extends ${getTypeScriptTypeString(x.extends)}`
+                : x.name,
+        )
+
+        return `<${list.join(', ')}>`
+    }
+
+    /**
+     * Gets the return type for a function declaration.
+     * @param func The analyzed function.
+     * @param rosettaFunc The Rosetta function associated with the analyzed function.
+     */
+    protected getReturnType(
+        func: AnalyzedFunction,
+        rosettaFunc?: RosettaFunction | RosettaConstructor | RosettaOverload,
+    ): string {
+        const types = getDeclarationReturns(
+            func,
+            rosettaFunc,
+            this.allowAmbiguous,
+        )
+
+        if (types.length === 0) {
+            return 'void'
+        }
+
+        const converted = types.map(getTypeScriptTypeString)
+        if (converted.length === 1) {
+            return converted[0]
+        }
+
+        return `LuaMultiReturn<[${converted.join(', ')}]>`
+    }
+
+    /**
+     * Gets the name to use for a class or namespace member.
+     * Returns `undefined` if the name can't be written.
+     * @param name The Lua field or function name.
+     */
+    protected getMemberName(name: string): string | undefined {
+        if (name.startsWith('[')) {
+            return
+        }
+
+        return IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name)
+    }
+
+    /**
+     * Gets the TypeScript value of an enum member.
+     * @param value The Lua literal value.
+     * @param luaType The type of the value.
+     */
+    protected getEnumValue(value: string, luaType: 'number' | 'string') {
+        if (luaType === 'number' || /^["']/.test(value)) {
+            return value
+        }
+
+        // long strings have no TypeScript equivalent
+        return JSON.stringify(readLuaStringLiteral(value) ?? '')
+    }
+
+    /**
+     * Gets the TypeScript type of a field.
+     * @param field The analyzed field.
+     * @param rosettaField The Rosetta field associated with the analyzed field.
+     * @param enumName The name to use for the enum, if the field is an enum table.
+     */
+    protected getFieldType(
+        field: AnalyzedField,
+        rosettaField: RosettaField | undefined,
+        enumName?: string,
+    ): string {
+        if (rosettaField?.type || rosettaField?.nullable !== undefined) {
+            return getTypeScriptTypeString(
+                getRosettaTypeString(rosettaField.type, rosettaField.nullable),
+            )
+        }
+
+        // enum tables are written as objects with constant members
+        const members = this.getEnumFieldMembers(field, rosettaField, enumName)
+        if (members.length > 0) {
+            const types = members.map((x) => {
+                const name = this.getMemberName(x.name)
+                return `readonly ${name}: ${this.getEnumValue(x.value, x.luaType)}`
+            })
+
+            return `{ ${types.join('; ')} }`
+        }
+
+        // fall back to the literal type for fields like `Type` in derived classes
+        let types = field.types
+        if (types.size === 0 && field.expression?.type === 'literal') {
+            types = new Set([field.expression.luaType])
+        }
+
+        return getTypeScriptTypeString(
+            getTypeString(types, this.allowAmbiguous),
+        )
+    }
+
+    /**
+     * Writes a documentation comment.
+     * @param out The output string array.
+     * @param tab Leading space characters to include before each line.
+     * @param notes Notes to include in the comment.
+     * @param tags Additional tags to include in the comment.
+     */
+    protected writeDocComment(
+        out: string[],
+        tab: string,
+        notes: string | undefined,
+        tags: string[] = [],
+    ) {
+        const lines: string[] = []
+        if (notes) {
+            notes = notes.replaceAll('\r', '').replaceAll('*/', '*\\/')
+            lines.push(...notes.trim().split('\n'))
+        }
+
+        lines.push(...tags)
+        if (lines.length === 0) {
+            return
+        }
+
+        if (lines.length === 1) {
+            out.push(`\n${tab}/** ${lines[0].trim()} */`)
+            return
+        }
+
+        out.push(`\n${tab}/**`)
+        for (const line of lines) {
+            out.push(`\n${tab} * ${line.trim()}`.trimEnd())
+        }
+
+        out.push(`\n${tab} */`)
+    }
+
+    /**
+     * Writes documentation for a function from Rosetta.
+     * @param out The output string array.
+     * @param tab Leading space characters to include before each line.
+     * @param rosettaFunc The Rosetta function.
+     * @param description A description to use if the Rosetta function has no notes.
+     */
+    protected writeFunctionDocs(
+        out: string[],
+        tab: string,
+        rosettaFunc: RosettaFunction | RosettaConstructor | RosettaOverload,
+        description?: string,
+    ) {
+        const tags: string[] = []
+        if ((rosettaFunc as RosettaFunction).deprecated) {
+            tags.push('@deprecated')
+        }
+
+        const params: RosettaParameter[] = rosettaFunc.parameters ?? []
+        for (let i = 0; i < params.length; i++) {
+            const param = params[i]
+            if (param.notes && param.name !== 'self') {
+                const name =
+                    param.name === '...'
+                        ? 'args'
+                        : this.getParameterName(param.name, i)
+
+                tags.push(`@param ${name} ${param.notes.trim()}`)
+            }
+        }
+
+        const returns: RosettaReturn[] =
+            (rosettaFunc as RosettaFunction).return ?? []
+
+        const returnNotes = returns
+            .filter((x) => x.notes)
+            .map((x) => x.notes!.trim())
+
+        if (returnNotes.length > 0) {
+            tags.push(`@returns ${returnNotes.join('; ')}`)
+        }
+
+        this.writeDocComment(out, tab, rosettaFunc.notes || description, tags)
+    }
+
+    /**
+     * Writes class declarations included in a module.
+     * Classes without initializers are written as interfaces.
+     * @param mod The module to write classes from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeClasses(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let writtenCount = 0
+        for (const cls of mod.classes) {
+            const rosettaClass = rosettaFile?.classes[cls.name]
+            if (rosettaClass?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            writtenCount++
+            const { skipInitializer } = this.getInitializerSettings(
+                cls,
+                rosettaClass,
+            )
+
+            const name = this.getSafeIdentifier(cls.name)
+            if (this.isEnumClass(cls, rosettaClass, rosettaFile)) {
+                const rosettaEnum = rosettaFile?.enums[cls.name]
+                this.writeEnum(
+                    out,
+                    name,
+                    this.getEnumTableMembers(
+                        cls.literalFields,
+                        cls.staticFields,
+                    ),
+                    rosettaEnum?.notes ||
+                        rosettaClass?.notes ||
+                        cls.description,
+                    rosettaEnum?.deprecated || rosettaClass?.deprecated,
+                )
+
+                // functions are merged with the enum as a namespace
+                const functions = [
+                    ...cls.functions,
+                    ...cls.functionConstructors,
+                ]
+                if (functions.length === 0) {
+                    continue
+                }
+
+                out.push('\n')
+                this.writeDocComment(out, '', undefined, ['@noSelf'])
+                out.push(`\ndeclare namespace ${name} {`)
+
+                const sorted = this.alphabetize
+                    ? functions.sort((a, b) => a.name.localeCompare(b.name))
+                    : functions
+
+                for (const func of sorted) {
+                    if (!IDENTIFIER_REGEX.test(func.name)) {
+                        continue
+                    }
+
+                    this.writeFunctionDeclaration(
+                        func,
+                        '    function ',
+                        false,
+                        out,
+                        rosettaClass?.staticMethods?.[func.name],
+                        true,
+                    )
+                }
+
+                out.push('\n}')
+                continue
+            }
+
+            const typeParams = this.getTypeParameters(rosettaClass?.generics)
+            const bases = (rosettaClass?.extends ?? cls.extends ?? '')
+                .split(',')
+                .map((x) => x.trim())
+                .filter((x) => x)
+                .map(getTypeScriptTypeString)
+
+            // classes can only extend one class; merge the rest with an interface
+            const classBase = skipInitializer
+                ? undefined
+                : bases.find((x) => !this.interfaceNames.has(x))
+
+            const mergedBases = bases.filter((x) => x !== classBase)
+
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            this.writeDocComment(
+                out,
+                '',
+                rosettaClass?.notes || cls.description,
+                rosettaClass?.deprecated ? ['@deprecated'] : [],
+            )
+
+            out.push('\n')
+            if (skipInitializer) {
+                out.push(`interface ${name}${typeParams}`)
+                if (bases.length > 0) {
+                    out.push(` extends ${bases.join(', ')}`)
+                }
+            } else {
+                out.push(`declare class ${name}${typeParams}`)
+                if (classBase) {
+                    out.push(` extends ${classBase}`)
+                }
+            }
+
+            out.push(' {')
+            this.writeClassMembers(
+                cls,
+                !skipInitializer,
+                out,
+                rosettaClass,
+                rosettaFile,
+            )
+            out.push('\n}')
+
+            if (!skipInitializer && mergedBases.length > 0) {
+                out.push('\n')
+                out.push(
+                    `\ninterface ${name}${typeParams} extends ${mergedBases.join(', ')} {}`,
+                )
+            }
+        }
+
+        return writtenCount > 0
+    }
+
+    /**
+     * Applies transformations to modules and determines which classes are written as interfaces.
+     * @param modules The modules to apply transformations to.
+     */
+    protected async transformModules(modules: AnalyzedModule[]) {
+        await super.transformModules(modules)
+
+        this.interfaceNames.clear()
+        for (const mod of modules) {
+            const rosettaFile = this.rosetta.files[mod.id]
+            for (const cls of mod.classes) {
+                const rosettaClass = rosettaFile?.classes[cls.name]
+                const { skipInitializer } = this.getInitializerSettings(
+                    cls,
+                    rosettaClass,
+                )
+
+                if (skipInitializer) {
+                    this.interfaceNames.add(getTypeScriptTypeString(cls.name))
+                }
+            }
+        }
+    }
+
+    /**
+     * Writes the fields and functions of a class declaration.
+     * @param cls The class to write members for.
+     * @param allowStatic Flag for whether static members can be written.
+     * @param out The output string array.
+     * @param rosettaClass The Rosetta class associated with the analyzed class.
+     * @param rosettaFile The Rosetta file associated with the module.
+     */
+    protected writeClassMembers(
+        cls: AnalyzedClass,
+        allowStatic: boolean,
+        out: string[],
+        rosettaClass: RosettaClass | undefined,
+        rosettaFile: RosettaFile | undefined,
+    ) {
+        const tab = '    '
+        const staticPrefix = allowStatic ? 'static ' : ''
+        const writtenFields = new Set<string>()
+
+        const fields = this.alphabetize
+            ? [...cls.fields].sort((a, b) => a.name.localeCompare(b.name))
+            : cls.fields
+
+        for (const field of fields) {
+            this.writeMember(
+                field,
+                rosettaClass?.fields?.[field.name],
+                tab,
+                out,
+                writtenFields,
+            )
+        }
+
+        for (const field of [...cls.staticFields, ...cls.setterFields]) {
+            this.writeMember(
+                field,
+                rosettaClass?.staticFields?.[field.name],
+                tab + staticPrefix,
+                out,
+                writtenFields,
+                this.getEnumName(field, rosettaFile, cls.name),
+            )
+        }
+
+        const groups: [AnalyzedFunction[], boolean][] = [
+            [cls.functions, false],
+            [cls.methods, true],
+            [cls.functionConstructors, false],
+            [cls.constructors, true],
+        ]
+
+        for (const [functions, isMethod] of groups) {
+            const sorted = this.alphabetize
+                ? [...functions].sort((a, b) => a.name.localeCompare(b.name))
+                : functions
+
+            // constructors are called on the class, so are written as static
+            // static methods receive the class as `self` by default
+            const isConstructor = functions === cls.constructors
+            const prefix = isConstructor || !isMethod ? tab + staticPrefix : tab
+
+            for (const func of sorted) {
+                let rosettaFunc:
+                    | RosettaFunction
+                    | RosettaConstructor
+                    | undefined
+                if (isConstructor && func.name === 'new') {
+                    rosettaFunc = rosettaClass?.constructors?.[0]
+                } else if (rosettaClass) {
+                    rosettaFunc = isMethod
+                        ? rosettaClass.methods?.[func.name]
+                        : rosettaClass.staticMethods?.[func.name]
+                }
+
+                this.writeFunctionDeclaration(
+                    func,
+                    prefix,
+                    isMethod,
+                    out,
+                    rosettaFunc,
+                )
+            }
+        }
+    }
+
+    /**
+     * Writes an enum declaration.
+     * @param out The output string array.
+     * @param name The name of the enum.
+     * @param members The members of the enum, with values as Lua literals.
+     * @param notes Notes to include in the documentation comment.
+     * @param deprecated Flag for whether the enum is deprecated.
+     */
+    protected writeEnum(
+        out: string[],
+        name: string,
+        members: EnumMember[],
+        notes: string | undefined,
+        deprecated: boolean | undefined,
+    ) {
+        if (out.length > 0) {
+            out.push('\n')
+        }
+
+        this.writeDocComment(out, '', notes, deprecated ? ['@deprecated'] : [])
+        out.push(`\ndeclare enum ${name} {`)
+
+        for (const member of members) {
+            const memberName = this.getMemberName(member.name)
+            const value = this.getEnumValue(member.value, member.luaType)
+            out.push(`\n    ${memberName} = ${value},`)
+        }
+
+        out.push('\n}')
+    }
+
+    /**
+     * Writes a field declaration for a class or namespace.
+     * @param field The field to write.
+     * @param rosettaField The Rosetta field associated with the analyzed field.
+     * @param prefix The string to write before the field name.
+     * @param out The output string array.
+     * @param writtenFields A set of already written fields.
+     * @param enumName The name to use for the enum, if the field is an enum table.
+     */
+    protected writeMember(
+        field: AnalyzedField,
+        rosettaField: RosettaField | undefined,
+        prefix: string,
+        out: string[],
+        writtenFields: Set<string>,
+        enumName?: string,
+    ) {
+        if (rosettaField?.tags?.includes('StubGen_Hidden')) {
+            return
+        }
+
+        const name = this.getMemberName(field.name)
+        if (!name || writtenFields.has(field.name)) {
+            return
+        }
+
+        writtenFields.add(field.name)
+
+        const tab = prefix.match(/^\s*/)![0]
+        this.writeDocComment(out, tab, rosettaField?.notes)
+        const type = this.getFieldType(field, rosettaField, enumName)
+        out.push(`\n${prefix}${name}: ${type}`)
+    }
+
+    /**
+     * Writes global variable declarations from a module.
+     * @param mod The module to write fields from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeFields(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let count = 0
+        const enums: [string, EnumMember[], RosettaField | undefined][] = []
+        for (const field of mod.fields) {
+            // classes & tables take precendence over fields
+            if (rosettaFile?.classes[field.name]) {
+                continue
+            }
+
+            if (rosettaFile?.tables[field.name]) {
+                continue
+            }
+
+            const rosettaField = rosettaFile?.fields[field.name]
+            if (rosettaField?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            if (!IDENTIFIER_REGEX.test(field.name)) {
+                continue
+            }
+
+            // enums are written after variables, since they're blocks
+            const members = this.getEnumFieldMembers(
+                field,
+                rosettaField,
+                this.getEnumName(field, rosettaFile),
+            )
+
+            if (members.length > 0) {
+                enums.push([field.name, members, rosettaField])
+                continue
+            }
+
+            if (out.length > 0 && count === 0) {
+                out.push('\n')
+            }
+
+            const type = this.getFieldType(field, rosettaField)
+            this.writeDocComment(out, '', rosettaField?.notes)
+            out.push(`\ndeclare let ${field.name}: ${type}`)
+
+            count++
+        }
+
+        for (const [name, members, rosettaField] of enums) {
+            this.writeEnum(
+                out,
+                name,
+                members,
+                rosettaField?.notes,
+                rosettaField?.deprecated,
+            )
+
+            count++
+        }
+
+        return count > 0
+    }
+
+    /**
+     * Writes a function declaration, including overloads from Rosetta.
+     * @param func The function to write.
+     * @param prefix The string to write before the function name.
+     * @param isMethod Flag for whether the function is a method.
+     * @param out The output string array.
+     * @param rosettaFunc The Rosetta function associated with the analyzed function.
+     * @param noSelf Flag for whether the function is already marked as having no `self` parameter.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeFunctionDeclaration(
+        func: AnalyzedFunction,
+        prefix: string,
+        isMethod: boolean,
+        out: string[],
+        rosettaFunc: RosettaFunction | RosettaConstructor | undefined,
+        noSelf: boolean = false,
+    ): boolean {
+        const tags = (rosettaFunc as RosettaFunction | undefined)?.tags
+        if (tags?.includes('StubGen_Hidden')) {
+            return false
+        }
+
+        const name = this.getMemberName(func.name)
+        if (!name) {
+            return false
+        }
+
+        const tab = prefix.match(/^\s*/)![0]
+        const overloads = (rosettaFunc as RosettaFunction | undefined)
+            ?.overloads
+
+        for (const overload of overloads ?? []) {
+            this.writeFunctionDocs(out, tab, overload)
+
+            const params = this.getParameterList(
+                func,
+                isMethod,
+                overload,
+                noSelf,
+            )
+
+            const typeParams = this.getTypeParameters(overload.generics)
+            const returnType = this.getReturnType(func, overload)
+            out.push(
+                `\n${prefix}${name}${typeParams}(${params}): ${returnType}`,
+            )
+        }
+
+        if (rosettaFunc) {
+            this.writeFunctionDocs(out, tab, rosettaFunc, func.description)
+        } else {
+            this.writeDocComment(out, tab, func.description)
+        }
+
+        const params = this.getParameterList(
+            func,
+            isMethod,
+            rosettaFunc,
+            noSelf,
+        )
+
+        const typeParams = this.getTypeParameters(
+            (rosettaFunc as RosettaFunction | undefined)?.generics,
+        )
+
+        const returnType = this.getReturnType(func, rosettaFunc)
+        out.push(`\n${prefix}${name}${typeParams}(${params}): ${returnType}`)
+
+        return true
+    }
+
+    /**
+     * Writes global function declarations.
+     * @param mod The module to write functions from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeGlobalFunctions(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let count = 0
+        for (const func of mod.functions) {
+            if (!IDENTIFIER_REGEX.test(func.name)) {
+                continue
+            }
+
+            const written: string[] = []
+            const rosettaFunc = rosettaFile?.functions[func.name]
+            this.writeFunctionDeclaration(
+                func,
+                'declare function ',
+                false,
+                written,
+                rosettaFunc,
+            )
+
+            if (written.length > 0) {
+                if (out.length > 0) {
+                    out.push('\n')
+                }
+
+                out.push(...written)
+                count++
+            }
+        }
+
+        return count > 0
+    }
+
+    /**
+     * Writes type aliases included in a Rosetta file.
+     * @param out The output string array.
+     * @param rosettaFile The rosetta file to read aliases from.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeRosettaAliases(
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        if (!rosettaFile) {
+            return false
+        }
+
+        for (const alias of rosettaFile.aliases) {
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            const types = alias.types.map((x) =>
+                getTypeScriptTypeString(x.type),
+            )
+
+            const name = this.getSafeIdentifier(alias.name)
+            out.push(`\ntype ${name} = ${types.join(' | ')}`)
+        }
+
+        return rosettaFile.aliases.length > 0
+    }
+
+    /**
+     * Writes namespace declarations for tables in a module.
+     * Namespaces without methods are marked with `@noSelf`.
+     * @param mod The module to write tables from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the analyzed module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeTables(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let writtenCount = 0
+        for (const table of mod.tables) {
+            const rosettaTable = rosettaFile?.tables?.[table.name]
+            if (rosettaTable?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            writtenCount++
+
+            const { forceLocal } = this.getInitializerSettings(
+                table,
+                rosettaTable,
+                true,
+            )
+
+            const name =
+                table.local || forceLocal
+                    ? this.getSafeIdentifier(table.name)
+                    : table.name
+
+            // enum tables are written as enums, merged with a namespace for functions
+            const writtenFields = new Set<string>()
+            const rosettaEnum = rosettaFile?.enums[table.name]
+            if (rosettaEnum) {
+                const members = this.getEnumTableMembers([], table.staticFields)
+                this.writeEnum(
+                    out,
+                    name,
+                    members,
+                    rosettaEnum.notes ||
+                        rosettaTable?.notes ||
+                        table.description,
+                    rosettaEnum.deprecated || rosettaTable?.deprecated,
+                )
+
+                members.forEach((x) => writtenFields.add(x.name))
+
+                const hasFunctions =
+                    table.functions.length > 0 || table.methods.length > 0
+
+                const hasFields = table.staticFields.some(
+                    (x) => !writtenFields.has(x.name),
+                )
+
+                if (!hasFunctions && !hasFields) {
+                    continue
+                }
+            }
+
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            const noSelf = table.methods.length === 0
+            const tags = noSelf ? ['@noSelf'] : []
+            if (rosettaTable?.deprecated) {
+                tags.unshift('@deprecated')
+            }
+
+            this.writeDocComment(
+                out,
+                '',
+                rosettaEnum
+                    ? undefined
+                    : rosettaTable?.notes || table.description,
+                tags,
+            )
+            out.push(`\ndeclare namespace ${name} {`)
+
+            const tab = '    '
+            for (const field of table.staticFields) {
+                this.writeMember(
+                    field,
+                    rosettaTable?.staticFields?.[field.name],
+                    `${tab}let `,
+                    out,
+                    writtenFields,
+                    this.getEnumName(field, rosettaFile, table.name),
+                )
+            }
+
+            const groups: [AnalyzedFunction[], boolean][] = [
+                [table.functions, false],
+                [table.methods, true],
+            ]
+
+            for (const [functions, isMethod] of groups) {
+                const sorted = this.alphabetize
+                    ? [...functions].sort((a, b) =>
+                          a.name.localeCompare(b.name),
+                      )
+                    : functions
+
+                for (const func of sorted) {
+                    if (!IDENTIFIER_REGEX.test(func.name)) {
+                        continue
+                    }
+
+                    const rosettaFunc = isMethod
+                        ? rosettaTable?.methods?.[func.name]
+                        : rosettaTable?.staticMethods?.[func.name]
+
+                    this.writeFunctionDeclaration(
+                        func,
+                        `${tab}function `,
+                        isMethod,
+                        out,
+                        rosettaFunc,
+                        noSelf,
+                    )
+                }
+            }
+
+            out.push('\n}')
+        }
+
+        return writtenCount > 0
+    }
+}
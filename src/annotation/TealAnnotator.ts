@@ -0,0 +1,727 @@
+import { Annotator } from './Annotator'
+import type { AnnotateArgs, EnumMember } from './types'
+
+import type {
+    AnalyzedClass,
+    AnalyzedField,
+    AnalyzedFunction,
+    AnalyzedModule,
+} from '../analysis'
+
+import type {
+    RosettaClass,
+    RosettaConstructor,
+    RosettaField,
+    RosettaFile,
+    RosettaFunction,
+    RosettaGeneric,
+    RosettaOperator,
+    RosettaOverload,
+} from '../rosetta'
+
+import {
+    getDeclarationParameters,
+    getDeclarationReturns,
+    getTealTypeString,
+    getTypeString,
+    writeNotes,
+} from '../helpers'
+
+/**
+ * Pattern for valid Teal identifiers.
+ */
+const IDENTIFIER_REGEX = /^[A-Za-z_]\w*$/
+
+/**
+ * Operators which take only the operand.
+ */
+const UNARY_OPERATORS = new Set(['unm', 'len', 'bnot'])
+
+/**
+ * Handles generation of Teal declaration files from Lua files.
+ */
+export class TealAnnotator extends Annotator {
+    /**
+     * Creates a new Teal annotator.
+     * @param args Command-line arguments for annotations.
+     */
+    constructor(args: AnnotateArgs) {
+        super(args)
+
+        this.extension = '.d.tl'
+    }
+
+    /**
+     * Generates a Teal declaration file for a single module.
+     * @param mod The analyzed module to write declarations for.
+     * @returns A string containing the file content of the generated declarations.
+     */
+    protected generateStub(mod: AnalyzedModule) {
+        const out: string[] = []
+
+        const rosettaFile = this.rosetta.files[mod.id]
+        if (rosettaFile?.tags.has('StubGen_Hidden')) {
+            return ''
+        }
+
+        this.writeRosettaAliases(out, rosettaFile)
+        this.writeFields(mod, out, rosettaFile)
+        this.writeTables(mod, out, rosettaFile)
+        this.writeClasses(mod, out, rosettaFile)
+        this.writeGlobalFunctions(mod, out, rosettaFile)
+
+        return out.join('').trim() + '\n'
+    }
+
+    /**
+     * Gets the Teal type of a field.
+     * @param field The analyzed field.
+     * @param rosettaField The Rosetta field associated with the analyzed field.
+     * @param selfType The type to use for `self`.
+     */
+    protected getFieldType(
+        field: AnalyzedField,
+        rosettaField: RosettaField | undefined,
+        selfType?: string,
+    ): string {
+        if (rosettaField?.type) {
+            return getTealTypeString(rosettaField.type, selfType)
+        }
+
+        // fall back to the literal type for fields like `Type` in derived classes
+        let types = field.types
+        if (types.size === 0 && field.expression?.type === 'literal') {
+            types = new Set([field.expression.luaType])
+        }
+
+        return getTealTypeString(
+            getTypeString(types, this.allowAmbiguous),
+            selfType,
+        )
+    }
+
+    /**
+     * Gets the signature of a function declaration, starting from the parameter list.
+     * @param func The analyzed function.
+     * @param selfType The type of the `self` parameter, if the function is a method.
+     * @param rosettaFunc The Rosetta function associated with the analyzed function.
+     */
+    protected getFunctionSignature(
+        func: AnalyzedFunction,
+        selfType: string | undefined,
+        rosettaFunc?: RosettaFunction | RosettaConstructor | RosettaOverload,
+    ): string {
+        const params = getDeclarationParameters(
+            func,
+            selfType !== undefined,
+            rosettaFunc,
+            this.allowAmbiguous,
+        )
+
+        const strings: string[] = []
+
+        // optional parameters must come after required parameters
+        let canBeOptional = true
+        for (let i = params.length - 1; i >= 0; i--) {
+            const param = params[i]
+            const type = getTealTypeString(param.type, selfType)
+            if (param.name === '...') {
+                strings.unshift(`...: ${type}`)
+                continue
+            }
+
+            const name = IDENTIFIER_REGEX.test(param.name)
+                ? param.name
+                : `arg${i}`
+
+            canBeOptional &&= param.optional
+            strings.unshift(`${name}${canBeOptional ? '?' : ''}: ${type}`)
+        }
+
+        if (selfType) {
+            strings.unshift(`self: ${selfType}`)
+        }
+
+        const returns = getDeclarationReturns(
+            func,
+            rosettaFunc,
+            this.allowAmbiguous,
+        ).map((x) => getTealTypeString(x, selfType))
+
+        // function types in a return list must be wrapped to avoid ambiguity
+        if (returns.length > 1) {
+            for (let i = 0; i < returns.length; i++) {
+                if (returns[i].startsWith('function(')) {
+                    returns[i] = `(${returns[i]})`
+                }
+            }
+        }
+
+        const typeParams = this.getTypeParameters(
+            (rosettaFunc as RosettaFunction | undefined)?.generics,
+        )
+
+        const signature = `${typeParams}(${strings.join(', ')})`
+        if (returns.length === 0) {
+            return signature
+        }
+
+        return `${signature}: ${returns.join(', ')}`
+    }
+
+    /**
+     * Gets the type parameter list for a record or function type.
+     * Returns an empty string if there are no type parameters.
+     * Constraints are omitted, since Teal only allows interfaces as constraints.
+     * @param generics The generic type parameters from Rosetta.
+     */
+    protected getTypeParameters(
+        generics: RosettaGeneric[] | undefined,
+    ): string {
+        if (!generics || generics.length === 0) {
+            return ''
+        }
+
+        return `<${generics.map((x) => x.name).join(', ')}>`
+    }
+
+    /**
+     * Gets the name to use for a record.
+     * @param name The name of the class or table.
+     */
+    protected getRecordName(name: string): string {
+        return this.getSafeIdentifier(name)
+    }
+
+    /**
+     * Writes class records included in a module.
+     * @param mod The module to write classes from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeClasses(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let writtenCount = 0
+        for (const cls of mod.classes) {
+            const rosettaClass = rosettaFile?.classes[cls.name]
+            if (rosettaClass?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            writtenCount++
+            const { forceLocal } = this.getInitializerSettings(
+                cls,
+                rosettaClass,
+            )
+
+            const name = this.getRecordName(cls.name)
+            const typeParams = this.getTypeParameters(rosettaClass?.generics)
+            const base = rosettaClass?.extends ?? cls.extends
+
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            writeNotes(rosettaClass?.notes || cls.description, out)
+
+            // records can't inherit, so the base is only noted
+            if (base) {
+                out.push(`\n-- extends ${base}`)
+            }
+
+            const scope = cls.local || forceLocal ? 'local' : 'global'
+            out.push(`\n${scope} record ${name}${typeParams}`)
+
+            // members of inferred enums are only in the table literal
+            if (this.isEnumClass(cls, rosettaClass, rosettaFile)) {
+                this.writeEnumMembers(
+                    this.getEnumTableMembers(cls.literalFields, []),
+                    '    ',
+                    out,
+                )
+            }
+
+            this.writeClassMembers(
+                cls,
+                name + typeParams,
+                out,
+                rosettaClass,
+                rosettaFile,
+            )
+
+            out.push('\nend')
+        }
+
+        return writtenCount > 0
+    }
+
+    /**
+     * Writes the fields, functions, and metamethods of a class record.
+     * @param cls The class to write members for.
+     * @param name The record type, including type arguments.
+     * @param out The output string array.
+     * @param rosettaClass The Rosetta class associated with the analyzed class.
+     * @param rosettaFile The Rosetta file associated with the module.
+     */
+    protected writeClassMembers(
+        cls: AnalyzedClass,
+        name: string,
+        out: string[],
+        rosettaClass: RosettaClass | undefined,
+        rosettaFile: RosettaFile | undefined,
+    ) {
+        const writtenFields = new Set<string>()
+
+        const fields = this.alphabetize
+            ? [...cls.fields].sort((a, b) => a.name.localeCompare(b.name))
+            : cls.fields
+
+        for (const field of fields) {
+            const rosettaField = rosettaClass?.fields?.[field.name]
+            this.writeRecordField(field, rosettaField, name, out, writtenFields)
+        }
+
+        for (const field of [...cls.staticFields, ...cls.setterFields]) {
+            const rosettaField = rosettaClass?.staticFields?.[field.name]
+            this.writeRecordField(
+                field,
+                rosettaField,
+                name,
+                out,
+                writtenFields,
+                this.getEnumName(field, rosettaFile, cls.name),
+            )
+        }
+
+        const groups: [AnalyzedFunction[], boolean][] = [
+            [cls.functions, false],
+            [cls.methods, true],
+            [cls.functionConstructors, false],
+            [cls.constructors, true],
+        ]
+
+        for (const [functions, isMethod] of groups) {
+            const sorted = this.alphabetize
+                ? [...functions].sort((a, b) => a.name.localeCompare(b.name))
+                : functions
+
+            const isConstructor = functions === cls.constructors
+            for (const func of sorted) {
+                let rosettaFunc:
+                    | RosettaFunction
+                    | RosettaConstructor
+                    | undefined
+                if (isConstructor && func.name === 'new') {
+                    rosettaFunc = rosettaClass?.constructors?.[0]
+                } else if (rosettaClass) {
+                    rosettaFunc = isMethod
+                        ? rosettaClass.methods?.[func.name]
+                        : rosettaClass.staticMethods?.[func.name]
+                }
+
+                this.writeRecordFunction(
+                    func,
+                    isMethod ? name : undefined,
+                    out,
+                    rosettaFunc,
+                )
+            }
+        }
+
+        // overloads are calls on the class table
+        const rosettaOverloads = rosettaClass?.overloads
+        if (rosettaOverloads) {
+            const func: AnalyzedFunction = {
+                name: '__call',
+                parameters: [],
+                returnTypes: [],
+            }
+
+            for (const overload of rosettaOverloads) {
+                const signature = this.getFunctionSignature(
+                    func,
+                    name,
+                    overload,
+                )
+                out.push(`\n    metamethod __call: function${signature}`)
+            }
+        } else {
+            for (const overload of cls.overloads) {
+                const signature = this.getFunctionSignature(overload, name)
+                out.push(`\n    metamethod __call: function${signature}`)
+            }
+        }
+
+        this.writeMetamethods(name, rosettaClass?.operators, out)
+    }
+
+    /**
+     * Writes global variable declarations from a module.
+     * @param mod The module to write fields from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeFields(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let count = 0
+        for (const field of mod.fields) {
+            // classes & tables take precendence over fields
+            if (rosettaFile?.classes[field.name]) {
+                continue
+            }
+
+            if (rosettaFile?.tables[field.name]) {
+                continue
+            }
+
+            const rosettaField = rosettaFile?.fields[field.name]
+            if (rosettaField?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            if (!IDENTIFIER_REGEX.test(field.name)) {
+                continue
+            }
+
+            if (out.length > 0 && count === 0) {
+                out.push('\n')
+            }
+
+            writeNotes(rosettaField?.notes, out)
+
+            // enum tables are written as records to keep their members
+            const members = this.getEnumFieldMembers(
+                field,
+                rosettaField,
+                this.getEnumName(field, rosettaFile),
+            )
+
+            if (members.length > 0) {
+                out.push(`\nglobal record ${field.name}`)
+                this.writeEnumMembers(members, '    ', out)
+                out.push('\nend')
+            } else {
+                const type = this.getFieldType(field, rosettaField)
+                out.push(`\nglobal ${field.name}: ${type}`)
+            }
+
+            count++
+        }
+
+        return count > 0
+    }
+
+    /**
+     * Writes the members of an enum as record fields.
+     * @param members The enum members.
+     * @param tab The indentation of the fields.
+     * @param out The output string array.
+     */
+    protected writeEnumMembers(
+        members: EnumMember[],
+        tab: string,
+        out: string[],
+    ) {
+        for (const member of members) {
+            if (IDENTIFIER_REGEX.test(member.name)) {
+                out.push(`\n${tab}${member.name}: ${member.luaType}`)
+            }
+        }
+    }
+
+    /**
+     * Writes global function declarations.
+     * @param mod The module to write functions from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeGlobalFunctions(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let count = 0
+        for (const func of mod.functions) {
+            if (!IDENTIFIER_REGEX.test(func.name)) {
+                continue
+            }
+
+            const rosettaFunc = rosettaFile?.functions[func.name]
+            if (rosettaFunc?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            writeNotes(rosettaFunc?.notes || func.description, out)
+
+            const signature = this.getFunctionSignature(
+                func,
+                undefined,
+                rosettaFunc,
+            )
+
+            out.push(`\nglobal function ${func.name}${signature}`)
+            count++
+        }
+
+        return count > 0
+    }
+
+    /**
+     * Writes metamethod declarations for Rosetta operators.
+     * @param name The record name.
+     * @param operators The operators documented in a Rosetta file.
+     * @param out The output string array.
+     */
+    protected writeMetamethods(
+        name: string,
+        operators: RosettaOperator[] | undefined,
+        out: string[],
+    ) {
+        for (const op of operators ?? []) {
+            if (!op.operation || !op.return) {
+                continue
+            }
+
+            if (op.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            const params = [name]
+            if (!UNARY_OPERATORS.has(op.operation)) {
+                params.push(getTealTypeString(op.parameter ?? name, name))
+            }
+
+            const ret = getTealTypeString(op.return, name)
+            out.push(
+                `\n    metamethod __${op.operation}: function(${params.join(', ')}): ${ret}`,
+            )
+        }
+    }
+
+    /**
+     * Writes a field of a record.
+     * @param field The field to write.
+     * @param rosettaField The Rosetta field associated with the analyzed field.
+     * @param name The record name.
+     * @param out The output string array.
+     * @param writtenFields A set of already written fields.
+     * @param enumName The name of the enum, if the field is an enum table.
+     */
+    protected writeRecordField(
+        field: AnalyzedField,
+        rosettaField: RosettaField | undefined,
+        name: string,
+        out: string[],
+        writtenFields: Set<string>,
+        enumName?: string,
+    ) {
+        if (rosettaField?.tags?.includes('StubGen_Hidden')) {
+            return
+        }
+
+        if (!IDENTIFIER_REGEX.test(field.name)) {
+            return
+        }
+
+        if (writtenFields.has(field.name)) {
+            return
+        }
+
+        writtenFields.add(field.name)
+        writeNotes(rosettaField?.notes, out, '    ')
+
+        // nested records can be accessed as fields of the parent record
+        const members = this.getEnumFieldMembers(field, rosettaField, enumName)
+        if (members.length > 0) {
+            out.push(`\n    record ${field.name}`)
+            this.writeEnumMembers(members, '        ', out)
+            out.push('\n    end')
+            return
+        }
+
+        const type = this.getFieldType(field, rosettaField, name)
+        out.push(`\n    ${field.name}: ${type}`)
+    }
+
+    /**
+     * Writes a function field of a record, including overloads from Rosetta.
+     * @param func The function to write.
+     * @param selfType The type of the `self` parameter, if the function is a method.
+     * @param out The output string array.
+     * @param rosettaFunc The Rosetta function associated with the analyzed function.
+     */
+    protected writeRecordFunction(
+        func: AnalyzedFunction,
+        selfType: string | undefined,
+        out: string[],
+        rosettaFunc: RosettaFunction | RosettaConstructor | undefined,
+    ) {
+        const tags = (rosettaFunc as RosettaFunction | undefined)?.tags
+        if (tags?.includes('StubGen_Hidden')) {
+            return
+        }
+
+        if (!IDENTIFIER_REGEX.test(func.name)) {
+            return
+        }
+
+        // repeated function fields are treated as overloads
+        const overloads = (rosettaFunc as RosettaFunction | undefined)
+            ?.overloads
+
+        for (const overload of overloads ?? []) {
+            writeNotes(overload.notes, out, '    ')
+
+            const signature = this.getFunctionSignature(
+                func,
+                selfType,
+                overload,
+            )
+
+            out.push(`\n    ${func.name}: function${signature}`)
+        }
+
+        writeNotes(rosettaFunc?.notes || func.description, out, '    ')
+
+        const signature = this.getFunctionSignature(func, selfType, rosettaFunc)
+        out.push(`\n    ${func.name}: function${signature}`)
+    }
+
+    /**
+     * Writes type aliases included in a Rosetta file.
+     * @param out The output string array.
+     * @param rosettaFile The rosetta file to read aliases from.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeRosettaAliases(
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        if (!rosettaFile) {
+            return false
+        }
+
+        for (const alias of rosettaFile.aliases) {
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            const name = this.getSafeIdentifier(alias.name)
+
+            // aliases of string literals are written as enums
+            const literals = alias.types.map((x) => x.type.trim())
+            if (literals.every((x) => /^(["']).*\1$/.test(x))) {
+                out.push(`\nglobal enum ${name}`)
+                for (const literal of literals) {
+                    out.push(`\n    ${literal}`)
+                }
+
+                out.push('\nend')
+                continue
+            }
+
+            const types = new Set(
+                alias.types.map((x) => getTealTypeString(x.type)),
+            )
+
+            out.push(`\nglobal type ${name} = ${[...types].join(' | ')}`)
+        }
+
+        return rosettaFile.aliases.length > 0
+    }
+
+    /**
+     * Writes records for tables in a module.
+     * @param mod The module to write tables from.
+     * @param out The output string array.
+     * @param rosettaFile The Rosetta file associated with the analyzed module.
+     * @returns Flag for whether anything was written.
+     */
+    protected writeTables(
+        mod: AnalyzedModule,
+        out: string[],
+        rosettaFile: RosettaFile | undefined,
+    ): boolean {
+        let writtenCount = 0
+        for (const table of mod.tables) {
+            const rosettaTable = rosettaFile?.tables?.[table.name]
+            if (rosettaTable?.tags?.includes('StubGen_Hidden')) {
+                continue
+            }
+
+            writtenCount++
+
+            const { forceLocal } = this.getInitializerSettings(
+                table,
+                rosettaTable,
+                true,
+            )
+
+            const name = this.getRecordName(table.name)
+            if (out.length > 0) {
+                out.push('\n')
+            }
+
+            writeNotes(rosettaTable?.notes || table.description, out)
+
+            const scope = table.local || forceLocal ? 'local' : 'global'
+            out.push(`\n${scope} record ${name}`)
+
+            const writtenFields = new Set<string>()
+            for (const field of table.staticFields) {
+                this.writeRecordField(
+                    field,
+                    rosettaTable?.staticFields?.[field.name],
+                    name,
+                    out,
+                    writtenFields,
+                    this.getEnumName(field, rosettaFile, table.name),
+                )
+            }
+
+            const groups: [AnalyzedFunction[], boolean][] = [
+                [table.functions, false],
+                [table.methods, true],
+            ]
+
+            for (const [functions, isMethod] of groups) {
+                const sorted = this.alphabetize
+                    ? [...functions].sort((a, b) =>
+                          a.name.localeCompare(b.name),
+                      )
+                    : functions
+
+                for (const func of sorted) {
+                    const rosettaFunc = isMethod
+                        ? rosettaTable?.methods?.[func.name]
+                        : rosettaTable?.staticMethods?.[func.name]
+
+                    this.writeRecordFunction(
+                        func,
+                        isMethod ? name : undefined,
+                        out,
+                        rosettaFunc,
+                    )
+                }
+            }
+
+            this.writeMetamethods(name, rosettaTable?.operators, out)
+            out.push('\nend')
+        }
+
+        return writtenCount > 0
+    }
+}
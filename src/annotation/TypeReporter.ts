@@ -0,0 +1,476 @@
+import fs from 'fs'
+import path from 'path'
+import { Annotator } from './Annotator'
+import type { TypeReportArgs } from './types'
+import type { AnalyzedFunction, AnalyzedModule } from '../analysis'
+
+import type {
+    RosettaConstructor,
+    RosettaFile,
+    RosettaFunction,
+    RosettaGeneric,
+    RosettaOperator,
+    RosettaOverload,
+} from '../rosetta'
+
+import {
+    getTypeExpressionNames,
+    isBuiltinTypeName,
+    log,
+    parseTypeExpression,
+    readFileContents,
+    time,
+    writeReport,
+} from '../helpers'
+
+/**
+ * Pattern for type definitions in Lua typestub files.
+ */
+const DEFINITION_REGEX =
+    /^\s*---@(?:class|alias|enum)\s+(?:\([^)]*\)\s*)?([\w.]+)/
+
+/**
+ * Handles reporting on type names that are referenced but never defined.
+ */
+export class TypeReporter extends Annotator {
+    /**
+     * The file to output a report to.
+     */
+    protected outFile: string | undefined
+
+    /**
+     * Paths of files or directories containing externally defined type names.
+     */
+    protected externalTypes: string[]
+
+    /**
+     * Names of types that are defined.
+     */
+    protected definedTypes: Set<string>
+
+    /**
+     * Maps referenced type names to the locations they were referenced.
+     */
+    protected references: Map<string, Set<string>>
+
+    /**
+     * Names of the generic type parameters in scope for the Rosetta object being collected.
+     */
+    protected genericScopes: Set<string>[]
+
+    /**
+     * Creates a new type reporter.
+     * @param args Command-line arguments for the report.
+     */
+    constructor(args: TypeReportArgs) {
+        super({
+            ...args,
+            outputDirectory: '',
+            includeKahlua: true,
+            alphabetize: true,
+            strictFields: true,
+            ambiguity: true,
+        })
+
+        this.outFile = args.outputFile
+            ? path.normalize(args.outputFile)
+            : undefined
+
+        this.externalTypes = args.externalTypes ?? []
+        this.definedTypes = new Set()
+        this.references = new Map()
+        this.genericScopes = []
+    }
+
+    /**
+     * Collects referenced and defined type names.
+     * @returns The list of analyzed modules.
+     */
+    async run() {
+        this.definedTypes.clear()
+        this.references.clear()
+
+        await this.loadRosetta()
+        const modules = await this.getModules()
+
+        await time('type collection', async () => {
+            for (const filePath of this.externalTypes) {
+                await this.readExternalTypes(filePath)
+            }
+
+            for (const mod of modules) {
+                this.collectModule(mod)
+            }
+
+            for (const file of Object.values(this.rosetta.files)) {
+                this.collectRosettaFile(file)
+            }
+        })
+
+        return modules
+    }
+
+    /**
+     * Reports on type names that are referenced but not defined.
+     */
+    async generateReport() {
+        await this.run()
+
+        const undefinedTypes: Record<string, string[]> = {}
+        const names = [...this.references.keys()].sort()
+        for (const name of names) {
+            if (this.definedTypes.has(name)) {
+                continue
+            }
+
+            undefinedTypes[name] = [...this.references.get(name)!].sort()
+        }
+
+        const count = Object.keys(undefinedTypes).length
+        log.verbose(`Found ${count} undefined type name(s)`)
+
+        await writeReport({ undefinedTypes }, this.outFile)
+    }
+
+    /**
+     * Records references to the type names in a type string.
+     * @param type The type string.
+     * @param location A description of where the type was referenced.
+     */
+    protected addReference(type: string | undefined, location: string) {
+        if (!type) {
+            return
+        }
+
+        let names: Set<string>
+        try {
+            names = getTypeExpressionNames(parseTypeExpression(type))
+        } catch {
+            log.debug(`Skipping malformed type '${type}' in ${location}`)
+            return
+        }
+
+        for (const name of names) {
+            if (isBuiltinTypeName(name)) {
+                continue
+            }
+
+            if (this.genericScopes.some((x) => x.has(name))) {
+                continue
+            }
+
+            let locations = this.references.get(name)
+            if (!locations) {
+                locations = new Set()
+                this.references.set(name, locations)
+            }
+
+            locations.add(location)
+        }
+    }
+
+    /**
+     * Records references to the type names in a set of types.
+     * @param types The set of types.
+     * @param location A description of where the types were referenced.
+     */
+    protected addReferences(types: Set<string>, location: string) {
+        for (const type of types) {
+            this.addReference(type, location)
+        }
+    }
+
+    /**
+     * Records references to the type names in an analyzed function.
+     * @param func The function.
+     * @param location A description of where the function is defined.
+     * @param rosettaFunc The Rosetta function associated with the function, which may declare generic type parameters.
+     */
+    protected collectFunction(
+        func: AnalyzedFunction,
+        location: string,
+        rosettaFunc?: RosettaFunction,
+    ) {
+        this.pushGenerics(rosettaFunc?.generics, location)
+
+        for (const param of func.parameters) {
+            this.addReferences(param.types, `${location} (${param.name})`)
+        }
+
+        for (const returnTypes of func.returnTypes) {
+            this.addReferences(returnTypes, `${location} (return)`)
+        }
+
+        this.genericScopes.pop()
+    }
+
+    /**
+     * Records references to the type names in a Rosetta function-like object.
+     * @param func The function, constructor, or overload.
+     * @param location A description of where the function is defined.
+     */
+    protected collectRosettaFunction(
+        func: RosettaFunction | RosettaConstructor | RosettaOverload,
+        location: string,
+    ) {
+        this.pushGenerics((func as RosettaFunction).generics, location)
+
+        for (const param of func.parameters ?? []) {
+            this.addReference(param.type, `${location} (${param.name})`)
+        }
+
+        for (const ret of (func as RosettaFunction).return ?? []) {
+            this.addReference(ret.type, `${location} (return)`)
+        }
+
+        for (const overload of (func as RosettaFunction).overloads ?? []) {
+            this.collectRosettaFunction(overload, `${location} (overload)`)
+        }
+
+        this.genericScopes.pop()
+    }
+
+    /**
+     * Records defined and referenced type names in an analyzed module.
+     * @param mod The module.
+     */
+    protected collectModule(mod: AnalyzedModule) {
+        const rosettaFile = this.rosetta.files[mod.id]
+        for (const cls of mod.classes) {
+            this.definedTypes.add(cls.name)
+            const prefix = `${mod.id}: ${cls.name}`
+            const rosettaClass = rosettaFile?.classes[cls.name]
+            this.pushGenerics(rosettaClass?.generics, prefix)
+
+            for (const base of (cls.extends ?? '').split(',')) {
+                this.addReference(base.trim(), `${prefix} (extends)`)
+            }
+
+            const fields = [
+                ...cls.fields,
+                ...cls.staticFields,
+                ...cls.setterFields,
+            ]
+
+            for (const field of fields) {
+                this.addReferences(field.types, `${prefix}.${field.name}`)
+            }
+
+            const functions = [
+                ...cls.functions,
+                ...cls.methods,
+                ...cls.functionConstructors,
+            ]
+
+            for (const func of functions) {
+                this.collectFunction(
+                    func,
+                    `${prefix}.${func.name}`,
+                    rosettaClass?.methods?.[func.name] ??
+                        rosettaClass?.staticMethods?.[func.name],
+                )
+            }
+
+            for (const func of [...cls.constructors, ...cls.overloads]) {
+                this.collectFunction(func, prefix)
+            }
+
+            this.genericScopes.pop()
+        }
+
+        for (const table of mod.tables) {
+            const prefix = `${mod.id}: ${table.name}`
+            const rosettaTable = rosettaFile?.tables[table.name]
+            for (const field of table.staticFields) {
+                this.addReferences(field.types, `${prefix}.${field.name}`)
+            }
+
+            const functions = [
+                ...table.functions,
+                ...table.methods,
+                ...table.overloads,
+            ]
+
+            for (const func of functions) {
+                this.collectFunction(
+                    func,
+                    `${prefix}.${func.name}`,
+                    rosettaTable?.methods?.[func.name] ??
+                        rosettaTable?.staticMethods?.[func.name],
+                )
+            }
+        }
+
+        for (const func of mod.functions) {
+            this.collectFunction(
+                func,
+                `${mod.id}: ${func.name}`,
+                rosettaFile?.functions[func.name],
+            )
+        }
+
+        for (const field of mod.fields) {
+            this.addReferences(field.types, `${mod.id}: ${field.name}`)
+        }
+
+        for (const ret of mod.returns) {
+            this.addReferences(ret.types, `${mod.id}: (return)`)
+        }
+    }
+
+    /**
+     * Records references to the type names in Rosetta operators.
+     * @param operators The operators.
+     * @param location A description of where the operators are defined.
+     */
+    protected collectOperators(
+        operators: RosettaOperator[] | undefined,
+        location: string,
+    ) {
+        for (const op of operators ?? []) {
+            const opLocation = `${location} (${op.operation ?? 'operator'})`
+            this.addReference(op.parameter, opLocation)
+            this.addReference(op.return, opLocation)
+        }
+    }
+
+    /**
+     * Records defined and referenced type names in a Rosetta file.
+     * @param file The Rosetta file.
+     */
+    protected collectRosettaFile(file: RosettaFile) {
+        for (const alias of file.aliases) {
+            this.definedTypes.add(alias.name)
+            for (const aliasType of alias.types) {
+                this.addReference(aliasType.type, `${file.id}: ${alias.name}`)
+            }
+        }
+
+        for (const cls of Object.values(file.classes)) {
+            this.definedTypes.add(cls.name)
+            const prefix = `${file.id}: ${cls.name}`
+            this.pushGenerics(cls.generics, prefix)
+
+            for (const base of (cls.extends ?? '').split(',')) {
+                this.addReference(base.trim(), `${prefix} (extends)`)
+            }
+
+            const fields = { ...cls.fields, ...cls.staticFields }
+            for (const [name, field] of Object.entries(fields)) {
+                this.addReference(field.type, `${prefix}.${name}`)
+            }
+
+            const methods = { ...cls.methods, ...cls.staticMethods }
+            for (const [name, func] of Object.entries(methods)) {
+                this.collectRosettaFunction(func, `${prefix}.${name}`)
+            }
+
+            for (const func of [
+                ...(cls.constructors ?? []),
+                ...(cls.overloads ?? []),
+            ]) {
+                this.collectRosettaFunction(func, prefix)
+            }
+
+            this.collectOperators(cls.operators, prefix)
+            this.genericScopes.pop()
+        }
+
+        for (const rosettaEnum of Object.values(file.enums)) {
+            this.definedTypes.add(rosettaEnum.name)
+        }
+
+        for (const table of Object.values(file.tables)) {
+            const prefix = `${file.id}: ${table.name}`
+            for (const [name, field] of Object.entries(
+                table.staticFields ?? {},
+            )) {
+                this.addReference(field.type, `${prefix}.${name}`)
+            }
+
+            const methods = { ...table.methods, ...table.staticMethods }
+            for (const [name, func] of Object.entries(methods)) {
+                this.collectRosettaFunction(func, `${prefix}.${name}`)
+            }
+
+            for (const func of table.overloads ?? []) {
+                this.collectRosettaFunction(func, prefix)
+            }
+
+            this.collectOperators(table.operators, prefix)
+        }
+
+        for (const func of Object.values(file.functions)) {
+            this.collectRosettaFunction(func, `${file.id}: ${func.name}`)
+        }
+
+        for (const [name, field] of Object.entries(file.fields)) {
+            this.addReference(field.type, `${file.id}: ${name}`)
+        }
+    }
+
+    /**
+     * Adds a scope with the names of generic type parameters, which aren't reported as undefined.
+     * References in the constraints of the type parameters are recorded.
+     * The scope should be removed from `genericScopes` once the object declaring it is collected.
+     * @param generics The generic type parameters.
+     * @param location A description of where the type parameters are declared.
+     */
+    protected pushGenerics(
+        generics: RosettaGeneric[] | undefined,
+        location: string,
+    ) {
+        const scope = new Set((generics ?? []).map((x) => x.name))
+        this.genericScopes.push(scope)
+
+        for (const generic of generics ?? []) {
+            this.addReference(generic.extends, `${location} (${generic.name})`)
+        }
+    }
+
+    /**
+     * Reads externally defined type names from a file or directory.
+     * Lua files are read for `@class`, `@alias`, and `@enum` annotations.
+     * Other files are read as lists of names, one per line.
+     * @param filePath The path to the file or directory.
+     */
+    protected async readExternalTypes(filePath: string) {
+        try {
+            const stat = await fs.promises.stat(filePath)
+            if (stat.isDirectory()) {
+                const dir = await fs.promises.opendir(filePath)
+                for await (const child of dir) {
+                    const childPath = path.join(filePath, child.name)
+                    if (
+                        child.isDirectory() ||
+                        path.extname(childPath) === '.lua'
+                    ) {
+                        await this.readExternalTypes(childPath)
+                    }
+                }
+
+                return
+            }
+
+            const content = await readFileContents(filePath)
+            const isLua = path.extname(filePath) === '.lua'
+            for (const line of content.split(/\r?\n/)) {
+                if (isLua) {
+                    const match = DEFINITION_REGEX.exec(line)
+                    if (match) {
+                        this.definedTypes.add(match[1])
+                    }
+
+                    continue
+                }
+
+                const name = line.trim()
+                if (name && !name.startsWith('#')) {
+                    this.definedTypes.add(name)
+                }
+            }
+        } catch (e) {
+            log.error(`Failed to read external types from '${filePath}': ${e}`)
+        }
+    }
+}
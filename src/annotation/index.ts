@@ -1,2 +1,5 @@
 export type * from './types'
 export { Annotator } from './Annotator'
+export { DeclarationAnnotator } from './DeclarationAnnotator'
+export { TealAnnotator } from './TealAnnotator'
+export { TypeReporter } from './TypeReporter'
@@ -30,6 +30,112 @@ export interface AnnotateArgs extends BaseAnnotateArgs {
      * a local table will be emitted.
      */
     helperPattern?: string
+
+    /**
+     * The output target. Defaults to Lua typestubs.
+     */
+    target?: 'lua' | 'd.ts' | 'd.tl'
+
+    /**
+     * Flag for whether the output should be written as a LuaLS addon.
+     * If set, stubs are written to a `library` subdirectory.
+     */
+    addon?: boolean
+
+    /**
+     * The name of the LuaLS addon. Defaults to the name of the output directory.
+     */
+    addonName?: string
+
+    /**
+     * Lua patterns for file content that indicates the addon should be used.
+     */
+    addonWords?: string[]
+
+    /**
+     * Lua patterns for file paths that indicate the addon should be used.
+     */
+    addonFiles?: string[]
+
+    /**
+     * Flag for whether `@source` annotations linking to the original Lua files should be written.
+     */
+    sourceLinks?: boolean
+
+    /**
+     * The path or URI prefix to use in place of the input directory for `@source` links.
+     * If not given, absolute file paths are used.
+     */
+    sourcePrefix?: string
+}
+
+/**
+ * Arguments for reporting on undefined type names.
+ */
+export interface TypeReportArgs extends Omit<
+    AnnotateArgs,
+    | 'outputDirectory'
+    | 'alphabetize'
+    | 'includeKahlua'
+    | 'strictFields'
+    | 'ambiguity'
+    | 'target'
+    | 'addon'
+    | 'addonName'
+    | 'addonWords'
+    | 'addonFiles'
+    | 'sourceLinks'
+    | 'sourcePrefix'
+> {
+    /**
+     * The output file for the report.
+     */
+    outputFile?: string
+
+    /**
+     * Paths of files or directories containing externally defined type names.
+     */
+    externalTypes?: string[]
+}
+
+/**
+ * A function parameter to include in a declaration file.
+ */
+export interface DeclarationParameter {
+    /**
+     * The parameter name.
+     */
+    name: string
+
+    /**
+     * The parameter type string.
+     */
+    type: string
+
+    /**
+     * Flag for whether the parameter is optional.
+     */
+    optional: boolean
+}
+
+/**
+ * A member of a table to write as an enum.
+ */
+export interface EnumMember {
+    /**
+     * The member name.
+     */
+    name: string
+
+    /**
+     * The value of the member, as a Lua literal.
+     */
+    value: string
+
+    /**
+     * The type of the value.
+     */
+    luaType: 'number' | 'string'
 }
 
 /**
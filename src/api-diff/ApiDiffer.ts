@@ -0,0 +1,627 @@
+import fs from 'fs'
+import path from 'path'
+import { BaseCommandHandler } from '../common'
+import { Analyzer } from '../analysis'
+import type {
+    ApiChange,
+    ApiDiff,
+    ApiDiffArgs,
+    ApiItem,
+    ApiItemKind,
+    ChangedApiItem,
+} from './types'
+
+import type {
+    AnalyzedClass,
+    AnalyzedField,
+    AnalyzedFunction,
+    AnalyzedModule,
+    AnalyzedTable,
+} from '../analysis'
+
+import {
+    getTypeString,
+    log,
+    readFileContents,
+    time,
+    writeFile,
+    writeReport,
+} from '../helpers'
+
+/**
+ * An API item along with the analyzed data it was collected from.
+ */
+interface CollectedItem extends ApiItem {
+    cls?: AnalyzedClass
+    func?: AnalyzedFunction
+    field?: AnalyzedField
+}
+
+/**
+ * Headings for item kinds in Markdown output.
+ */
+const KIND_HEADINGS: Record<ApiItemKind, string> = {
+    global: 'Globals',
+    function: 'Functions',
+    table: 'Tables',
+    class: 'Classes',
+    constructor: 'Constructors',
+    method: 'Methods',
+    field: 'Fields',
+    staticField: 'Static Fields',
+}
+
+/**
+ * Handles reporting on changes between two versions of an API.
+ */
+export class ApiDiffer extends BaseCommandHandler {
+    /**
+     * The directory or analysis report for the old version.
+     */
+    protected oldPath: string
+
+    /**
+     * The directory or analysis report for the new version.
+     */
+    protected newPath: string
+
+    /**
+     * The format to use for the output.
+     */
+    protected format: 'json' | 'md'
+
+    /**
+     * The file to output a report to.
+     */
+    protected outFile: string | undefined
+
+    /**
+     * Flag for whether heuristics should be applied when analyzing directories.
+     */
+    protected heuristics: boolean
+
+    /**
+     * The path of the file containing heuristic rules used when analyzing directories.
+     */
+    protected heuristicsFile: string | undefined
+
+    /**
+     * The maximum number of types to infer for a parameter from call sites when analyzing directories.
+     */
+    protected callSiteTypes: number | undefined
+
+    /**
+     * The directory of Rosetta files with additional definitions to use when analyzing directories.
+     */
+    protected definitionsDirectory: string | undefined
+
+    /**
+     * Creates a new API differ.
+     * @param args Command-line arguments for the report.
+     */
+    constructor(args: ApiDiffArgs) {
+        super(args)
+
+        this.oldPath = path.normalize(args.old)
+        this.newPath = path.normalize(args.new)
+        this.format = args.format ?? 'json'
+        this.heuristics = args.heuristics ?? false
+        this.heuristicsFile = args.heuristicsFile
+        this.callSiteTypes = args.callSiteTypes
+        this.definitionsDirectory = args.definitions
+        this.outFile = args.outputFile
+            ? path.normalize(args.outputFile)
+            : undefined
+    }
+
+    /**
+     * Compares the old and new versions of the API.
+     */
+    async run(): Promise<ApiDiff> {
+        const oldModules = await this.loadModules(this.oldPath, 'old')
+        const newModules = await this.loadModules(this.newPath, 'new')
+
+        return await time('API comparison', async () => {
+            const oldItems = this.collectItems(oldModules)
+            const newItems = this.collectItems(newModules)
+
+            const diff: ApiDiff = { added: [], removed: [], changed: [] }
+            for (const [key, item] of newItems) {
+                if (!oldItems.has(key)) {
+                    diff.added.push(this.toApiItem(item))
+                }
+            }
+
+            for (const [key, oldItem] of oldItems) {
+                const newItem = newItems.get(key)
+                if (!newItem) {
+                    diff.removed.push(this.toApiItem(oldItem))
+                    continue
+                }
+
+                const changes = this.compareItems(oldItem, newItem)
+                if (changes.length > 0) {
+                    diff.changed.push({ ...this.toApiItem(newItem), changes })
+                }
+            }
+
+            diff.added.sort(this.compareByName)
+            diff.removed.sort(this.compareByName)
+            diff.changed.sort(this.compareByName)
+
+            return diff
+        })
+    }
+
+    /**
+     * Generates a report containing the changes between the two versions.
+     */
+    async generateReport() {
+        const diff = await this.run()
+
+        log.verbose(
+            `Found ${diff.added.length} added, ${diff.removed.length} removed, and ${diff.changed.length} changed item(s)`,
+        )
+
+        if (this.format === 'json') {
+            const summary = {
+                added: diff.added.length,
+                removed: diff.removed.length,
+                changed: diff.changed.length,
+            }
+
+            await writeReport({ summary, ...diff }, this.outFile)
+            return
+        }
+
+        const markdown = this.getMarkdown(diff)
+        if (!this.outFile) {
+            console.log(markdown)
+            return
+        }
+
+        const filePath = this.outFile.toLowerCase().endsWith('.md')
+            ? this.outFile
+            : path.join(this.outFile, 'report.md')
+
+        try {
+            const outPath = path.resolve(filePath)
+            await writeFile(outPath, markdown)
+            log.info(`Report generated at ${outPath}`)
+        } catch (e) {
+            log.error(`Failed to create file '${filePath}': ${e}`)
+        }
+    }
+
+    /**
+     * Adds a collected item to a map, keeping the first item found for a key.
+     * @param items The map of collected items.
+     * @param item The item to add.
+     */
+    protected addItem(items: Map<string, CollectedItem>, item: CollectedItem) {
+        const key = `${item.kind}:${item.name}`
+        if (!items.has(key)) {
+            items.set(key, item)
+        }
+    }
+
+    /**
+     * Collects the functions and fields of a class or table.
+     * @param items The map of collected items.
+     * @param module The identifier of the module containing the class or table.
+     * @param cls The class or table.
+     */
+    protected collectMembers(
+        items: Map<string, CollectedItem>,
+        module: string,
+        cls: AnalyzedClass | AnalyzedTable,
+    ) {
+        const name = cls.name
+        const functions = [
+            ...cls.functions,
+            ...((cls as AnalyzedClass).functionConstructors ?? []),
+        ]
+
+        for (const func of functions) {
+            this.addItem(items, {
+                kind: func.isConstructor ? 'constructor' : 'function',
+                name: `${name}.${func.name}`,
+                module,
+                func,
+            })
+        }
+
+        for (const func of cls.methods) {
+            this.addItem(items, {
+                kind: func.isConstructor ? 'constructor' : 'method',
+                name: `${name}:${func.name}`,
+                module,
+                func,
+            })
+        }
+
+        for (const func of (cls as AnalyzedClass).constructors ?? []) {
+            this.addItem(items, {
+                kind: 'constructor',
+                name: `${name}()`,
+                module,
+                func,
+            })
+        }
+
+        const staticFields = [
+            ...cls.staticFields,
+            ...((cls as AnalyzedClass).setterFields ?? []),
+        ]
+
+        for (const field of staticFields) {
+            this.addItem(items, {
+                kind: 'staticField',
+                name: `${name}.${field.name}`,
+                module,
+                field,
+            })
+        }
+
+        for (const field of (cls as AnalyzedClass).fields ?? []) {
+            this.addItem(items, {
+                kind: 'field',
+                name: `${name}.${field.name}`,
+                module,
+                field,
+            })
+        }
+    }
+
+    /**
+     * Collects the public API items in a list of modules.
+     * Local classes and tables are excluded.
+     * @param modules The analyzed modules.
+     */
+    protected collectItems(
+        modules: AnalyzedModule[],
+    ): Map<string, CollectedItem> {
+        const items = new Map<string, CollectedItem>()
+        for (const mod of modules) {
+            const module = mod.id
+            for (const cls of mod.classes) {
+                if (cls.local) {
+                    continue
+                }
+
+                this.addItem(items, {
+                    kind: 'class',
+                    name: cls.name,
+                    module,
+                    cls,
+                })
+
+                this.collectMembers(items, module, cls)
+            }
+
+            for (const table of mod.tables) {
+                if (table.local) {
+                    continue
+                }
+
+                this.addItem(items, { kind: 'table', name: table.name, module })
+                this.collectMembers(items, module, table)
+            }
+
+            for (const func of mod.functions) {
+                this.addItem(items, {
+                    kind: 'function',
+                    name: func.name,
+                    module,
+                    func,
+                })
+            }
+
+            for (const field of mod.fields) {
+                this.addItem(items, {
+                    kind: 'global',
+                    name: field.name,
+                    module,
+                    field,
+                })
+            }
+        }
+
+        return items
+    }
+
+    /**
+     * Sorts API items by name, then kind.
+     * @param a The first item.
+     * @param b The second item.
+     */
+    protected compareByName(a: ApiItem, b: ApiItem): number {
+        return a.name.localeCompare(b.name) || a.kind.localeCompare(b.kind)
+    }
+
+    /**
+     * Gets the changes to the parameters and returns of a function.
+     * @param oldFunc The old version of the function.
+     * @param newFunc The new version of the function.
+     */
+    protected compareFunctions(
+        oldFunc: AnalyzedFunction,
+        newFunc: AnalyzedFunction,
+    ): ApiChange[] {
+        const changes: ApiChange[] = []
+        const count = Math.max(
+            oldFunc.parameters.length,
+            newFunc.parameters.length,
+        )
+
+        for (let i = 0; i < count; i++) {
+            const oldParam = oldFunc.parameters[i]
+            const newParam = newFunc.parameters[i]
+            if (!oldParam) {
+                changes.push({
+                    kind: 'parameterAdded',
+                    parameter: newParam.name,
+                    new: this.getTypeString(newParam.types),
+                })
+
+                continue
+            }
+
+            if (!newParam) {
+                changes.push({
+                    kind: 'parameterRemoved',
+                    parameter: oldParam.name,
+                    old: this.getTypeString(oldParam.types),
+                })
+
+                continue
+            }
+
+            if (oldParam.name !== newParam.name) {
+                changes.push({
+                    kind: 'parameterRenamed',
+                    parameter: newParam.name,
+                    old: oldParam.name,
+                    new: newParam.name,
+                })
+            }
+
+            const oldType = this.getTypeString(oldParam.types)
+            const newType = this.getTypeString(newParam.types)
+            if (oldType !== newType) {
+                changes.push({
+                    kind: 'parameterType',
+                    parameter: newParam.name,
+                    old: oldType,
+                    new: newType,
+                })
+            }
+        }
+
+        const oldReturns = this.getReturnsString(oldFunc)
+        const newReturns = this.getReturnsString(newFunc)
+        if (oldReturns !== newReturns) {
+            changes.push({ kind: 'returns', old: oldReturns, new: newReturns })
+        }
+
+        return changes
+    }
+
+    /**
+     * Gets the changes between two versions of an API item.
+     * @param oldItem The old version of the item.
+     * @param newItem The new version of the item.
+     */
+    protected compareItems(
+        oldItem: CollectedItem,
+        newItem: CollectedItem,
+    ): ApiChange[] {
+        const changes: ApiChange[] = []
+        if (oldItem.module !== newItem.module) {
+            changes.push({
+                kind: 'module',
+                old: oldItem.module,
+                new: newItem.module,
+            })
+        }
+
+        if (oldItem.cls && newItem.cls) {
+            const oldBase = oldItem.cls.extends
+            const newBase = newItem.cls.extends
+            if (oldBase !== newBase) {
+                changes.push({ kind: 'extends', old: oldBase, new: newBase })
+            }
+        }
+
+        if (oldItem.func && newItem.func) {
+            changes.push(...this.compareFunctions(oldItem.func, newItem.func))
+        }
+
+        if (oldItem.field && newItem.field) {
+            const oldType = this.getTypeString(oldItem.field.types)
+            const newType = this.getTypeString(newItem.field.types)
+            if (oldType !== newType) {
+                changes.push({ kind: 'type', old: oldType, new: newType })
+            }
+        }
+
+        return changes
+    }
+
+    /**
+     * Gets a Markdown description of a change.
+     * @param change The change to describe.
+     */
+    protected getChangeMarkdown(change: ApiChange): string {
+        const param = change.parameter ? `\`${change.parameter}\`` : ''
+        const oldValue = `\`${change.old ?? 'none'}\``
+        const newValue = `\`${change.new ?? 'none'}\``
+
+        switch (change.kind) {
+            case 'module':
+                return `moved from ${oldValue} to ${newValue}`
+
+            case 'extends':
+                return `base changed from ${oldValue} to ${newValue}`
+
+            case 'type':
+                return `type changed from ${oldValue} to ${newValue}`
+
+            case 'returns':
+                return `returns changed from ${oldValue} to ${newValue}`
+
+            case 'parameterAdded':
+                return `parameter ${param} added (${newValue})`
+
+            case 'parameterRemoved':
+                return `parameter ${param} removed`
+
+            case 'parameterRenamed':
+                return `parameter ${oldValue} renamed to ${newValue}`
+
+            case 'parameterType':
+                return `parameter ${param} type changed from ${oldValue} to ${newValue}`
+        }
+    }
+
+    /**
+     * Gets a Markdown changelog for an API diff.
+     * @param diff The diff to describe.
+     */
+    protected getMarkdown(diff: ApiDiff): string {
+        const out = ['# API Changes']
+        out.push('')
+        out.push(
+            `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed.`,
+        )
+
+        const sections: [string, ApiItem[]][] = [
+            ['Added', diff.added],
+            ['Removed', diff.removed],
+            ['Changed', diff.changed],
+        ]
+
+        for (const [heading, items] of sections) {
+            if (items.length === 0) {
+                continue
+            }
+
+            out.push('')
+            out.push(`## ${heading}`)
+
+            const kinds = Object.keys(KIND_HEADINGS) as ApiItemKind[]
+            for (const kind of kinds) {
+                const ofKind = items.filter((x) => x.kind === kind)
+                if (ofKind.length === 0) {
+                    continue
+                }
+
+                out.push('')
+                out.push(`### ${KIND_HEADINGS[kind]}`)
+                out.push('')
+
+                for (const item of ofKind) {
+                    out.push(`- \`${item.name}\` (\`${item.module}\`)`)
+
+                    const changes = (item as ChangedApiItem).changes ?? []
+                    for (const change of changes) {
+                        out.push(`  - ${this.getChangeMarkdown(change)}`)
+                    }
+                }
+            }
+        }
+
+        out.push('')
+        return out.join('\n')
+    }
+
+    /**
+     * Gets a string representing the return types of a function.
+     * @param func The function.
+     */
+    protected getReturnsString(func: AnalyzedFunction): string {
+        return func.returnTypes.map((x) => this.getTypeString(x)).join(', ')
+    }
+
+    /**
+     * Gets a type string for a set of types, ignoring the order of types.
+     * @param types The set of types.
+     */
+    protected getTypeString(types: Set<string>): string {
+        return getTypeString(new Set([...types].sort()))
+    }
+
+    /**
+     * Loads analyzed modules from a directory of Lua files or an analysis report.
+     * @param inputPath The directory or report file.
+     * @param name The name of the version, used for the cache subdirectory.
+     */
+    protected async loadModules(
+        inputPath: string,
+        name: string,
+    ): Promise<AnalyzedModule[]> {
+        const stat = await fs.promises.stat(inputPath)
+        if (!stat.isDirectory()) {
+            return await this.readReport(inputPath)
+        }
+
+        const analyzer = new Analyzer({
+            inputDirectory: inputPath,
+            subdirectories: this.subdirectories,
+            heuristics: this.heuristics,
+            heuristicsFile: this.heuristicsFile,
+            callSiteTypes: this.callSiteTypes,
+            definitions: this.definitionsDirectory,
+            cacheDirectory: this.cacheDirectory
+                ? path.join(this.cacheDirectory, name)
+                : undefined,
+        })
+
+        return await analyzer.run()
+    }
+
+    /**
+     * Reads analyzed modules from a report generated by the `report-analysis` command.
+     * @param filePath The path of the report file.
+     */
+    protected async readReport(filePath: string): Promise<AnalyzedModule[]> {
+        let report: any
+        try {
+            const content = await readFileContents(filePath)
+            report = JSON.parse(content, (key, value) => {
+                if (!Array.isArray(value)) {
+                    return value
+                }
+
+                // reports write sets as arrays
+                switch (key) {
+                    case 'types':
+                        return new Set(value)
+
+                    case 'returnTypes':
+                        return value.map((x) => new Set(x))
+                }
+
+                return value
+            })
+        } catch (e) {
+            log.error(`Failed to read analysis report '${filePath}': ${e}`)
+            return []
+        }
+
+        if (!Array.isArray(report?.modules)) {
+            log.error(`Invalid analysis report '${filePath}': missing modules`)
+            return []
+        }
+
+        return report.modules
+    }
+
+    /**
+     * Converts a collected item to an API item.
+     * @param item The collected item.
+     */
+    protected toApiItem(item: CollectedItem): ApiItem {
+        return { kind: item.kind, name: item.name, module: item.module }
+    }
+}
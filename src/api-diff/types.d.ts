@@ -0,0 +1,118 @@
+import type { BaseReportArgs } from '../common'
+import type { AnalysisContextArgs } from '../analysis'
+
+/**
+ * Arguments for comparing two versions of an API.
+ */
+export interface ApiDiffArgs extends BaseReportArgs, AnalysisContextArgs {
+    /**
+     * The directory of Lua files or analysis report for the old version.
+     */
+    old: string
+
+    /**
+     * The directory of Lua files or analysis report for the new version.
+     */
+    new: string
+
+    /**
+     * The format to use for the output.
+     */
+    format?: 'json' | 'md'
+}
+
+/**
+ * The kind of an API item.
+ */
+export type ApiItemKind =
+    | 'global'
+    | 'function'
+    | 'table'
+    | 'class'
+    | 'constructor'
+    | 'method'
+    | 'field'
+    | 'staticField'
+
+/**
+ * An item in the API of a version, such as a class or method.
+ */
+export interface ApiItem {
+    /**
+     * The kind of the item.
+     */
+    kind: ApiItemKind
+
+    /**
+     * The full name of the item, such as `ISButton:new`.
+     */
+    name: string
+
+    /**
+     * The file identifier of the module in which the item was found.
+     */
+    module: string
+}
+
+/**
+ * A single change to an API item.
+ */
+export interface ApiChange {
+    /**
+     * The kind of the change.
+     */
+    kind:
+        | 'module'
+        | 'extends'
+        | 'type'
+        | 'returns'
+        | 'parameterAdded'
+        | 'parameterRemoved'
+        | 'parameterRenamed'
+        | 'parameterType'
+
+    /**
+     * The name of the affected parameter, for parameter changes.
+     */
+    parameter?: string
+
+    /**
+     * The old value.
+     */
+    old?: string
+
+    /**
+     * The new value.
+     */
+    new?: string
+}
+
+/**
+ * An API item that exists in both versions with changes.
+ */
+export interface ChangedApiItem extends ApiItem {
+    /**
+     * The changes to the item.
+     */
+    changes: ApiChange[]
+}
+
+/**
+ * The result of comparing two versions of an API.
+ */
+export interface ApiDiff {
+    /**
+     * Items that exist only in the new version.
+     */
+    added: ApiItem[]
+
+    /**
+     * Items that exist only in the old version.
+     */
+    removed: ApiItem[]
+
+    /**
+     * Items that exist in both versions with changes.
+     */
+    changed: ChangedApiItem[]
+}
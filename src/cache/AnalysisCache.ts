@@ -0,0 +1,393 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import type { AnalyzedModule } from '../analysis/types'
+import type { LuaDependencyInfo } from '../dependency-resolution/types'
+import { log, readFileContents, writeFile } from '../helpers'
+
+import type { AnalysisCacheArgs, CachedFileEntry, CacheManifest } from './types'
+
+/**
+ * The version of the cache format.
+ * Cached data with a different version is ignored.
+ */
+const CACHE_VERSION = 4
+
+/**
+ * The path of the package file of the tool.
+ */
+const PACKAGE_PATH = path.join(__dirname, '../../package.json')
+
+/**
+ * The name of the manifest file within the cache directory.
+ */
+const MANIFEST_NAME = 'manifest.json'
+
+/**
+ * Handles reading and writing cached analysis data, keyed by file content hashes.
+ */
+export class AnalysisCache {
+    /**
+     * The directory containing cache files.
+     */
+    protected cacheDirectory: string
+
+    /**
+     * A string representing the settings that affect analysis results.
+     */
+    protected settings: string
+
+    /**
+     * Storage for cache files kept in memory, keyed by path.
+     */
+    protected storage: Map<string, string> | undefined
+
+    /**
+     * Cached file entries read from the manifest.
+     */
+    protected entries: Map<string, CachedFileEntry>
+
+    /**
+     * File entries for the current run.
+     */
+    protected current: Map<string, CachedFileEntry>
+
+    /**
+     * Flag for whether the cache has been loaded.
+     */
+    protected loaded: boolean
+
+    /**
+     * Creates a new analysis cache.
+     * @param args Arguments for the cache.
+     */
+    constructor(args: AnalysisCacheArgs) {
+        this.cacheDirectory = path.normalize(args.cacheDirectory)
+        this.settings = JSON.stringify(args.settings ?? {})
+        this.storage = args.storage
+        this.entries = new Map()
+        this.current = new Map()
+        this.loaded = false
+    }
+
+    /**
+     * Computes the hash to use for file content.
+     * @param content The file content.
+     */
+    static getHash(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex')
+    }
+
+    /**
+     * Gets the version of the tool, so that cached data from other versions can be discarded.
+     */
+    static getToolVersion(): string {
+        try {
+            return JSON.parse(fs.readFileSync(PACKAGE_PATH, 'utf-8')).version
+        } catch {
+            return ''
+        }
+    }
+
+    /**
+     * Gets cached dependency information for a file.
+     * This returns `undefined` if the file has changed since it was cached.
+     * @param id The file identifier.
+     */
+    getDependencyInfo(id: string): LuaDependencyInfo | undefined {
+        const entry = this.getUnchangedEntry(id)
+        if (!entry || !entry.reads || !entry.writes || !entry.requires) {
+            return
+        }
+
+        return {
+            reads: new Set(entry.reads),
+            writes: new Set(entry.writes),
+            requires: new Set(entry.requires),
+        }
+    }
+
+    /**
+     * Gets the hash of a file for the current run.
+     * @param id The file identifier.
+     */
+    getFileHash(id: string): string | undefined {
+        return this.current.get(id)?.hash
+    }
+
+    /**
+     * Gets a cached analyzed module.
+     * @param id The file identifier.
+     * @param key The module key. If this doesn't match the cached key, no module is returned.
+     * @see getModuleKey
+     */
+    async getModule(
+        id: string,
+        key: string,
+    ): Promise<AnalyzedModule | undefined> {
+        const entry = this.entries.get(id)
+        if (!entry || entry.moduleKey !== key) {
+            return
+        }
+
+        try {
+            const content = await this.readCacheFile(this.getModulePath(id))
+            const data = JSON.parse(content, reviveSets)
+            if (data.key !== key) {
+                return
+            }
+
+            const current = this.current.get(id)
+            if (current) {
+                current.moduleKey = key
+            }
+
+            return data.module
+        } catch (e) {
+            log.debug(`Failed to read cached module '${id}': ${e}`)
+        }
+    }
+
+    /**
+     * Computes the key for an analyzed module.
+     * @param id The file identifier.
+     * @param dependencies The identifiers of the files that can affect the analysis of the file.
+     */
+    getModuleKey(id: string, dependencies: Iterable<string>): string {
+        const parts = [`${id}:${this.getFileHash(id) ?? ''}`]
+        for (const dep of [...dependencies].sort()) {
+            parts.push(`${dep}:${this.getFileHash(dep) ?? ''}`)
+        }
+
+        return AnalysisCache.getHash(parts.join('\n'))
+    }
+
+    /**
+     * Loads the cache manifest.
+     * This has no effect if the cache has already been loaded.
+     * @returns Flag for whether cached data was found.
+     */
+    async load(): Promise<boolean> {
+        if (this.loaded) {
+            return this.entries.size > 0
+        }
+
+        this.loaded = true
+
+        const manifestPath = path.join(this.cacheDirectory, MANIFEST_NAME)
+        if (!this.hasCacheFile(manifestPath)) {
+            return false
+        }
+
+        try {
+            const content = await this.readCacheFile(manifestPath)
+            const manifest: CacheManifest = JSON.parse(content)
+            if (manifest.version !== CACHE_VERSION) {
+                log.verbose('Ignoring cache with a different version')
+                return false
+            }
+
+            const keepModules = manifest.settings === this.settings
+            if (!keepModules) {
+                log.verbose(
+                    'Analysis settings changed; ignoring cached modules',
+                )
+            }
+
+            for (const [id, entry] of Object.entries(manifest.files ?? {})) {
+                if (!keepModules) {
+                    delete entry.moduleKey
+                }
+
+                this.entries.set(id, entry)
+            }
+        } catch (e) {
+            log.error(`Failed to read cache manifest '${manifestPath}': ${e}`)
+            return false
+        }
+
+        if (!this.storage) {
+            log.verbose(`Using analysis cache at '${this.cacheDirectory}'`)
+        }
+
+        return this.entries.size > 0
+    }
+
+    /**
+     * Writes the cache manifest for the current run.
+     * Cached modules for files that were not seen are deleted.
+     */
+    async save() {
+        const manifest: CacheManifest = {
+            version: CACHE_VERSION,
+            settings: this.settings,
+            files: Object.fromEntries(this.current),
+        }
+
+        const manifestPath = path.join(this.cacheDirectory, MANIFEST_NAME)
+        try {
+            await this.writeCacheFile(manifestPath, JSON.stringify(manifest))
+        } catch (e) {
+            log.error(`Failed to write cache manifest '${manifestPath}': ${e}`)
+            return
+        }
+
+        for (const [id, entry] of this.entries) {
+            if (!entry.moduleKey || this.current.get(id)?.moduleKey) {
+                continue
+            }
+
+            try {
+                await this.deleteCacheFile(this.getModulePath(id))
+            } catch (e) {
+                log.debug(`Failed to delete cached module '${id}': ${e}`)
+            }
+        }
+    }
+
+    /**
+     * Stores dependency information for a file.
+     * @param id The file identifier.
+     * @param info The dependency information.
+     */
+    setDependencyInfo(id: string, info: LuaDependencyInfo) {
+        const entry = this.current.get(id)
+        if (!entry) {
+            return
+        }
+
+        entry.reads = [...info.reads]
+        entry.writes = [...info.writes]
+        entry.requires = [...info.requires]
+    }
+
+    /**
+     * Records the content of a file for the current run.
+     * @param id The file identifier.
+     * @param content The file content.
+     * @returns Flag for whether the file changed since it was cached.
+     */
+    setFileContent(id: string, content: string): boolean {
+        const hash = AnalysisCache.getHash(content)
+        this.current.set(id, { hash })
+
+        return this.entries.get(id)?.hash !== hash
+    }
+
+    /**
+     * Stores an analyzed module.
+     * This should be called before any transformations are applied to the module.
+     * @param id The file identifier.
+     * @param key The module key.
+     * @param mod The analyzed module.
+     * @see getModuleKey
+     */
+    async setModule(id: string, key: string, mod: AnalyzedModule) {
+        const entry = this.current.get(id)
+        if (!entry) {
+            return
+        }
+
+        try {
+            const content = JSON.stringify({ key, module: mod }, replaceSets)
+            await this.writeCacheFile(this.getModulePath(id), content)
+            entry.moduleKey = key
+        } catch (e) {
+            log.debug(`Failed to cache module '${id}': ${e}`)
+        }
+    }
+
+    /**
+     * Deletes a cache file, if it exists.
+     * @param filePath The path of the file.
+     */
+    protected async deleteCacheFile(filePath: string) {
+        if (this.storage) {
+            this.storage.delete(filePath)
+            return
+        }
+
+        await fs.promises.rm(filePath, { force: true })
+    }
+
+    /**
+     * Gets the path of the cached module file for a file identifier.
+     * @param id The file identifier.
+     */
+    protected getModulePath(id: string): string {
+        return path.join(this.cacheDirectory, 'modules', id + '.json')
+    }
+
+    /**
+     * Gets the cached entry for a file, if the file hasn't changed.
+     * @param id The file identifier.
+     */
+    protected getUnchangedEntry(id: string): CachedFileEntry | undefined {
+        const entry = this.entries.get(id)
+        const hash = this.getFileHash(id)
+        if (!entry || !hash || entry.hash !== hash) {
+            return
+        }
+
+        return entry
+    }
+
+    /**
+     * Checks whether a cache file exists.
+     * @param filePath The path of the file.
+     */
+    protected hasCacheFile(filePath: string): boolean {
+        return this.storage
+            ? this.storage.has(filePath)
+            : fs.existsSync(filePath)
+    }
+
+    /**
+     * Reads the content of a cache file.
+     * @param filePath The path of the file.
+     */
+    protected async readCacheFile(filePath: string): Promise<string> {
+        if (!this.storage) {
+            return await readFileContents(filePath)
+        }
+
+        const content = this.storage.get(filePath)
+        if (content === undefined) {
+            throw new Error(`File '${filePath}' does not exist`)
+        }
+
+        return content
+    }
+
+    /**
+     * Writes the content of a cache file.
+     * @param filePath The path of the file.
+     * @param content The file content.
+     */
+    protected async writeCacheFile(filePath: string, content: string) {
+        if (this.storage) {
+            this.storage.set(filePath, content)
+            return
+        }
+
+        await writeFile(filePath, content)
+    }
+}
+
+/**
+ * JSON replacer which preserves sets.
+ */
+const replaceSets = (_: string, value: any) => {
+    return value instanceof Set ? { $set: [...value] } : value
+}
+
+/**
+ * JSON reviver which restores sets written by `replaceSets`.
+ */
+const reviveSets = (_: string, value: any) => {
+    if (value && typeof value === 'object' && Array.isArray(value.$set)) {
+        return new Set(value.$set)
+    }
+
+    return value
+}
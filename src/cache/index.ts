@@ -0,0 +1,2 @@
+export type * from './types'
+export { AnalysisCache } from './AnalysisCache'
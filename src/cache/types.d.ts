@@ -0,0 +1,72 @@
+/**
+ * Arguments for an analysis cache.
+ */
+export interface AnalysisCacheArgs {
+    /**
+     * The directory to read and write cache files.
+     */
+    cacheDirectory: string
+
+    /**
+     * Storage for cache files, keyed by path.
+     * If this is given, cache files are kept in memory rather than written to the cache directory.
+     */
+    storage?: Map<string, string>
+
+    /**
+     * Settings which affect the analysis results.
+     * If these differ from the settings of the cached data, cached modules are discarded.
+     */
+    settings?: Record<string, unknown>
+}
+
+/**
+ * Cached information about a single Lua file.
+ */
+export interface CachedFileEntry {
+    /**
+     * The content hash of the file.
+     */
+    hash: string
+
+    /**
+     * Globals that the file reads.
+     */
+    reads?: string[]
+
+    /**
+     * Globals that the file writes.
+     */
+    writes?: string[]
+
+    /**
+     * Filenames that the file requires.
+     */
+    requires?: string[]
+
+    /**
+     * The key of the cached analyzed module.
+     * This is derived from the hashes of the file and its transitive dependencies.
+     */
+    moduleKey?: string
+}
+
+/**
+ * The contents of the cache manifest file.
+ */
+export interface CacheManifest {
+    /**
+     * The version of the cache format.
+     */
+    version: number
+
+    /**
+     * A string representing the settings used for cached analysis.
+     */
+    settings: string
+
+    /**
+     * Maps file identifiers to cached file information.
+     */
+    files: Record<string, CachedFileEntry>
+}
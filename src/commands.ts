@@ -1,6 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import type { Argv } from 'yargs'
+import { readHeuristicsFile } from './helpers'
 
 /**
  * Adds the command-line options for the annotate command.
@@ -72,6 +73,48 @@ export const annotateCommand = (yargs: Argv) => {
             type: 'string',
             desc: 'Regular expression to use to determine whether a class or table should have no initializer',
         })
+        .option('target', {
+            type: 'string',
+            choices: ['lua', 'd.ts', 'd.tl'],
+            default: 'lua',
+            desc: 'The output format; d.ts emits TypeScript declarations for TypeScriptToLua and d.tl emits Teal declarations',
+        })
+        .option('addon', {
+            type: 'boolean',
+            desc: 'Write the output as a LuaLS addon with a library folder, config.json, and .luarc.json',
+        })
+        .option('addon-name', {
+            type: 'string',
+            implies: ['addon'],
+            desc: 'The name of the LuaLS addon',
+            defaultDescription: 'output directory name',
+        })
+        .option('addon-words', {
+            type: 'array',
+            string: true,
+            implies: ['addon'],
+            desc: 'Lua patterns for file content which indicates the addon should be used',
+        })
+        .option('addon-files', {
+            type: 'array',
+            string: true,
+            implies: ['addon'],
+            desc: 'Lua patterns for file paths which indicate the addon should be used',
+        })
+        .option('source-links', {
+            type: 'boolean',
+            desc: 'Include @source annotations that link to the original Lua files',
+        })
+        .option('source-prefix', {
+            type: 'string',
+            implies: ['source-links'],
+            desc: 'The path or URI prefix to use in place of the input directory for @source links',
+            defaultDescription: 'input directory',
+        })
+        .option('include-removed', {
+            type: 'boolean',
+            desc: 'Include Rosetta items tagged as removed from the Lua source as deprecated stubs',
+        })
         .check((args: any) => {
             if (!args.inputDirectory && !args.rosettaOnly) {
                 throw new Error(
@@ -79,11 +122,66 @@ export const annotateCommand = (yargs: Argv) => {
                 )
             }
 
+            if (args.addon && args.target !== 'lua') {
+                throw new Error('The addon option requires the lua target')
+            }
+
+            if (args.sourceLinks && args.target !== 'lua') {
+                throw new Error(
+                    'The source-links option requires the lua target',
+                )
+            }
+
             return true
         })
 
     addHeuristicOption(yargs)
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
+    addSourceCommentsOption(yargs)
+    addTopLayerOption(yargs)
     addExcludeOptions(yargs)
+    addWatchOption(yargs)
+
+    return addSharedSuffix(yargs)
+}
+
+/**
+ * Adds the command-line options for the diff-api command.
+ */
+export const diffApiCommand = (yargs: Argv) => {
+    addLogOptions(yargs)
+        .option('old', {
+            type: 'string',
+            required: true,
+            desc: 'The directory for the old Lua files, or an analysis report of them',
+        })
+        .option('new', {
+            type: 'string',
+            required: true,
+            desc: 'The directory for the new Lua files, or an analysis report of them',
+        })
+        .option('format', {
+            type: 'string',
+            alias: 'f',
+            default: 'json',
+            choices: ['json', 'md'],
+            desc: 'The format to use for the report',
+        })
+        .check((args: any) => {
+            for (const inputPath of [args.old, args.new]) {
+                if (!fs.existsSync(path.resolve(inputPath))) {
+                    throw `Input '${inputPath}' does not exist.`
+                }
+            }
+
+            return true
+        })
+
+    addOutputFileOption(yargs)
+    addHeuristicOption(yargs)
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
 
     return addSharedSuffix(yargs)
 }
@@ -96,7 +194,12 @@ export const initRosettaCommand = (yargs: Argv) => {
 
     addRosettaOptions(yargs)
     addHeuristicOption(yargs)
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
+    addSourceCommentsOption(yargs)
+    addTopLayerOption(yargs)
     addExcludeOptions(yargs)
+    addWatchOption(yargs)
 
     return addSharedSuffix(yargs)
 }
@@ -108,6 +211,9 @@ export const reportAnalysisCommand = (yargs: Argv) => {
     addSharedPrefix(yargs)
     addOutputFileOption(yargs)
     addHeuristicOption(yargs)
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
+    addTopLayerOption(yargs)
 
     return addSharedSuffix(yargs)
 }
@@ -119,6 +225,8 @@ export const updateRosettaCommand = (yargs: Argv) => {
     addSharedPrefix(yargs)
     addRosettaOptions(yargs)
 
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
     addHeuristicOption(yargs)
         .option('delete-unknown', {
             type: 'boolean',
@@ -130,6 +238,28 @@ export const updateRosettaCommand = (yargs: Argv) => {
             defaultDescription: 'false',
             desc: 'Display warnings for unknown items instead of deleting them',
         })
+        .option('deprecate-unknown', {
+            type: 'boolean',
+            desc: 'Mark unknown items as deprecated and removed instead of deleting them',
+        })
+        .option('removed-version', {
+            type: 'string',
+            implies: ['deprecate-unknown'],
+            desc: 'The version to record for items marked as removed',
+            defaultDescription: 'current date',
+        })
+        .option('dry-run', {
+            type: 'boolean',
+            conflicts: ['watch'],
+            desc: 'Report changes instead of writing them, exiting with a non-zero code if there are any',
+        })
+        .option('dry-run-format', {
+            type: 'string',
+            choices: ['diff', 'json'],
+            implies: ['dry-run'],
+            desc: 'The format for dry run output; diff prints a unified diff and json prints a summary of changed members',
+            defaultDescription: 'diff',
+        })
         .option('keep-types', {
             type: 'boolean',
             default: true,
@@ -150,7 +280,10 @@ export const updateRosettaCommand = (yargs: Argv) => {
             desc: 'Regular expression to use to determine whether a name should be ignored',
         })
 
+    addSourceCommentsOption(yargs)
+    addTopLayerOption(yargs)
     addExcludeOptions(yargs)
+    addWatchOption(yargs)
 
     return addSharedSuffix(yargs)
 }
@@ -165,6 +298,73 @@ export const reportDepsCommand = (yargs: Argv) => {
     return addSharedSuffix(yargs)
 }
 
+/**
+ * Adds the command-line options for the report-types command.
+ */
+export const reportTypesCommand = (yargs: Argv) => {
+    addSharedPrefix(yargs, false)
+        .option('rosetta', {
+            type: 'string',
+            alias: 'r',
+            desc: 'The directory to use for rosetta files',
+        })
+        .option('rosetta-only', {
+            type: 'boolean',
+            conflicts: ['input-directory'],
+            implies: ['rosetta'],
+            desc: 'Report using only Rosetta data',
+        })
+        .option('external-types', {
+            type: 'array',
+            string: true,
+            desc: 'Files or directories with externally defined type names, as Lua stubs or one name per line',
+        })
+        .check((args: any) => {
+            if (!args.inputDirectory && !args.rosettaOnly) {
+                throw new Error(
+                    'Missing required argument: input-directory or rosetta-only',
+                )
+            }
+
+            return true
+        })
+
+    addOutputFileOption(yargs)
+    addHeuristicOption(yargs)
+    addCallSiteOption(yargs)
+    addDefinitionsOption(yargs)
+    addTopLayerOption(yargs)
+    addExcludeOptions(yargs)
+
+    return addSharedSuffix(yargs)
+}
+
+/**
+ * Adds the command-line options for the validate-rosetta command.
+ */
+export const validateRosettaCommand = (yargs: Argv) => {
+    addLogOptions(yargs)
+        .option('rosetta', {
+            type: 'string',
+            alias: 'r',
+            required: true,
+            desc: 'The directory to use for rosetta files',
+        })
+        .check((args: any) => {
+            if (fs.existsSync(path.resolve(args.rosetta))) {
+                return true
+            }
+
+            throw 'Rosetta directory does not exist.'
+        })
+        .option('warn-unknown-types', {
+            type: 'boolean',
+            desc: 'Report warnings for type names not defined in Rosetta files',
+        })
+
+    return addOutputFileOption(yargs).wrap(120)
+}
+
 /**
  * Adds shared yargs options for excluding classes and fields.
  */
@@ -189,7 +389,18 @@ const addExcludeOptions = (yargs: Argv) => {
 }
 
 /**
- * Adds the shared yargs option for enabling or disabling heuristics.
+ * Adds the shared yargs option for watching for file changes.
+ */
+const addWatchOption = (yargs: Argv) => {
+    return yargs.option('watch', {
+        type: 'boolean',
+        alias: 'w',
+        desc: 'Keep running and regenerate output when input or Rosetta files change',
+    })
+}
+
+/**
+ * Adds the shared yargs options for enabling or disabling heuristics and for the rules to use.
  */
 const addHeuristicOption = (yargs: Argv) => {
     return yargs
@@ -203,6 +414,81 @@ const addHeuristicOption = (yargs: Argv) => {
             type: 'boolean',
             desc: 'Disable assumption of types based on common patterns',
         })
+        .option('heuristics-file', {
+            type: 'string',
+            desc: 'A YAML or JSON file with rules for assuming types from names, used in place of the default rules',
+        })
+        .check((args: any) => {
+            if (!args.heuristicsFile) {
+                return true
+            }
+
+            if (!fs.existsSync(path.resolve(args.heuristicsFile))) {
+                throw 'Heuristics file does not exist.'
+            }
+
+            try {
+                readHeuristicsFile(args.heuristicsFile)
+            } catch (e) {
+                throw `Invalid heuristics file: ${e}`
+            }
+
+            return true
+        })
+}
+
+/**
+ * Adds the shared yargs option for the directory of additional definitions used during analysis.
+ */
+const addDefinitionsOption = (yargs: Argv) => {
+    return yargs
+        .option('definitions', {
+            type: 'string',
+            desc: 'A directory of Rosetta files with additional definitions, such as the Java API, used for known types during analysis',
+        })
+        .check((args: any) => {
+            if (!args.definitions) {
+                return true
+            }
+
+            if (fs.existsSync(path.resolve(args.definitions))) {
+                return true
+            }
+
+            throw 'Definitions directory does not exist.'
+        })
+}
+
+/**
+ * Adds the shared yargs option for limiting the parameter types inferred from call sites.
+ */
+const addCallSiteOption = (yargs: Argv) => {
+    return yargs.option('call-site-types', {
+        type: 'number',
+        default: 3,
+        desc: 'The maximum number of types to infer for a parameter from calls to functions defined later; 0 skips these calls',
+    })
+}
+
+/**
+ * Adds the shared yargs option for including source comments as descriptions.
+ */
+const addSourceCommentsOption = (yargs: Argv) => {
+    return yargs.option('source-comments', {
+        type: 'boolean',
+        desc: 'Include comments above functions and tables as descriptions and Rosetta notes',
+    })
+}
+
+/**
+ * Adds the shared yargs option for limiting results to the last input layer.
+ */
+const addTopLayerOption = (yargs: Argv) => {
+    return yargs.option('top-layer-only', {
+        type: 'boolean',
+        implies: ['layers'],
+        desc: 'Only include files from the last layer; earlier layers are still read for context',
+    })
 }
 
 /**
@@ -237,10 +523,9 @@ const addRosettaOptions = (yargs: Argv) => {
 }
 
 /**
- * Adds shared yargs options to prefix for all commands.
- * @param requireInputDir Flag for whether the `input-directory` option should be required.
+ * Adds shared yargs options for the log level.
  */
-const addSharedPrefix = (yargs: Argv, requireInputDir = true) => {
+const addLogOptions = (yargs: Argv) => {
     return yargs
         .option('level', {
             type: 'string',
@@ -255,6 +540,14 @@ const addSharedPrefix = (yargs: Argv, requireInputDir = true) => {
             desc: 'Shortcut for verbose log level',
             conflicts: ['level'],
         })
+}
+
+/**
+ * Adds shared yargs options to prefix for all commands.
+ * @param requireInputDir Flag for whether the `input-directory` option should be required.
+ */
+const addSharedPrefix = (yargs: Argv, requireInputDir = true) => {
+    return addLogOptions(yargs)
         .option('input-directory', {
             type: 'string',
             alias: 'i',
@@ -262,6 +555,12 @@ const addSharedPrefix = (yargs: Argv, requireInputDir = true) => {
             conflicts: ['rosetta-only'],
             desc: 'The directory for input Lua files',
         })
+        .option('layers', {
+            type: 'array',
+            string: true,
+            implies: ['input-directory'],
+            desc: 'Additional directories for input Lua files, layered over the input directory in loading order',
+        })
 }
 
 /**
@@ -281,16 +580,26 @@ const addSharedSuffix = (yargs: Argv) => {
             conflicts: ['subdirectories'],
             desc: 'If given, all subdirectories of the input directory will be read',
         })
+        .option('cache-directory', {
+            type: 'string',
+            desc: 'The directory to store cached analysis data in for incremental runs',
+        })
         .check((args: any) => {
             if (!args.inputDirectory) {
                 return true
             }
 
-            if (fs.existsSync(path.resolve(args.inputDirectory))) {
-                return true
+            if (!fs.existsSync(path.resolve(args.inputDirectory))) {
+                throw 'Input directory does not exist.'
             }
 
-            throw 'Input directory does not exist.'
+            for (const layer of args.layers ?? []) {
+                if (!fs.existsSync(path.resolve(layer))) {
+                    throw `Layer directory '${layer}' does not exist.`
+                }
+            }
+
+            return true
         })
         .wrap(120)
 }
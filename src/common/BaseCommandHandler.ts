@@ -11,11 +11,26 @@ export abstract class BaseCommandHandler {
      */
     protected inDirectory: string
 
+    /**
+     * The input directory followed by any layered directories, in loading order.
+     */
+    protected inDirectories: string[]
+
+    /**
+     * Flag for whether only files from the last input directory should be included in results.
+     */
+    protected topLayerOnly: boolean
+
     /**
      * The subdirectories within the input directory to read from.
      */
     protected subdirectories: string[]
 
+    /**
+     * The directory to store cached analysis data in.
+     */
+    protected cacheDirectory: string | undefined
+
     /**
      * Flag for whether the log level has already been updated based on an argument.
      */
@@ -30,12 +45,23 @@ export abstract class BaseCommandHandler {
             ? path.normalize(args.inputDirectory)
             : ''
 
+        this.inDirectories = [
+            this.inDirectory,
+            ...(args.layers ?? []).map((x) => path.normalize(x)),
+        ].filter((x) => x)
+
+        this.topLayerOnly = args.topLayerOnly ?? false
+
         this.subdirectories = args.subdirectories ?? [
             'shared',
             'client',
             'server',
         ]
 
+        this.cacheDirectory = args.cacheDirectory
+            ? path.normalize(args.cacheDirectory)
+            : undefined
+
         if (args.allSubdirectories) {
             this.subdirectories = []
         } else {
@@ -1,3 +1,4 @@
+import fs from 'fs'
 import path from 'path'
 import { Analyzer } from '../analysis/Analyzer'
 import { AnalyzedClass, AnalyzedModule } from '../analysis/types'
@@ -5,12 +6,17 @@ import { Rosetta } from '../rosetta/Rosetta'
 import type { RosettaFile } from '../rosetta/types'
 import { BaseAnnotateArgs } from './types'
 import { BaseCommandHandler } from './BaseCommandHandler'
+import { FileWatcher } from './FileWatcher'
 import {
     convertRosettaClass,
     convertRosettaField,
     convertRosettaFunction,
     convertRosettaTable,
+    getRosettaReturnTypes,
+    getRosettaTypeString,
+    log,
     readLuaStringLiteral,
+    writeFile,
 } from '../helpers'
 
 /**
@@ -62,6 +68,32 @@ export abstract class BaseGenerator extends BaseCommandHandler {
      */
     protected heuristics: boolean
 
+    /**
+     * The path of the file containing heuristic rules.
+     * If this is not given, the default rules are used.
+     */
+    protected heuristicsFile: string | undefined
+
+    /**
+     * The maximum number of types to infer for a parameter from call sites.
+     */
+    protected callSiteTypes: number | undefined
+
+    /**
+     * The directory of Rosetta files with additional definitions to use during analysis.
+     */
+    protected definitionsDirectory: string | undefined
+
+    /**
+     * Flag for whether comments preceding functions and tables should be included as descriptions.
+     */
+    protected sourceComments: boolean
+
+    /**
+     * Flag for whether Rosetta items that were removed from the Lua source should be included.
+     */
+    protected includeRemoved: boolean
+
     /**
      * Set of class names to exclude from generated typestubs.
      */
@@ -72,6 +104,57 @@ export abstract class BaseGenerator extends BaseCommandHandler {
      */
     protected excludeFields: Set<string>
 
+    /**
+     * Flag for whether output should be regenerated when input files change.
+     */
+    protected watchMode: boolean
+
+    /**
+     * The directory to load Rosetta files from.
+     */
+    protected rosettaDirectory: string | undefined
+
+    /**
+     * Maps resolved paths of written files to their content.
+     * This is only populated in watch mode.
+     */
+    protected writtenFiles: Map<string, string>
+
+    /**
+     * Maps file identifiers to the paths of the Lua files they were read from.
+     * This is populated by analysis.
+     */
+    protected filePaths: Map<string, string>
+
+    /**
+     * Storage for analysis data kept in memory between runs in watch mode.
+     * This is only used if no cache directory is given.
+     */
+    protected cacheStorage: Map<string, string> | undefined
+
+    /**
+     * Resolved paths of the files that changed before the current run in watch mode.
+     * If this is not set, every output is written.
+     */
+    protected changedFiles: Set<string> | undefined
+
+    /**
+     * Identifiers of Rosetta files that were loaded from changed files before the current run.
+     */
+    protected changedRosettaIds: Set<string>
+
+    /**
+     * The identifiers of the modules that were analyzed rather than read from the cache in the current run.
+     * If this is not set, every module is treated as changed.
+     */
+    protected uncachedIds: Set<string> | undefined
+
+    /**
+     * Maps module identifiers to the resolved paths of the files generated for them.
+     * This is only populated in watch mode.
+     */
+    protected outputFiles: Map<string, string>
+
     /**
      * Creates a new annotator.
      * @param args Arguments for annotation.
@@ -85,6 +168,19 @@ export abstract class BaseGenerator extends BaseCommandHandler {
         this.excludeFields = new Set(args.excludeFields)
         this.rosettaOnly = args.rosettaOnly ?? false
         this.heuristics = args.heuristics ?? false
+        this.heuristicsFile = args.heuristicsFile
+        this.callSiteTypes = args.callSiteTypes
+        this.definitionsDirectory = args.definitions
+        this.sourceComments = args.sourceComments ?? false
+        this.includeRemoved = args.includeRemoved ?? false
+        this.watchMode = args.watch ?? false
+        this.rosettaDirectory = args.rosetta
+        this.writtenFiles = new Map()
+        this.filePaths = new Map()
+        this.changedRosettaIds = new Set()
+        this.outputFiles = new Map()
+        this.cacheStorage =
+            this.watchMode && !this.cacheDirectory ? new Map() : undefined
 
         if (!args.includeLargeDefs) {
             DEFAULT_EXCLUDES.forEach((x) => this.excludeFields.add(x))
@@ -96,6 +192,23 @@ export abstract class BaseGenerator extends BaseCommandHandler {
         })
     }
 
+    /**
+     * Runs generation.
+     * @returns The list of analyzed modules.
+     */
+    abstract run(): Promise<AnalyzedModule[]>
+
+    /**
+     * Runs generation, then regenerates output on changes if watch mode is enabled.
+     */
+    async start() {
+        await this.run()
+
+        if (this.watchMode) {
+            this.watch()
+        }
+    }
+
     /**
      * Injects a static `Type` string field to classes created with a `:derive()` call.
      * @param modules Modules to augment.
@@ -185,25 +298,30 @@ export abstract class BaseGenerator extends BaseCommandHandler {
 
         cls.fields.push(
             ...Object.entries(rosettaClass.fields ?? {})
-                .filter(([name]) => !fieldSet.has(name))
+                .filter(([name, x]) => !fieldSet.has(name) && this.canInject(x))
                 .map(([name, x]) => convertRosettaField(x, name)),
         )
 
         cls.staticFields.push(
             ...Object.entries(rosettaClass.staticFields ?? {})
-                .filter(([name]) => !staticFieldSet.has(name))
+                .filter(
+                    ([name, x]) =>
+                        !staticFieldSet.has(name) && this.canInject(x),
+                )
                 .map(([name, x]) => convertRosettaField(x, name)),
         )
 
         cls.functions.push(
             ...Object.entries(rosettaClass.staticMethods ?? {})
-                .filter(([name]) => !funcSet.has(name))
+                .filter(([name, x]) => !funcSet.has(name) && this.canInject(x))
                 .map(([, x]) => convertRosettaFunction(x)),
         )
 
         cls.methods.push(
             ...Object.entries(rosettaClass.methods ?? {})
-                .filter(([name]) => !methodSet.has(name))
+                .filter(
+                    ([name, x]) => !methodSet.has(name) && this.canInject(x),
+                )
                 .map(([, x]) => convertRosettaFunction(x, true)),
         )
 
@@ -245,32 +363,41 @@ export abstract class BaseGenerator extends BaseCommandHandler {
 
         mod.classes.push(
             ...Object.values(rosettaFile.classes)
-                .filter((x) => !clsSet.has(x.name))
+                .filter((x) => !clsSet.has(x.name) && this.canInject(x))
                 .map(convertRosettaClass),
         )
 
         mod.functions.push(
             ...Object.values(rosettaFile.functions)
-                .filter((x) => !funcSet.has(x.name))
+                .filter((x) => !funcSet.has(x.name) && this.canInject(x))
                 .map((x) => convertRosettaFunction(x)),
         )
 
         mod.tables.push(
             ...Object.values(rosettaFile.tables)
-                .filter((x) => !tableSet.has(x.name))
+                .filter((x) => !tableSet.has(x.name) && this.canInject(x))
                 .map(convertRosettaTable),
         )
 
         const fieldSet = new Set<string>(mod.fields.map((x) => x.name))
         mod.fields.push(
             ...Object.entries(rosettaFile.fields)
-                .filter(([name]) => !fieldSet.has(name))
+                .filter(([name, x]) => !fieldSet.has(name) && this.canInject(x))
                 .map(([name, x]) => convertRosettaField(x, name)),
         )
 
         return mod
     }
 
+    /**
+     * Determines whether a Rosetta item should be added to analyzed modules.
+     * Items tagged as removed from the Lua source are only added if `includeRemoved` is set.
+     * @param item The Rosetta item.
+     */
+    protected canInject(item: { tags?: string[] }): boolean {
+        return this.includeRemoved || !item.tags?.includes('StubGen_Removed')
+    }
+
     /**
      * Creates an analyzed module populated with information from Rosetta.
      * @param file The Rosetta file to create a module from.
@@ -292,6 +419,52 @@ export abstract class BaseGenerator extends BaseCommandHandler {
         return this.augmentModule(mod)
     }
 
+    /**
+     * Deletes the output files of modules that no longer exist, such as stubs for deleted or renamed Lua files.
+     * @param modules The modules from the latest run.
+     */
+    protected async deleteStaleOutputs(modules: AnalyzedModule[]) {
+        const ids = new Set(modules.map((x) => x.id))
+        for (const [id, outFile] of this.outputFiles) {
+            if (ids.has(id)) {
+                continue
+            }
+
+            this.outputFiles.delete(id)
+            this.writtenFiles.delete(outFile)
+
+            try {
+                await fs.promises.rm(outFile, { force: true })
+                log.verbose(`Deleted output file '${outFile}'`)
+            } catch (e) {
+                log.error(`Failed to delete file '${outFile}': ${e}`)
+            }
+        }
+    }
+
+    /**
+     * Gets the callback parameter types of events defined in Rosetta files.
+     * Removed events are only included if they can be injected.
+     */
+    protected getEventParameterTypes(): Record<string, (string | undefined)[]> {
+        const eventTypes: Record<string, (string | undefined)[]> = {}
+        for (const file of Object.values(this.rosetta.files)) {
+            for (const event of Object.values(file.events)) {
+                if (!this.canInject(event)) {
+                    continue
+                }
+
+                eventTypes[event.name] = (event.parameters ?? []).map((x) =>
+                    x.type !== undefined
+                        ? getRosettaTypeString(x.type, x.optional, x.nullable)
+                        : undefined,
+                )
+            }
+        }
+
+        return eventTypes
+    }
+
     /**
      * Performs analysis and returns a list of analyzed modules.
      * @param forRosetta Flag for whether this is running in the context of Rosetta initialization or update.
@@ -299,22 +472,91 @@ export abstract class BaseGenerator extends BaseCommandHandler {
      */
     protected async getModules(forRosetta = false): Promise<AnalyzedModule[]> {
         let modules: AnalyzedModule[] = []
+        this.uncachedIds = new Set()
 
         if (!this.rosettaOnly) {
-            const analyzer = new Analyzer({
-                inputDirectory: this.inDirectory,
-                subdirectories: this.subdirectories,
-                isForRosetta: forRosetta,
-                heuristics: this.heuristics,
-            })
+            const analyzer = new Analyzer(
+                {
+                    inputDirectory: this.inDirectory,
+                    layers: this.inDirectories.slice(1),
+                    topLayerOnly: this.topLayerOnly,
+                    subdirectories: this.subdirectories,
+                    isForRosetta: forRosetta,
+                    eventParameterTypes: this.getEventParameterTypes(),
+                    knownReturnTypes: getRosettaReturnTypes(
+                        Object.values(this.rosetta.files),
+                        this.includeRemoved,
+                    ),
+                    definitions: this.definitionsDirectory,
+                    heuristics: this.heuristics,
+                    heuristicsFile: this.heuristicsFile,
+                    callSiteTypes: this.callSiteTypes,
+                    sourceComments: this.sourceComments,
+                    cacheDirectory: this.cacheDirectory,
+                },
+                this.cacheStorage,
+            )
 
             modules = await analyzer.run()
+            this.filePaths = analyzer.getFilePaths()
+            this.uncachedIds = analyzer.getUncachedModules()
         }
 
         await this.transformModules(modules)
         return modules
     }
 
+    /**
+     * Gets the directories to watch for changes in watch mode.
+     */
+    protected getWatchDirectories(): string[] {
+        const dirs: string[] = []
+        if (!this.rosettaOnly) {
+            dirs.push(...this.inDirectories)
+        }
+
+        if (this.useRosetta && this.rosettaDirectory) {
+            dirs.push(this.rosettaDirectory)
+        }
+
+        return dirs
+    }
+
+    /**
+     * Checks whether the output for a module should be written.
+     * In watch mode, this is limited to modules affected by the changed files.
+     * @param id The module identifier.
+     */
+    protected isAffectedModule(id: string): boolean {
+        if (!this.changedFiles || !this.uncachedIds) {
+            return true
+        }
+
+        if (this.uncachedIds.has(id) || this.changedRosettaIds.has(id)) {
+            return true
+        }
+
+        const filename = this.rosetta.files[id]?.filename
+        return !!filename && this.changedFiles.has(path.resolve(filename))
+    }
+
+    /**
+     * Checks whether a file was written by this generator and has not changed since.
+     * @param filePath The path of the file to check.
+     */
+    protected isUnchangedOutput(filePath: string): boolean {
+        const written = this.writtenFiles.get(path.resolve(filePath))
+        if (written === undefined || !fs.existsSync(filePath)) {
+            return false
+        }
+
+        try {
+            return fs.readFileSync(filePath, 'utf-8') === written
+        } catch {
+            return false
+        }
+    }
+
     /**
      * Loads Rosetta files from the Rosetta directory.
      * @returns Flag for whether files were loaded.
@@ -339,9 +581,10 @@ export abstract class BaseGenerator extends BaseCommandHandler {
     protected async transformModules(modules: AnalyzedModule[]) {
         this.applyExclusions(modules)
 
+        // only files in the top layer are included in top-layer-only mode
         const idSet = new Set<string>(modules.map((x) => x.id))
         for (const [id, file] of Object.entries(this.rosetta.files)) {
-            if (!idSet.has(id)) {
+            if (!idSet.has(id) && !this.topLayerOnly) {
                 modules.push(this.createModule(file))
             }
         }
@@ -354,4 +597,75 @@ export abstract class BaseGenerator extends BaseCommandHandler {
             }
         }
     }
+
+    /**
+     * Watches the input directories and regenerates output when files change.
+     */
+    protected watch() {
+        const watcher = new FileWatcher({
+            directories: this.getWatchDirectories(),
+            extensions: ['.lua', '.json', '.yml', '.yaml'],
+            onChange: async (files) => {
+                const changed = files.filter((x) => !this.isUnchangedOutput(x))
+                if (changed.length === 0) {
+                    return
+                }
+
+                log.info(`Detected ${changed.length} changed file(s)`)
+
+                const changedFiles = new Set(
+                    changed.map((x) => path.resolve(x)),
+                )
+                this.changedFiles = changedFiles
+                this.changedRosettaIds = new Set(
+                    Object.values(this.rosetta.files)
+                        .filter(
+                            (x) =>
+                                x.filename &&
+                                changedFiles.has(path.resolve(x.filename)),
+                        )
+                        .map((x) => x.id),
+                )
+
+                this.rosetta.reset()
+
+                try {
+                    await this.deleteStaleOutputs(await this.run())
+                } finally {
+                    this.changedFiles = undefined
+                    this.changedRosettaIds.clear()
+                }
+            },
+        })
+
+        watcher.start()
+    }
+
+    /**
+     * Writes an output file.
+     * In watch mode, files are skipped if their content is unchanged since the last write.
+     * @param outFile The path of the file to write.
+     * @param content The file content.
+     * @param id The identifier of the module the file was generated for, if any.
+     * In watch mode, this is used to delete the file if the module is removed.
+     */
+    protected async writeOutputFile(
+        outFile: string,
+        content: string,
+        id?: string,
+    ) {
+        const resolved = path.resolve(outFile)
+        if (this.watchMode && this.writtenFiles.get(resolved) === content) {
+            return
+        }
+
+        await writeFile(resolved, content)
+
+        if (this.watchMode) {
+            this.writtenFiles.set(resolved, content)
+            if (id !== undefined) {
+                this.outputFiles.set(id, resolved)
+            }
+        }
+    }
 }
@@ -168,15 +168,17 @@ export abstract class BaseReader {
      * @param lua The Lua source.
      * @param filePath The path of the file the source was read from.
      * @param includeLocations Flag for whether location information should be included with each node.
+     * @param includeComments Flag for whether comments should be included with the chunk.
      */
     protected parse(
         lua: string,
         filePath: string,
         includeLocations?: boolean,
+        includeComments?: boolean,
     ): ast.Chunk | undefined {
         try {
             return ast.parse(this.sanitizeLua(lua), {
-                comments: false,
+                comments: includeComments ?? false,
                 locations: includeLocations,
                 luaVersion: '5.2', // Kahlua is closer to 5.1, but this gets around the 'break' issue in luaparse
             })
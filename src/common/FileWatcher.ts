@@ -0,0 +1,165 @@
+import fs from 'fs'
+import path from 'path'
+import { log } from '../helpers'
+import type { FileWatcherArgs } from './types'
+
+/**
+ * Watches directories for file changes and reports batches of changed files.
+ */
+export class FileWatcher {
+    /**
+     * The directories to watch.
+     */
+    protected directories: string[]
+
+    /**
+     * File extensions to watch. If empty, all files are watched.
+     */
+    protected extensions: Set<string>
+
+    /**
+     * The time to wait after a change before reporting, in milliseconds.
+     */
+    protected delay: number
+
+    /**
+     * Callback for a batch of changed files.
+     */
+    protected onChange: (files: string[]) => Promise<void>
+
+    /**
+     * Active watchers.
+     */
+    protected watchers: fs.FSWatcher[]
+
+    /**
+     * Paths of files changed since the last report.
+     */
+    protected pending: Set<string>
+
+    /**
+     * The timer for the next report.
+     */
+    protected timer: NodeJS.Timeout | undefined
+
+    /**
+     * Flag for whether the change callback is currently running.
+     */
+    protected running: boolean
+
+    /**
+     * Creates a new file watcher.
+     * @param args Arguments for the watcher.
+     */
+    constructor(args: FileWatcherArgs) {
+        this.directories = [
+            ...new Set(args.directories.map((x) => path.resolve(x))),
+        ]
+        this.extensions = new Set(args.extensions)
+        this.delay = args.delay ?? 250
+        this.onChange = args.onChange
+        this.watchers = []
+        this.pending = new Set()
+        this.running = false
+    }
+
+    /**
+     * Starts watching the directories.
+     */
+    start() {
+        for (const dir of this.directories) {
+            if (!fs.existsSync(dir)) {
+                log.warn(`Cannot watch missing directory '${dir}'`)
+                continue
+            }
+
+            try {
+                const watcher = fs.watch(dir, { recursive: true }, (_, file) =>
+                    this.handleEvent(dir, file),
+                )
+
+                watcher.on('error', (e) =>
+                    log.error(`Failed to watch directory '${dir}': ${e}`),
+                )
+
+                this.watchers.push(watcher)
+            } catch (e) {
+                log.error(`Failed to watch directory '${dir}': ${e}`)
+            }
+        }
+
+        if (this.watchers.length > 0) {
+            log.info(`Watching for changes in ${this.directories.join(', ')}`)
+        }
+    }
+
+    /**
+     * Stops watching the directories.
+     */
+    close() {
+        clearTimeout(this.timer)
+        this.watchers.forEach((x) => x.close())
+        this.watchers = []
+        this.pending.clear()
+    }
+
+    /**
+     * Reports pending changes.
+     * If the callback is already running, this is retried after it completes.
+     */
+    protected async flush() {
+        this.timer = undefined
+        if (this.running) {
+            return
+        }
+
+        if (this.pending.size === 0) {
+            return
+        }
+
+        const files = [...this.pending]
+        this.pending.clear()
+
+        this.running = true
+        try {
+            await this.onChange(files)
+        } catch (e) {
+            log.error(`Failed to handle file changes: ${e}`)
+        } finally {
+            this.running = false
+        }
+
+        if (this.pending.size > 0) {
+            this.schedule()
+        }
+    }
+
+    /**
+     * Handles a file system event.
+     * @param dir The watched directory.
+     * @param file The name of the file relative to the directory, if known.
+     */
+    protected handleEvent(dir: string, file: string | null) {
+        if (!file) {
+            return
+        }
+
+        const filePath = path.join(dir, file)
+        if (this.extensions.size > 0) {
+            if (!this.extensions.has(path.extname(filePath))) {
+                return
+            }
+        }
+
+        this.pending.add(filePath)
+        this.schedule()
+    }
+
+    /**
+     * Schedules a report of pending changes.
+     */
+    protected schedule() {
+        clearTimeout(this.timer)
+        this.timer = setTimeout(() => this.flush(), this.delay)
+    }
+}
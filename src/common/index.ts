@@ -3,3 +3,4 @@ export * from './scopes'
 export { BaseCommandHandler } from './BaseCommandHandler'
 export { BaseReader } from './BaseReader'
 export { BaseGenerator } from './BaseGenerator'
+export { FileWatcher } from './FileWatcher'
@@ -9,6 +9,18 @@ interface BaseArgs {
      */
     inputDirectory?: string
 
+    /**
+     * Additional directories to read Lua files from, layered over the input directory in loading order.
+     * Files in later layers override files with the same identifier in earlier layers.
+     */
+    layers?: string[]
+
+    /**
+     * If `true`, only files from the last layer will be included in results.
+     * Files from earlier layers are still read to resolve classes, requires, and globals.
+     */
+    topLayerOnly?: boolean
+
     /**
      * Subdirectories to read Lua files from, in order of priority.
      * Dependency analysis may reorder the analysis.
@@ -37,6 +49,12 @@ interface BaseArgs {
      * If `true`, use the `silent` log level.
      */
     silent?: boolean
+
+    /**
+     * The directory to store cached analysis data in.
+     * If not given, analysis data will not be cached.
+     */
+    cacheDirectory?: string
 }
 
 /**
@@ -94,6 +112,64 @@ export interface BaseAnnotateArgs extends BaseArgs {
      * Flag for whether heuristics should be applied.
      */
     heuristics?: boolean
+
+    /**
+     * The path of a YAML or JSON file containing heuristic rules.
+     */
+    heuristicsFile?: string
+
+    /**
+     * The maximum number of types to infer for a parameter from call sites.
+     */
+    callSiteTypes?: number
+
+    /**
+     * The directory of Rosetta files with additional definitions to use for known types during analysis.
+     */
+    definitions?: string
+
+    /**
+     * Flag for whether comments preceding functions and tables should be included as descriptions.
+     */
+    sourceComments?: boolean
+
+    /**
+     * Flag for whether Rosetta items tagged with `StubGen_Removed` should be included.
+     */
+    includeRemoved?: boolean
+
+    /**
+     * Flag for whether to keep running and regenerate output when input files change.
+     */
+    watch?: boolean
+}
+
+/**
+ * Arguments for a file watcher.
+ */
+export interface FileWatcherArgs {
+    /**
+     * The directories to watch, including their subdirectories.
+     */
+    directories: string[]
+
+    /**
+     * File extensions to watch, including the leading dot.
+     * If not given, changes to all files are reported.
+     */
+    extensions?: string[]
+
+    /**
+     * The time to wait after a change before reporting changes, in milliseconds.
+     * Defaults to 250.
+     */
+    delay?: number
+
+    /**
+     * Callback for a batch of changed files.
+     * @param files The absolute paths of the changed files.
+     */
+    onChange: (files: string[]) => Promise<void>
 }
 
 type AssignmentLHS = ast.Identifier | ast.MemberExpression | ast.IndexExpression
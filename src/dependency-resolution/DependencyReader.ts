@@ -9,11 +9,13 @@ export class DependencyReader extends BaseReader {
     /**
      * Determines dependency information for a Lua file.
      * @param filePath The path of the Lua file to read.
+     * @param content The content of the file. If not given, the file will be read.
      */
     async getDependencyInfo(
         filePath: string,
+        content?: string,
     ): Promise<LuaDependencyInfo | undefined> {
-        const content = await this.readFileContents(filePath)
+        content ??= await this.readFileContents(filePath)
         if (!content) {
             return
         }
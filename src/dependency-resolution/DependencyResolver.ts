@@ -3,12 +3,18 @@ import path from 'path'
 import { Deque } from '@datastructures-js/deque'
 import { DependencyReader } from './DependencyReader'
 import { BaseCommandHandler } from '../common'
-import type { LuaDependencyInfoMaps, ResolveArgs } from './types'
+import { AnalysisCache } from '../cache'
+import type {
+    LuaDependencyInfo,
+    LuaDependencyInfoMaps,
+    ResolveArgs,
+} from './types'
 
 import {
     getAliasMap,
     getFileIdentifier,
     log,
+    readFileContents,
     writeReport,
     time,
 } from '../helpers'
@@ -42,11 +48,23 @@ export class DependencyResolver extends BaseCommandHandler {
      */
     protected fileSet: Set<string>
 
+    /**
+     * Maps file identifiers to the paths of the files to read.
+     * Files from later layers replace files with the same identifier from earlier layers.
+     */
+    protected filePaths: Map<string, string>
+
+    /**
+     * The cache used to avoid re-reading unchanged files.
+     */
+    protected cache: AnalysisCache | undefined
+
     /**
      * Creates a new dependency resolver.
      * @param args Arguments for resolution.
+     * @param cache The analysis cache to use. If not given, one is created if a cache directory is specified.
      */
-    constructor(args: ResolveArgs) {
+    constructor(args: ResolveArgs, cache?: AnalysisCache) {
         super(args)
 
         this.setters = {}
@@ -61,7 +79,14 @@ export class DependencyResolver extends BaseCommandHandler {
             : undefined
 
         this.fileSet = new Set()
+        this.filePaths = new Map()
         this.reader = new DependencyReader()
+
+        this.cache =
+            cache ??
+            (this.cacheDirectory
+                ? new AnalysisCache({ cacheDirectory: this.cacheDirectory })
+                : undefined)
     }
 
     /**
@@ -72,6 +97,7 @@ export class DependencyResolver extends BaseCommandHandler {
         this.resetState()
 
         const order = await time('dependency resolution', async () => {
+            await this.cache?.load()
             await this.readDirectories()
             return this.getAnalysisOrder()
         })
@@ -84,6 +110,7 @@ export class DependencyResolver extends BaseCommandHandler {
      */
     async generateReport() {
         const order = await this.run()
+        await this.cache?.save()
 
         const globalReads = this.getAllGlobalReads()
         const report = this.infoMap as any
@@ -95,6 +122,65 @@ export class DependencyResolver extends BaseCommandHandler {
         await writeReport(report, this.outFile)
     }
 
+    /**
+     * Gets a map of file identifiers to the identifiers of the files they depend on.
+     * This should be called after `run`.
+     */
+    getDependencyMap(): Map<string, string[]> {
+        const aliases = getAliasMap(this.fileSet)
+        const subdirFileLists = this.groupFilesBySubdirectory()
+
+        const dependencyMap = new Map<string, string[]>()
+        for (const [i, files] of subdirFileLists.entries()) {
+            const subdir = this.subdirectories[i] ?? ''
+            for (const file of files) {
+                const deps = this.getFileDependencies(file, subdir, aliases)
+                dependencyMap.set(file, deps)
+            }
+        }
+
+        return dependencyMap
+    }
+
+    /**
+     * Gets a map of file identifiers to the paths of the files they were read from.
+     * This should be called after `run`.
+     */
+    getFilePaths(): Map<string, string> {
+        return new Map(this.filePaths)
+    }
+
+    /**
+     * Adds a Lua file to the files to read.
+     * Files from later layers replace files with the same identifier from earlier layers.
+     * @param filePath The path to the Lua file.
+     * @param inputDirPath The input directory that contains the file.
+     * @param layerFiles The identifiers of files already added from the same input directory.
+     */
+    protected addFile(
+        filePath: string,
+        inputDirPath: string,
+        layerFiles: Set<string>,
+    ) {
+        const identifier = getFileIdentifier(filePath, inputDirPath)
+        if (layerFiles.has(identifier)) {
+            log.error(
+                `Failed to read file '${filePath}': Duplicate file identifier`,
+            )
+
+            return
+        }
+
+        layerFiles.add(identifier)
+
+        const existing = this.filePaths.get(identifier)
+        if (existing) {
+            log.verbose(`Overriding '${existing}' with '${filePath}'`)
+        }
+
+        this.filePaths.set(identifier, filePath)
+    }
+
     /**
      * Gets the set of globals that were read by any file.
      */
@@ -271,14 +357,15 @@ export class DependencyResolver extends BaseCommandHandler {
     }
 
     /**
-     * Gets the directories to scan for files.
+     * Gets the directories to scan for files within an input directory.
+     * @param inputDirPath The input directory.
      */
-    protected getScanDirectories(): string[] {
+    protected getScanDirectories(inputDirPath: string): string[] {
         if (this.subdirectories.length === 0) {
-            return [this.inDirectory]
+            return [inputDirPath]
         }
 
-        return this.subdirectories.map((x) => path.join(this.inDirectory, x))
+        return this.subdirectories.map((x) => path.join(inputDirPath, x))
     }
 
     /**
@@ -330,18 +417,33 @@ export class DependencyResolver extends BaseCommandHandler {
     }
 
     /**
-     * Reads the Lua files in the given directories.
+     * Reads the Lua files in the input directories.
+     * Input directories are read in order, so that later layers override earlier ones.
      */
     protected async readDirectories() {
-        for (const dirPath of this.getScanDirectories()) {
-            await this.readDirectory(dirPath)
+        for (const inputDirPath of this.inDirectories) {
+            const layerFiles = new Set<string>()
+            for (const dirPath of this.getScanDirectories(inputDirPath)) {
+                await this.readDirectory(dirPath, inputDirPath, layerFiles)
+            }
+        }
+
+        for (const [identifier, filePath] of this.filePaths) {
+            await this.readFile(identifier, filePath)
         }
     }
 
     /**
-     * Reads the files in a given directory, descending the directory tree.
+     * Collects the Lua files in a given directory, descending the directory tree.
+     * @param baseDirPath The directory to read.
+     * @param inputDirPath The input directory that contains the directory.
+     * @param layerFiles The identifiers of files already added from the same input directory.
      */
-    protected async readDirectory(baseDirPath: string) {
+    protected async readDirectory(
+        baseDirPath: string,
+        inputDirPath: string,
+        layerFiles: Set<string>,
+    ) {
         const stack = [baseDirPath]
 
         while (stack.length > 0) {
@@ -364,7 +466,7 @@ export class DependencyResolver extends BaseCommandHandler {
                         continue
                     }
 
-                    await this.readFile(childPath)
+                    this.addFile(childPath, inputDirPath, layerFiles)
                 }
             } catch (e) {
                 log.error(`Failed to read directory '${dirPath}': ${e}`)
@@ -374,19 +476,28 @@ export class DependencyResolver extends BaseCommandHandler {
 
     /**
      * Collects global reads and writes, and requires for a given file.
+     * @param identifier The file identifier.
      * @param filePath The path to the Lua file to read.
      */
-    protected async readFile(filePath: string) {
-        const identifier = getFileIdentifier(filePath, this.inDirectory)
-
+    protected async readFile(identifier: string, filePath: string) {
         try {
-            if (this.fileSet.has(identifier)) {
-                throw new Error('Duplicate file identifier')
-            }
-
             this.fileSet.add(identifier)
 
-            const info = await this.reader.getDependencyInfo(filePath)
+            let info: LuaDependencyInfo | undefined
+            if (this.cache) {
+                const content = await readFileContents(filePath)
+                this.cache.setFileContent(identifier, content)
+
+                info = this.cache.getDependencyInfo(identifier)
+                info ??= await this.reader.getDependencyInfo(filePath, content)
+
+                if (info) {
+                    this.cache.setDependencyInfo(identifier, info)
+                }
+            } else {
+                info = await this.reader.getDependencyInfo(filePath)
+            }
+
             if (!info) {
                 return
             }
@@ -417,6 +528,7 @@ export class DependencyResolver extends BaseCommandHandler {
      */
     protected resetState() {
         this.fileSet.clear()
+        this.filePaths.clear()
         this.setters = {}
         this.infoMap = {
             reads: {},
@@ -0,0 +1,67 @@
+import type { HeuristicRule } from '../../analysis'
+
+/**
+ * Removes a leading underscore from a name.
+ * @param name The name.
+ */
+const getCheckName = (name: string): string => {
+    return name.startsWith('_') ? name.slice(1) : name
+}
+
+/**
+ * Finds the first heuristic rule that applies to a field or parameter.
+ * @param rules The rules to check.
+ * @param name The name of the field or parameter.
+ * @param types The existing types of the field or parameter.
+ * @param funcName The name of the function containing a parameter.
+ * @param parameterNames The names of the parameters of the function containing a parameter.
+ * @returns The matching rule, or `undefined` if no rule applies.
+ */
+export const findHeuristicRule = (
+    rules: HeuristicRule[],
+    name: string,
+    types?: Set<string>,
+    funcName?: string,
+    parameterNames?: string[],
+): HeuristicRule | undefined => {
+    const checkName = getCheckName(name)
+    const checkTypes = [...(types ?? [])].filter((x) => x !== 'nil')
+    const checkNames = parameterNames?.map(getCheckName) ?? []
+
+    return rules.find((rule) => {
+        const flags = rule.ignoreCase ? 'i' : undefined
+        if (!new RegExp(rule.name, flags).test(checkName)) {
+            return false
+        }
+
+        if (rule.function !== undefined) {
+            if (!funcName || !new RegExp(rule.function).test(funcName)) {
+                return false
+            }
+        }
+
+        if (rule.existingTypes) {
+            const allowed = new Set(rule.existingTypes)
+            if (!checkTypes.every((x) => allowed.has(x))) {
+                return false
+            }
+        }
+
+        if (rule.includesTypes && checkTypes.length > 0) {
+            const included = new Set(rule.includesTypes)
+            if (!checkTypes.some((x) => included.has(x))) {
+                return false
+            }
+        }
+
+        if (rule.siblings) {
+            const siblings = new Set(rule.siblings)
+            const count = checkNames.filter((x) => siblings.has(x)).length
+            if (count < (rule.minimumSiblings ?? siblings.size)) {
+                return false
+            }
+        }
+
+        return true
+    })
+}
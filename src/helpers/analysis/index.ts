@@ -1,4 +1,7 @@
+export { findHeuristicRule } from './find-heuristic-rule'
 export { isEmptyClass } from './is-empty-class'
 export { isEmptyTableLiteral } from './is-empty-table-literal'
 export { isExpressionEqual } from './is-expression-equal'
 export { isTableCoalesce } from './is-table-coalesce'
+export { mergeEventParameters } from './merge-event-parameters'
+export { readDocComment } from './read-doc-comment'
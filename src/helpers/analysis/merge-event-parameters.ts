@@ -0,0 +1,34 @@
+import type { AnalyzedParameter } from '../../analysis'
+
+/**
+ * Merges the parameters passed to an event by separate triggers.
+ * Parameters that aren't passed by one of the triggers include `nil`.
+ * @param target The parameters from earlier triggers.
+ * @param source The parameters from another trigger.
+ * @returns The merged parameters.
+ */
+export const mergeEventParameters = (
+    target: AnalyzedParameter[],
+    source: AnalyzedParameter[],
+): AnalyzedParameter[] => {
+    const count = Math.max(target.length, source.length)
+    const merged: AnalyzedParameter[] = []
+    for (let i = 0; i < count; i++) {
+        const existing = target[i]
+        const other = source[i]
+        const types = new Set([
+            ...(existing?.types ?? []),
+            ...(other?.types ?? []),
+        ])
+        if (!existing || !other) {
+            types.add('nil')
+        }
+
+        merged.push({
+            name: (existing ?? other).name,
+            types,
+        })
+    }
+
+    return merged
+}
@@ -0,0 +1,152 @@
+import type { LuaDocComment } from '../../analysis'
+import { normalizeTypeString, parseTypeExpression } from '../type-expressions'
+
+/**
+ * Pattern for `@class` annotations.
+ */
+const CLASS_REGEX =
+    /^(?:\([^)]*\)\s*)?([\w.]+)(?:\s*:\s*([\w.]+(?:\s*,\s*[\w.]+)*))?/
+
+/**
+ * Pattern for `@param` annotations.
+ */
+const PARAM_REGEX = /^([\w.]+|\.\.\.)(\?)?\s+(.+)$/
+
+/**
+ * Pattern for comment lines that are only decoration, such as `--*****`.
+ */
+const DECORATION_REGEX = /^[-*=#~_+\s]*$/
+
+/**
+ * Reads type information from the lines of a LuaDoc/EmmyLua comment block.
+ * Supports `@class`, `@param`, `@return`, and `@type` tags on `---` lines.
+ * @param lines The comment lines, with the leading `--` removed.
+ * @param includeDescription Flag for whether lines other than tags should be read as a description.
+ * @returns The comment information, or `undefined` if no supported tags or description were found.
+ */
+export const readDocComment = (
+    lines: string[],
+    includeDescription = false,
+): LuaDocComment | undefined => {
+    const comment: LuaDocComment = {
+        parameters: new Map(),
+        returns: [],
+    }
+
+    let found = false
+    const description: string[] = []
+    for (const line of lines) {
+        const match = /^-\s*@(\w+)\s*(.*)$/.exec(line)
+        if (!match) {
+            if (includeDescription && !DECORATION_REGEX.test(line)) {
+                description.push(
+                    line.replace(/^-*\s*\**\s*/, '').replace(/\s*\**\s*$/, ''),
+                )
+            }
+
+            continue
+        }
+
+        const text = match[2].trim()
+        switch (match[1]) {
+            case 'class':
+                const classMatch = CLASS_REGEX.exec(text)
+                if (classMatch) {
+                    comment.class = {
+                        name: classMatch[1],
+                        base: classMatch[2]?.split(/\s*,\s*/).join(', '),
+                    }
+
+                    found = true
+                }
+
+                break
+
+            case 'param':
+                const paramMatch = PARAM_REGEX.exec(text)
+                const paramType = paramMatch && readType(paramMatch[3])
+                if (paramType) {
+                    const optional = paramMatch[2] === '?'
+                    comment.parameters.set(
+                        paramMatch[1],
+                        normalizeTypeString(paramType[0], optional),
+                    )
+
+                    found = true
+                }
+
+                break
+
+            case 'return':
+                // ---@return A, B → multiple returns
+                let rest = text
+                let returnType = readType(rest)
+                while (returnType) {
+                    comment.returns.push(normalizeTypeString(returnType[0]))
+                    found = true
+
+                    // skip return names: ---@return A a, B b
+                    rest = returnType[1].replace(/^[\w.]+\??\s*(?=,)/, '')
+                    if (!rest.startsWith(',')) {
+                        break
+                    }
+
+                    returnType = readType(rest.slice(1))
+                }
+
+                break
+
+            case 'type':
+                const type = readType(text)
+                if (type) {
+                    comment.type = normalizeTypeString(type[0])
+                    found = true
+                }
+
+                break
+        }
+    }
+
+    if (description.length > 0) {
+        comment.description = description.join('\n')
+        found = true
+    }
+
+    return found ? comment : undefined
+}
+
+/**
+ * Reads a type string from the start of annotation text, which may be followed by a name or description.
+ * The longest prefix ending at whitespace or a comma that parses as a type is used.
+ * If no prefix parses, the first word is used.
+ * @param text The annotation text.
+ * @returns The type string and the remaining text.
+ */
+const readType = (text: string): [type: string, rest: string] | undefined => {
+    text = text.trim()
+    if (!text) {
+        return
+    }
+
+    const ends: number[] = []
+    for (let i = 1; i < text.length; i++) {
+        if (/[\s,]/.test(text[i]) && !/[\s,]/.test(text[i - 1])) {
+            ends.push(i)
+        }
+    }
+
+    ends.push(text.length)
+    for (let i = ends.length - 1; i >= 0; i--) {
+        const type = text.slice(0, ends[i])
+        try {
+            parseTypeExpression(type)
+        } catch {
+            continue
+        }
+
+        return [type, text.slice(ends[i]).trim()]
+    }
+
+    const end = ends[0]
+    return [text.slice(0, end), text.slice(end).trim()]
+}
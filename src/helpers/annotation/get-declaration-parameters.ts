@@ -0,0 +1,44 @@
+import { getRosettaTypeString } from './get-rosetta-type-string'
+import { getTypeString } from './get-type-string'
+import type { AnalyzedFunction } from '../../analysis'
+import type { DeclarationParameter } from '../../annotation'
+import type {
+    RosettaConstructor,
+    RosettaFunction,
+    RosettaOverload,
+} from '../../rosetta'
+
+/**
+ * Gets the parameters to write for a function declaration.
+ * Rosetta parameters take precedence over analyzed parameters.
+ * @param func The analyzed function.
+ * @param isMethod Flag for whether the function is a method. If so, a documented `self` parameter is excluded.
+ * @param rosettaFunc The Rosetta function associated with the analyzed function.
+ * @param allowAmbiguous Flag for whether to allow union types.
+ */
+export const getDeclarationParameters = (
+    func: AnalyzedFunction,
+    isMethod: boolean,
+    rosettaFunc:
+        | RosettaFunction
+        | RosettaConstructor
+        | RosettaOverload
+        | undefined,
+    allowAmbiguous: boolean,
+): DeclarationParameter[] => {
+    if (!rosettaFunc) {
+        return func.parameters.map((x) => ({
+            name: x.name,
+            type: getTypeString(x.types, allowAmbiguous),
+            optional: x.types.has('nil'),
+        }))
+    }
+
+    return (rosettaFunc.parameters ?? [])
+        .filter((x) => !isMethod || x.name !== 'self')
+        .map((x) => ({
+            name: x.name.trim(),
+            type: getRosettaTypeString(x.type, false, x.nullable),
+            optional: !!(x.optional || x.nullable),
+        }))
+}
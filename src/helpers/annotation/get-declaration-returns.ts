@@ -0,0 +1,34 @@
+import { getRosettaTypeString } from './get-rosetta-type-string'
+import { getTypeString } from './get-type-string'
+import type { AnalyzedFunction } from '../../analysis'
+import type {
+    RosettaConstructor,
+    RosettaFunction,
+    RosettaOverload,
+} from '../../rosetta'
+
+/**
+ * Gets the return type strings to write for a function declaration.
+ * Rosetta returns take precedence over analyzed returns.
+ * @param func The analyzed function.
+ * @param rosettaFunc The Rosetta function associated with the analyzed function.
+ * @param allowAmbiguous Flag for whether to allow union types.
+ */
+export const getDeclarationReturns = (
+    func: AnalyzedFunction,
+    rosettaFunc:
+        | RosettaFunction
+        | RosettaConstructor
+        | RosettaOverload
+        | undefined,
+    allowAmbiguous: boolean,
+): string[] => {
+    const rosettaReturns = (rosettaFunc as RosettaFunction | undefined)?.return
+    if (rosettaReturns) {
+        return rosettaReturns.map((x) =>
+            getRosettaTypeString(x.type, x.nullable),
+        )
+    }
+
+    return func.returnTypes.map((x) => getTypeString(x, allowAmbiguous))
+}
@@ -0,0 +1,49 @@
+import type { LiteralTableField } from '../../analysis'
+import type { EnumMember } from '../../annotation'
+
+/**
+ * Gets the names and values of the members of an enum table.
+ * Fields without a name or a number or string constant value are skipped.
+ * @param fields The fields of the table.
+ */
+export const getEnumMembers = (fields: LiteralTableField[]): EnumMember[] => {
+    const members: EnumMember[] = []
+    for (const field of fields) {
+        const key = field.key
+        const name =
+            key.type === 'string' || key.type === 'literal'
+                ? key.name
+                : undefined
+
+        if (!name) {
+            continue
+        }
+
+        let expr = field.value
+        let sign = ''
+        if (
+            expr.type === 'operation' &&
+            expr.operator === '-' &&
+            expr.arguments.length === 1
+        ) {
+            expr = expr.arguments[0]
+            sign = '-'
+        }
+
+        if (expr.type !== 'literal' || !expr.literal) {
+            continue
+        }
+
+        if (expr.luaType !== 'number' && expr.luaType !== 'string') {
+            continue
+        }
+
+        members.push({
+            name,
+            value: sign + expr.literal,
+            luaType: expr.luaType,
+        })
+    }
+
+    return members
+}
@@ -1,5 +1,8 @@
+import { normalizeTypeString } from '../type-expressions/normalize-type-string'
+
 /**
  * Gets a type string from Rosetta information.
+ * Well-formed types are normalized.
  * @param type The type to include in the string.
  * @param optional Whether the type should be marked as optional.
  * @param nullable Whether the type should be marked as nullable.
@@ -10,13 +13,5 @@ export const getRosettaTypeString = (
     optional: boolean | undefined,
     nullable?: boolean,
 ): string => {
-    type = (type ?? 'unknown').trim()
-
-    if (optional || nullable) {
-        return type.includes('|') || type.includes('fun(')
-            ? `(${type})?`
-            : `${type}?`
-    }
-
-    return type
+    return normalizeTypeString(type ?? 'unknown', optional || nullable)
 }
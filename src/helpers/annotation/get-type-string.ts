@@ -1,3 +1,5 @@
+import { normalizeTypeString } from '../type-expressions/normalize-type-string'
+
 /**
  * Gets a string representing a set of types.
  * @param types The set of types to convert to a string.
@@ -16,11 +18,5 @@ export const getTypeString = (
     }
 
     const type = types.size > 0 ? [...types].join(' | ') : 'unknown'
-    if (nullable) {
-        return type.includes('|') || type.startsWith('fun(')
-            ? `(${type})?`
-            : `${type}?`
-    }
-
-    return type
+    return normalizeTypeString(type, nullable)
 }
@@ -1,4 +1,7 @@
 export { containsLiteralTable } from './contains-literal-table'
+export { getDeclarationParameters } from './get-declaration-parameters'
+export { getDeclarationReturns } from './get-declaration-returns'
+export { getEnumMembers } from './get-enum-members'
 export { getExpressionString } from './get-expression-string'
 export { getFunctionAnnotation } from './get-function-annotation'
 export { getFunctionAnnotationFromExpression } from './get-function-annotation-from-expression'
@@ -0,0 +1,27 @@
+import { getSimilarity } from './get-similarity'
+
+/**
+ * Gets the similarity of two names, based on the pairs of adjacent characters they share.
+ * Case is ignored.
+ * @param a The first name.
+ * @param b The second name.
+ * @returns A number from 0 to 1, where 1 means the names are equal.
+ */
+export const getNameSimilarity = (a: string, b: string) => {
+    a = a.toLowerCase()
+    b = b.toLowerCase()
+    if (a === b) {
+        return 1
+    }
+
+    const getPairs = (name: string) => {
+        const pairs: string[] = []
+        for (let i = 0; i < name.length - 1; i++) {
+            pairs.push(name.slice(i, i + 2))
+        }
+
+        return pairs
+    }
+
+    return getSimilarity(getPairs(a), getPairs(b))
+}
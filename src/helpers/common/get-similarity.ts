@@ -0,0 +1,22 @@
+/**
+ * Gets the similarity of two collections of strings, as the Dice coefficient of their sets.
+ * @param a The first collection.
+ * @param b The second collection.
+ * @returns A number from 0 to 1, where 1 means the sets are equal. Two empty sets have a similarity of 0.
+ */
+export const getSimilarity = (a: Iterable<string>, b: Iterable<string>) => {
+    const setA = new Set(a)
+    const setB = new Set(b)
+    if (setA.size === 0 || setB.size === 0) {
+        return 0
+    }
+
+    let shared = 0
+    for (const value of setA) {
+        if (setB.has(value)) {
+            shared++
+        }
+    }
+
+    return (2 * shared) / (setA.size + setB.size)
+}
@@ -0,0 +1,226 @@
+/**
+ * An operation in a line diff.
+ */
+type DiffOp = [op: ' ' | '-' | '+', line: string]
+
+/**
+ * The maximum number of added and removed lines to search for a minimal diff.
+ * This bounds the memory used by the search, which grows with the square of the distance.
+ */
+const MAX_EDIT_DISTANCE = 1000
+
+/**
+ * Splits text into lines, ignoring a trailing newline.
+ * @param text The text to split.
+ */
+const splitLines = (text: string | undefined): string[] => {
+    if (!text) {
+        return []
+    }
+
+    const lines = text.split(/\r?\n/)
+    if (lines[lines.length - 1] === '') {
+        lines.pop()
+    }
+
+    return lines
+}
+
+/**
+ * Gets the operations that remove all of the original lines and then add all of the new lines.
+ * @param a The original lines.
+ * @param b The new lines.
+ */
+const replaceLines = (a: string[], b: string[]): DiffOp[] => {
+    return [
+        ...a.map((x): DiffOp => ['-', x]),
+        ...b.map((x): DiffOp => ['+', x]),
+    ]
+}
+
+/**
+ * Gets the shortest list of operations that transforms one list of lines into another.
+ * This uses the Myers diff algorithm.
+ * If the lists differ by more than the maximum edit distance, all of the original lines are
+ * removed and all of the new lines are added instead.
+ * @param a The original lines.
+ * @param b The new lines.
+ */
+const searchLines = (a: string[], b: string[]): DiffOp[] => {
+    const n = a.length
+    const m = b.length
+    if (n === 0 || m === 0) {
+        return replaceLines(a, b)
+    }
+
+    // only the diagonals reachable at each distance are kept in the trace
+    const offset = n + m + 1
+    const trace: Int32Array[] = []
+    const v = new Int32Array(2 * offset + 1)
+    let found = false
+    for (let d = 0; d <= n + m && !found; d++) {
+        if (d > MAX_EDIT_DISTANCE) {
+            return replaceLines(a, b)
+        }
+
+        trace.push(v.slice(offset - d, offset + d + 1))
+
+        for (let k = -d; k <= d; k += 2) {
+            const down =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+            let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1
+            let y = x - k
+            while (x < n && y < m && a[x] === b[y]) {
+                x++
+                y++
+            }
+
+            v[offset + k] = x
+            if (x >= n && y >= m) {
+                found = true
+                break
+            }
+        }
+    }
+
+    const ops: DiffOp[] = []
+    let x = n
+    let y = m
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const prev = trace[d]
+        const k = x - y
+        const down = k === -d || (k !== d && prev[k - 1 + d] < prev[k + 1 + d])
+
+        const prevK = down ? k + 1 : k - 1
+        const prevX = d === 0 ? 0 : prev[prevK + d]
+        const prevY = d === 0 ? 0 : prevX - prevK
+
+        while (x > prevX && y > prevY) {
+            ops.push([' ', a[x - 1]])
+            x--
+            y--
+        }
+
+        if (d > 0) {
+            if (x === prevX) {
+                ops.push(['+', b[y - 1]])
+            } else {
+                ops.push(['-', a[x - 1]])
+            }
+        }
+
+        x = prevX
+        y = prevY
+    }
+
+    return ops.reverse()
+}
+
+/**
+ * Gets the list of operations that transforms one list of lines into another.
+ * Unchanged lines at the start and end are matched before searching the rest.
+ * @param a The original lines.
+ * @param b The new lines.
+ */
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++
+    }
+
+    let endA = a.length
+    let endB = b.length
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--
+        endB--
+    }
+
+    return [
+        ...a.slice(0, start).map((x): DiffOp => [' ', x]),
+        ...searchLines(a.slice(start, endA), b.slice(start, endB)),
+        ...a.slice(endA).map((x): DiffOp => [' ', x]),
+    ]
+}
+
+/**
+ * Gets a unified diff of two versions of a file.
+ * @param oldText The original content, or `undefined` if the file is new.
+ * @param newText The new content, or `undefined` if the file was deleted.
+ * @param oldName The name to include for the original file.
+ * @param newName The name to include for the new file.
+ * @param context The number of unchanged lines to include around changes.
+ * @returns The diff, or an empty string if the content is unchanged.
+ */
+export const getUnifiedDiff = (
+    oldText: string | undefined,
+    newText: string | undefined,
+    oldName: string,
+    newName: string,
+    context = 3,
+): string => {
+    const ops = diffLines(splitLines(oldText), splitLines(newText))
+    if (ops.every((x) => x[0] === ' ')) {
+        return ''
+    }
+
+    // line positions before each operation
+    const oldPositions: number[] = []
+    const newPositions: number[] = []
+    let oldPos = 0
+    let newPos = 0
+    for (const [op] of ops) {
+        oldPositions.push(oldPos)
+        newPositions.push(newPos)
+        oldPos += op === '+' ? 0 : 1
+        newPos += op === '-' ? 0 : 1
+    }
+
+    const out = [
+        `--- ${oldText === undefined ? '/dev/null' : oldName}`,
+        `+++ ${newText === undefined ? '/dev/null' : newName}`,
+    ]
+
+    let i = 0
+    while (i < ops.length) {
+        if (ops[i][0] === ' ') {
+            i++
+            continue
+        }
+
+        // extend the hunk while the gaps between changes are small
+        let end = i
+        let j = i + 1
+        while (j < ops.length) {
+            if (ops[j][0] !== ' ') {
+                end = j++
+                continue
+            }
+
+            let gap = 0
+            while (j + gap < ops.length && ops[j + gap][0] === ' ') {
+                gap++
+            }
+
+            if (j + gap >= ops.length || gap > context * 2) {
+                break
+            }
+
+            j += gap
+        }
+
+        const start = Math.max(0, i - context)
+        const stop = Math.min(ops.length, end + context + 1)
+        const hunk = ops.slice(start, stop)
+        const oldCount = hunk.filter((x) => x[0] !== '+').length
+        const newCount = hunk.filter((x) => x[0] !== '-').length
+        const oldStart = oldPositions[start] + (oldCount > 0 ? 1 : 0)
+        const newStart = newPositions[start] + (newCount > 0 ? 1 : 0)
+
+        out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+        out.push(...hunk.map(([op, line]) => op + line))
+
+        i = stop
+    }
+
+    return out.join('\n')
+}
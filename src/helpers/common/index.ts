@@ -6,7 +6,12 @@ export { getAliases } from './get-aliases'
 export { getLiteralKey } from './get-literal-key'
 export { getFileIdentifier } from './get-file-identifier'
 export { getLuaFieldKey } from './get-lua-field-key'
+export { getNameSimilarity } from './get-name-similarity'
+export { getSimilarity } from './get-similarity'
+export { getUnifiedDiff } from './get-unified-diff'
+export { mergeYamlDocument } from './merge-yaml-document'
 export { readFileContents } from './read-file-contents'
+export { readHeuristicsFile } from './read-heuristics-file'
 export { readLuaStringLiteral } from './read-lua-string-literal'
 export { removeUndefinedOrEmpty } from './remove-undefined-or-empty'
 export { time } from './time'
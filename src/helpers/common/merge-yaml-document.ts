@@ -0,0 +1,434 @@
+import YAML from 'yaml'
+import type { Document, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml'
+
+/**
+ * The default line width used for YAML output.
+ */
+const DEFAULT_LINE_WIDTH = 80
+
+/**
+ * State for merging new data into a YAML document.
+ */
+interface MergeState {
+    /**
+     * The YAML document.
+     */
+    doc: Document
+
+    /**
+     * Flag for whether any node was added, removed, or changed.
+     */
+    changed: boolean
+
+    /**
+     * Scalars with values that were changed.
+     */
+    changedScalars: Set<Scalar>
+}
+
+/**
+ * The source of a folded block scalar.
+ */
+interface FoldedScalarSource {
+    /**
+     * The block scalar header, such as `>-`, with any comment following it.
+     */
+    header: string
+
+    /**
+     * The content lines of the scalar.
+     */
+    content: string[]
+
+    /**
+     * The indentation of the line the scalar starts on.
+     */
+    indent: number
+}
+
+/**
+ * Checks whether a value is a plain object.
+ * @param value The value to check.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Collapses the whitespace before a trailing comment in a line.
+ * @param line The line to normalize.
+ */
+const normalizeCommentSpacing = (line: string): string => {
+    return line.replace(/\s+#/, ' #')
+}
+
+/**
+ * Gets the number of spaces at the start of a line.
+ * @param line The line.
+ */
+const getIndent = (line: string): number => {
+    return /^ */.exec(line)![0].length
+}
+
+/**
+ * Gets the key of a YAML pair as a string.
+ * @param pair The pair.
+ */
+const getKey = (pair: Pair): string | undefined => {
+    return YAML.isScalar(pair.key) ? String(pair.key.value) : undefined
+}
+
+/**
+ * Sets the items of a YAML collection, marking the state as changed if they differ.
+ * @param state The merge state.
+ * @param node The existing collection.
+ * @param items The new items.
+ */
+const setItems = <T>(state: MergeState, node: { items: T[] }, items: T[]) => {
+    if (
+        items.length !== node.items.length ||
+        items.some((x, i) => x !== node.items[i])
+    ) {
+        state.changed = true
+    }
+
+    node.items = items
+}
+
+/**
+ * Updates a YAML node to match a value, keeping unchanged nodes as-is.
+ * Scalars are compared by their string form, so that `1.1` is unchanged by `"1.1"`.
+ * @param state The merge state.
+ * @param node The existing node.
+ * @param value The new value.
+ * @returns The updated node, or a new node if the existing one couldn't be updated.
+ */
+const mergeNode = (
+    state: MergeState,
+    node: unknown,
+    value: unknown,
+): unknown => {
+    if (isRecord(value) && YAML.isMap(node)) {
+        mergeMap(state, node, value)
+        return node
+    }
+
+    if (Array.isArray(value) && YAML.isSeq(node)) {
+        mergeSeq(state, node, value)
+        return node
+    }
+
+    if (YAML.isScalar(node) && typeof value !== 'object') {
+        if (String(node.value) !== String(value)) {
+            node.value = value
+            state.changed = true
+            state.changedScalars.add(node)
+        }
+
+        return node
+    }
+
+    state.changed = true
+    return state.doc.createNode(value)
+}
+
+/**
+ * Updates a YAML map to match an object.
+ * Keys that are no longer present are removed, and new keys are inserted after the preceding key.
+ * @param state The merge state.
+ * @param node The existing map.
+ * @param value The new object.
+ */
+const mergeMap = (
+    state: MergeState,
+    node: YAMLMap,
+    value: Record<string, unknown>,
+) => {
+    const items = node.items.filter((pair) => {
+        const key = getKey(pair)
+        return key !== undefined && value[key] !== undefined
+    })
+
+    setItems(state, node, items)
+
+    let index = -1
+    for (const [key, child] of Object.entries(value)) {
+        if (child === undefined) {
+            continue
+        }
+
+        const existing = node.items.findIndex((x) => getKey(x) === key)
+        if (existing === -1) {
+            node.items.splice(++index, 0, state.doc.createPair(key, child))
+            state.changed = true
+            continue
+        }
+
+        const pair = node.items[existing]
+        pair.value = mergeNode(state, pair.value, child)
+        index = existing
+    }
+}
+
+/**
+ * Updates a YAML sequence to match an array.
+ * Items of arrays of named objects, such as functions and parameters, are matched by name.
+ * Renamed items and items of other arrays are matched by position.
+ * @param state The merge state.
+ * @param node The existing sequence.
+ * @param value The new array.
+ */
+const mergeSeq = (state: MergeState, node: YAMLSeq, value: unknown[]) => {
+    const isNamed = value.every(
+        (x) => isRecord(x) && typeof x.name === 'string',
+    )
+    if (!isNamed) {
+        const items = value.map((x, i) =>
+            i < node.items.length
+                ? mergeNode(state, node.items[i], x)
+                : state.doc.createNode(x),
+        )
+
+        setItems(state, node, items)
+        return
+    }
+
+    const named = new Map<string, YAMLMap>()
+    for (const item of node.items) {
+        const name = YAML.isMap(item) ? item.get('name') : undefined
+        if (typeof name === 'string' && !named.has(name)) {
+            named.set(name, item as YAMLMap)
+        }
+    }
+
+    const names = new Set(value.map((x) => (x as Record<string, string>).name))
+    const items = value.map((x, i) => {
+        let existing = named.get((x as Record<string, string>).name)
+        if (!existing) {
+            // treat an item with a name that no longer exists as renamed
+            const item = node.items[i]
+            const name = YAML.isMap(item) ? item.get('name') : undefined
+            if (typeof name === 'string' && !names.has(name)) {
+                existing = item as YAMLMap
+            }
+        }
+
+        return existing
+            ? mergeNode(state, existing, x)
+            : state.doc.createNode(x)
+    })
+
+    setItems(state, node, items)
+}
+
+/**
+ * Checks whether the source of a document pads flow collections with spaces, as in `[ a, b ]`.
+ * @param doc The YAML document.
+ * @param source The source of the document.
+ */
+const hasFlowCollectionPadding = (doc: Document, source: string): boolean => {
+    let isPadded = false
+    const check = (node: YAMLMap | YAMLSeq) => {
+        const range = node.range
+        if (node.flow && range && node.items.length > 0) {
+            isPadded = /^[[{]\s/.test(source.slice(range[0], range[1]))
+            return YAML.visit.BREAK
+        }
+    }
+
+    YAML.visit(doc, {
+        Map: (_, node) => check(node),
+        Seq: (_, node) => check(node),
+    })
+
+    return isPadded
+}
+
+/**
+ * Replaces unchanged folded block scalars with placeholders, so that their source can be restored after writing.
+ * The YAML library refolds these scalars to the line width, which would change unchanged lines.
+ * @param state The merge state.
+ * @param source The source of the document.
+ * @returns A map of placeholders to the source of the scalars they replaced.
+ */
+const replaceFoldedScalars = (
+    state: MergeState,
+    source: string,
+): Map<string, FoldedScalarSource> => {
+    let prefix = '__folded'
+    while (source.includes(prefix)) {
+        prefix += '_'
+    }
+
+    const placeholders = new Map<string, FoldedScalarSource>()
+    YAML.visit(state.doc, {
+        Scalar(_, node) {
+            const range = node.range
+            if (
+                node.type !== 'BLOCK_FOLDED' ||
+                !range ||
+                state.changedScalars.has(node)
+            ) {
+                return
+            }
+
+            const text = source.slice(range[0], range[1])
+            const [header, ...content] = text
+                .replace(/\r?\n$/, '')
+                .split(/\r?\n/)
+
+            // trailing lines kept by the `+` indicator can't be restored reliably
+            if (header.includes('+')) {
+                return
+            }
+
+            const lineStart = source.lastIndexOf('\n', range[0] - 1) + 1
+            const indent = getIndent(source.slice(lineStart, range[0]))
+
+            const placeholder = `${prefix}${placeholders.size}__`
+            placeholders.set(placeholder, { header, content, indent })
+            node.value = placeholder
+            node.type = 'PLAIN'
+            delete node.comment
+        },
+    })
+
+    return placeholders
+}
+
+/**
+ * Restores the source of folded block scalars which were replaced with placeholders.
+ * Scalar content is reindented to match the indentation of the line it's written on.
+ * @param out The written document.
+ * @param placeholders A map of placeholders to the source of the scalars they replaced.
+ */
+const restoreFoldedScalars = (
+    out: string,
+    placeholders: Map<string, FoldedScalarSource>,
+): string => {
+    if (placeholders.size === 0) {
+        return out
+    }
+
+    return out
+        .split('\n')
+        .map((line) => {
+            const match = /\S+$/.exec(line)
+            const original = match ? placeholders.get(match[0]) : undefined
+            if (!match || !original) {
+                return line
+            }
+
+            const delta = getIndent(line) - original.indent
+            const content = original.content.map((x) => {
+                if (delta >= 0) {
+                    return x.trim() ? ' '.repeat(delta) + x : x
+                }
+
+                return x.slice(Math.min(-delta, getIndent(x)))
+            })
+
+            const header = line.slice(0, match.index) + original.header
+            return [header, ...content].join('\n')
+        })
+        .join('\n')
+}
+
+/**
+ * Gets the line width to use when writing a document.
+ * Folded scalars are kept at the default width.
+ * If there are no folded scalars and the source has long lines, lines are not folded.
+ * @param doc The YAML document.
+ * @param source The source of the document.
+ */
+const getLineWidth = (doc: Document, source: string): number => {
+    let isFolded = false
+    YAML.visit(doc, {
+        Scalar(_, node) {
+            const range = node.range
+            const isBlock =
+                node.type === 'BLOCK_FOLDED' || node.type === 'BLOCK_LITERAL'
+
+            if (
+                !isBlock &&
+                range &&
+                source.slice(range[0], range[1]).includes('\n')
+            ) {
+                isFolded = true
+                return YAML.visit.BREAK
+            }
+        },
+    })
+
+    if (isFolded) {
+        return DEFAULT_LINE_WIDTH
+    }
+
+    const hasLongLines = source
+        .split('\n')
+        .some((x) => x.trimEnd().length > DEFAULT_LINE_WIDTH)
+
+    return hasLongLines ? 0 : DEFAULT_LINE_WIDTH
+}
+
+/**
+ * Restores the original comment spacing of unchanged lines.
+ * The YAML library writes a single space before trailing comments.
+ * @param source The source of the document.
+ * @param out The written document.
+ */
+const restoreCommentSpacing = (source: string, out: string): string => {
+    const original = new Map<string, string>()
+    for (const line of source.split(/\r?\n/)) {
+        if (line.includes('#')) {
+            const key = normalizeCommentSpacing(line)
+            if (!original.has(key)) {
+                original.set(key, line)
+            }
+        }
+    }
+
+    return out
+        .split('\n')
+        .map((x) => (x.includes('#') ? (original.get(x) ?? x) : x))
+        .join('\n')
+}
+
+/**
+ * Updates the content of a YAML document to match new data.
+ * Comments, key order, quoting, and block style are kept for nodes that are unchanged.
+ * If nothing changed, the source is returned as-is.
+ * @param source The source of the existing YAML document.
+ * @param data The new data for the document.
+ * @returns The updated YAML, or `undefined` if the source couldn't be parsed.
+ */
+export const mergeYamlDocument = (
+    source: string,
+    data: unknown,
+): string | undefined => {
+    const doc = YAML.parseDocument(source)
+    if (doc.errors.length > 0) {
+        return
+    }
+
+    const state: MergeState = {
+        doc,
+        changed: false,
+        changedScalars: new Set(),
+    }
+
+    doc.contents = mergeNode(state, doc.contents, data) as typeof doc.contents
+    if (!state.changed) {
+        return source
+    }
+
+    const lineWidth = getLineWidth(doc, source)
+    const flowCollectionPadding = hasFlowCollectionPadding(doc, source)
+    const placeholders = replaceFoldedScalars(state, source)
+
+    const out = doc.toString({ lineWidth, flowCollectionPadding })
+    return restoreFoldedScalars(
+        restoreCommentSpacing(source, out),
+        placeholders,
+    )
+}
@@ -0,0 +1,76 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import type { HeuristicRule, HeuristicRules } from '../../analysis'
+import { expect, expectField } from './expect'
+import { Logger as log } from './Logger'
+
+/**
+ * The path of the file containing the default heuristic rules.
+ */
+const DEFAULT_HEURISTICS_PATH = path.join(
+    __dirname,
+    '../../../__heuristics.yml',
+)
+
+/**
+ * Checks that a list of heuristic rules is valid.
+ * @param rules The list of rules.
+ * @param name The name of the list for error messages.
+ */
+const checkRules = (rules: HeuristicRule[], name: string) => {
+    for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i]
+        const desc = `rule at index ${i} of ${name}`
+        expect(rule, 'object', desc)
+
+        expectField(rule, 'name', 'string', false)
+        expectField(rule, 'types', 'array', false)
+        expectField(rule, 'ignoreCase', 'boolean')
+        expectField(rule, 'function', 'string')
+        expectField(rule, 'existingTypes', 'array')
+        expectField(rule, 'includesTypes', 'array')
+        expectField(rule, 'siblings', 'array')
+        expectField(rule, 'minimumSiblings', 'number')
+
+        // throws on invalid patterns
+        new RegExp(rule.name)
+        if (rule.function !== undefined) {
+            new RegExp(rule.function)
+        }
+    }
+}
+
+/**
+ * Reads heuristic rules from a YAML or JSON file.
+ * Errors reading the default rules are logged, while errors reading a given file are thrown.
+ * @param filePath The path of the file. If this is not given, the default rules are read.
+ * @returns The rules, or `undefined` if the default rules couldn't be read.
+ */
+export const readHeuristicsFile = (
+    filePath?: string,
+): HeuristicRules | undefined => {
+    const resolved = path.resolve(filePath ?? DEFAULT_HEURISTICS_PATH)
+
+    try {
+        const content = fs.readFileSync(resolved, 'utf-8')
+        const rules: HeuristicRules = resolved.toLowerCase().endsWith('.json')
+            ? JSON.parse(content)
+            : YAML.parse(content)
+
+        expect(rules, 'object', 'heuristic rules')
+        for (const key of ['analysis', 'rosetta'] as const) {
+            if (expectField(rules, key, 'array')) {
+                checkRules(rules[key]!, key)
+            }
+        }
+
+        return rules
+    } catch (e) {
+        if (filePath !== undefined) {
+            throw e
+        }
+
+        log.error(`Failed to read heuristics file '${resolved}': ${e}`)
+    }
+}
@@ -3,7 +3,7 @@ import { convertAnalyzedConstructors } from './convert-analyzed-constructors'
 import { convertAnalyzedFields } from './convert-analyzed-fields'
 import { convertAnalyzedFunctions } from './convert-analyzed-functions'
 import { convertAnalyzedOverloads } from './convert-analyzed-overloads'
-import type { AnalyzedClass } from '../../analysis'
+import type { AnalyzedClass, HeuristicRule } from '../../analysis'
 import type { RosettaClass, WritableRosettaClass } from '../../rosetta'
 
 /**
@@ -11,59 +11,60 @@ import type { RosettaClass, WritableRosettaClass } from '../../rosetta'
  * @param cls The analyzed class to convert.
  * @param mergeCls An existing Rosetta class to merge with the analyzed class.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedClass = (
     cls: AnalyzedClass,
     mergeCls?: RosettaClass,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): WritableRosettaClass => {
     const rosettaCls: WritableRosettaClass = {
         name: cls.name,
         extends: mergeCls?.extends?.includes(',')
             ? mergeCls.extends
             : (cls.extends ?? mergeCls?.extends),
+        generics: mergeCls?.generics,
         deprecated: mergeCls?.deprecated,
         mutable: mergeCls?.mutable,
         local: cls.local ? true : undefined,
-        notes: mergeCls?.notes,
+        notes: mergeCls?.notes || cls.description,
         tags: mergeCls?.tags,
         constructors: convertAnalyzedConstructors(
             cls.constructors,
             mergeCls?.constructors,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         staticFields: convertAnalyzedFields(
             [...cls.staticFields, ...cls.setterFields],
             mergeCls?.staticFields,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         fields: convertAnalyzedFields(
             cls.fields,
             mergeCls?.fields,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         overloads: convertAnalyzedOverloads(
             cls.overloads,
             mergeCls?.overloads,
-            applyHeuristics,
+            heuristics,
         ),
         operators: mergeCls?.operators,
         methods: convertAnalyzedFunctions(
             cls.methods,
             mergeCls?.methods,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         staticMethods: convertAnalyzedFunctions(
             [...cls.functions, ...cls.functionConstructors],
             mergeCls?.staticMethods,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
     }
 
@@ -1,5 +1,5 @@
 import { convertAnalyzedParameters } from './convert-analyzed-parameters'
-import type { AnalyzedFunction } from '../../analysis'
+import type { AnalyzedFunction, HeuristicRule } from '../../analysis'
 import type { RosettaConstructor } from '../../rosetta'
 
 /**
@@ -7,13 +7,13 @@ import type { RosettaConstructor } from '../../rosetta'
  * @param constructors The list of constructors to convert.
  * @param mergeConstructors The existing constructors from Rosetta to merge.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedConstructors = (
     constructors: AnalyzedFunction[],
     mergeConstructors?: RosettaConstructor[],
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): RosettaConstructor[] => {
     const converted = constructors.map((x, i): RosettaConstructor => {
         const cons: RosettaConstructor = {}
@@ -23,8 +23,9 @@ export const convertAnalyzedConstructors = (
             cons.deprecated = true
         }
 
-        if (mergeCons?.notes) {
-            cons.notes = mergeCons.notes
+        const notes = mergeCons?.notes || x.description
+        if (notes) {
+            cons.notes = notes
         }
 
         if (x.parameters.length > 0) {
@@ -32,13 +33,17 @@ export const convertAnalyzedConstructors = (
                 x.parameters,
                 mergeCons?.parameters,
                 keepTypes,
-                applyHeuristics,
+                heuristics,
                 'new',
             )
         } else if (mergeCons?.parameters && mergeCons.parameters.length > 0) {
             cons.parameters = mergeCons.parameters
         }
 
+        if (mergeCons?.tags && mergeCons.tags.length > 0) {
+            cons.tags = mergeCons.tags
+        }
+
         return cons
     })
 
@@ -1,4 +1,4 @@
-import { AnalyzedField } from '../../analysis'
+import { AnalyzedField, HeuristicRule } from '../../analysis'
 import { RosettaField } from '../../rosetta'
 import { expressionToDefaultValue } from '../common/expression-to-default-value'
 import { removeUndefinedOrEmpty } from '../common/remove-undefined-or-empty'
@@ -10,18 +10,18 @@ import { getHeuristicTypes } from './get-heuristic-types'
  * @param field The analyzed field to convert.
  * @param mergeField An existing Rosetta field to merge with the analyzed field.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedField = (
     field: AnalyzedField,
     mergeField?: RosettaField,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): RosettaField => {
     const rosettaField: RosettaField = {}
 
-    const fieldTypes = applyHeuristics
-        ? getHeuristicTypes(field.name, field.types)
+    const fieldTypes = heuristics
+        ? getHeuristicTypes(heuristics, field.name, field.types)
         : field.types
 
     const [type, nullable] = convertAnalyzedTypes(fieldTypes)
@@ -56,6 +56,7 @@ export const convertAnalyzedField = (
     }
 
     rosettaField.notes = mergeField?.notes
+    rosettaField.deprecated = mergeField?.deprecated
     rosettaField.tags = mergeField?.tags
     rosettaField.defaultValue = defaultValue
 
@@ -1,5 +1,5 @@
 import { convertAnalyzedField } from './convert-analyzed-field'
-import type { AnalyzedField } from '../../analysis'
+import type { AnalyzedField, HeuristicRule } from '../../analysis'
 import type { RosettaField } from '../../rosetta'
 
 /**
@@ -7,13 +7,13 @@ import type { RosettaField } from '../../rosetta'
  * @param fields The analyzed fields to convert.
  * @param mergeFields Existing Rosetta fields to merge with the analyzed fields.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedFields = (
     fields: AnalyzedField[],
     mergeFields?: Record<string, RosettaField>,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): Record<string, RosettaField> => {
     const converted = fields
         .map((x): [string, RosettaField] => [
@@ -22,7 +22,7 @@ export const convertAnalyzedFields = (
                 x,
                 mergeFields?.[x.name],
                 keepTypes,
-                applyHeuristics,
+                heuristics,
             ),
         ])
         .reduce<Record<string, RosettaField>>((rec, value) => {
@@ -1,7 +1,7 @@
 import { removeUndefinedOrEmpty } from '../common/remove-undefined-or-empty'
 import { convertAnalyzedParameters } from './convert-analyzed-parameters'
 import { convertAnalyzedReturns } from './convert-analyzed-returns'
-import type { AnalyzedFunction } from '../../analysis'
+import type { AnalyzedFunction, HeuristicRule } from '../../analysis'
 import type { RosettaFunction } from '../../rosetta'
 
 /**
@@ -9,24 +9,24 @@ import type { RosettaFunction } from '../../rosetta'
  * @param func The analyzed function to convert.
  * @param mergeFunc An existing Rosetta function to merge with the analyzed function.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedFunction = (
     func: AnalyzedFunction,
     mergeFunc?: RosettaFunction,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): RosettaFunction => {
     const rosettaFunc: RosettaFunction = {
         name: func.name,
         deprecated: mergeFunc?.deprecated,
-        notes: mergeFunc?.notes,
+        notes: mergeFunc?.notes || func.description,
         tags: mergeFunc?.tags,
         parameters: convertAnalyzedParameters(
             func.parameters,
             mergeFunc?.parameters,
             keepTypes,
-            applyHeuristics,
+            heuristics,
             func.name,
         ),
         return: convertAnalyzedReturns(
@@ -34,6 +34,7 @@ export const convertAnalyzedFunction = (
             mergeFunc?.return,
             keepTypes,
         ),
+        generics: mergeFunc?.generics,
         overloads: mergeFunc?.overloads,
     }
 
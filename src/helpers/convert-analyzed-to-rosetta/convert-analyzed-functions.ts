@@ -1,5 +1,5 @@
 import { convertAnalyzedFunction } from './convert-analyzed-function'
-import type { AnalyzedFunction } from '../../analysis'
+import type { AnalyzedFunction, HeuristicRule } from '../../analysis'
 import type { RosettaFunction } from '../../rosetta'
 
 /**
@@ -7,20 +7,20 @@ import type { RosettaFunction } from '../../rosetta'
  * @param functions The analyzed functions to convert.
  * @param mergeFunctions Existing Rosetta functions to merge with the analyzed functions.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedFunctions = (
     functions: AnalyzedFunction[],
     mergeFunctions?: Record<string, RosettaFunction>,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): RosettaFunction[] => {
     const converted = functions.map((x) =>
         convertAnalyzedFunction(
             x,
             mergeFunctions?.[x.name],
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
     )
 
@@ -1,18 +1,18 @@
 import { convertAnalyzedParameters } from './convert-analyzed-parameters'
 import { convertAnalyzedReturns } from './convert-analyzed-returns'
-import type { AnalyzedFunction } from '../../analysis'
+import type { AnalyzedFunction, HeuristicRule } from '../../analysis'
 import type { RosettaOverload } from '../../rosetta'
 
 /**
  * Converts a list of overloads into a list to be written to a Rosetta file.
  * @param overloads The analyzed overloads to convert.
  * @param existingOverloads Existing Rosetta overloads. These will be used instead of the analyzed overloads if given.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedOverloads = (
     overloads: AnalyzedFunction[],
     existingOverloads?: RosettaOverload[],
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): RosettaOverload[] => {
     if (existingOverloads) {
         return existingOverloads
@@ -26,7 +26,7 @@ export const convertAnalyzedOverloads = (
                 x.parameters,
                 undefined,
                 false,
-                applyHeuristics,
+                heuristics,
             )
         }
 
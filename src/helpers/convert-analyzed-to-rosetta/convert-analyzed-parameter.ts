@@ -2,27 +2,35 @@ import { convertAnalyzedTypes } from './convert-analyzed-types'
 import { removeUndefinedOrEmpty } from '../common/remove-undefined-or-empty'
 import { getHeuristicTypes } from './get-heuristic-types'
 import type { RosettaParameter } from '../../rosetta'
-import type { AnalyzedParameter } from '../../analysis'
+import type { AnalyzedParameter, HeuristicRule } from '../../analysis'
 
 /**
  * Converts an analyzed parameter into an object to be written to a Rosetta file.
  * @param param The analyzed parameter to convert.
  * @param mergeParam An existing Rosetta parameter to merge with the analyzed parameter.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  * @param funcName The name of the function that contains the parameter.
+ * @param parameterNames The names of the parameters of the function that contains the parameter.
  */
 export const convertAnalyzedParameter = (
     param: AnalyzedParameter,
     mergeParam?: RosettaParameter,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
     funcName?: string,
+    parameterNames?: string[],
 ): RosettaParameter => {
     const rosettaParam: RosettaParameter = { name: param.name }
 
-    const paramTypes = applyHeuristics
-        ? getHeuristicTypes(param.name, param.types, funcName)
+    const paramTypes = heuristics
+        ? getHeuristicTypes(
+              heuristics,
+              param.name,
+              param.types,
+              funcName,
+              parameterNames,
+          )
         : param.types
 
     const [type, nullable] = convertAnalyzedTypes(paramTypes)
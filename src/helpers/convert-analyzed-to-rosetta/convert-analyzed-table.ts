@@ -2,7 +2,7 @@ import { removeUndefinedOrEmpty } from '../common/remove-undefined-or-empty'
 import { convertAnalyzedFields } from './convert-analyzed-fields'
 import { convertAnalyzedFunctions } from './convert-analyzed-functions'
 import { convertAnalyzedOverloads } from './convert-analyzed-overloads'
-import type { AnalyzedTable } from '../../analysis'
+import type { AnalyzedTable, HeuristicRule } from '../../analysis'
 import type { RosettaTable, WritableRosettaTable } from '../../rosetta'
 
 /**
@@ -10,44 +10,44 @@ import type { RosettaTable, WritableRosettaTable } from '../../rosetta'
  * @param table The analyzed table to convert.
  * @param mergeTable Existing Rosetta table to merge with the analyzed table.
  * @param keepTypes Flag for whether Rosetta types should be kept.
- * @param applyHeuristics Flag for whether type resolution heuristics should be applied.
+ * @param heuristics Rules for assigning types based on names, if heuristics are enabled.
  */
 export const convertAnalyzedTable = (
     table: AnalyzedTable,
     mergeTable?: RosettaTable,
     keepTypes?: boolean,
-    applyHeuristics?: boolean,
+    heuristics?: HeuristicRule[],
 ): WritableRosettaTable => {
     const rosettaTable: WritableRosettaTable = {
         name: table.name,
         deprecated: mergeTable?.deprecated,
         mutable: mergeTable?.mutable,
         local: table.local ? true : undefined,
-        notes: mergeTable?.notes,
+        notes: mergeTable?.notes || table.description,
         tags: mergeTable?.tags,
         staticFields: convertAnalyzedFields(
             table.staticFields,
             mergeTable?.staticFields,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         overloads: convertAnalyzedOverloads(
             table.overloads,
             mergeTable?.overloads,
-            applyHeuristics,
+            heuristics,
         ),
         operators: mergeTable?.operators,
         methods: convertAnalyzedFunctions(
             table.methods,
             mergeTable?.methods,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
         staticMethods: convertAnalyzedFunctions(
             table.functions,
             mergeTable?.staticMethods,
             keepTypes,
-            applyHeuristics,
+            heuristics,
         ),
     }
 
@@ -1,106 +1,37 @@
+import type { HeuristicRule } from '../../analysis'
+import { findHeuristicRule } from '../analysis/find-heuristic-rule'
+
 /**
  * Gets the types to use for a Rosetta field or parameter based on name heuristics.
+ * @param rules The heuristic rules to apply.
  * @param name The name of the field or parameter.
  * @param types The set of types.
  * @param containerName The name of the function containing a parameter.
+ * @param parameterNames The names of the parameters of the function containing a parameter.
  */
 export const getHeuristicTypes = (
+    rules: HeuristicRule[],
     name: string,
     types: Set<string>,
     containerName?: string,
+    parameterNames?: string[],
 ): Set<string> => {
-    const checkTypes = new Set(types)
-    const nullable = checkTypes.delete('nil')
-
-    if (name.startsWith('_')) {
-        name = name.slice(1)
-    }
-
-    const heuristicTypes = new Set<string>()
-    switch (name.toUpperCase()) {
-        case 'OBJ':
-            if (checkTypes.size === 0) {
-                heuristicTypes.add('IsoObject')
-            }
-
-            break
-
-        case 'CONTEXT':
-            heuristicTypes.add('ISContextMenu')
-            break
-
-        case 'BUTTON':
-            if (!containerName) {
-                break
-            }
-
-            if (containerName?.includes('onJoypad')) {
-                heuristicTypes.add('integer')
-            } else {
-                heuristicTypes.add('ISButton')
-            }
-
-            break
-
-        case 'JOYPADINDEX':
-            heuristicTypes.add('integer')
-            break
-
-        case 'TITLEBARBKG':
-            heuristicTypes.add('Texture')
-            break
-
-        case 'DOOR':
-            heuristicTypes.add('IsoDoor')
-            heuristicTypes.add('IsoThumpable')
-            break
-
-        case 'JOYPADDATA':
-            heuristicTypes.add('JoypadData')
-            break
-
-        case 'PLAYEROBJ':
-            heuristicTypes.add('IsoPlayer')
-            break
-
-        case 'WORLDOBJECTS':
-            heuristicTypes.add('IsoObject[]')
-            break
-
-        case 'THUMPABLE':
-            heuristicTypes.add('IsoThumpable')
-            break
-
-        case 'SQ':
-        case 'SQUARE':
-            heuristicTypes.add('IsoGridSquare')
-            break
-
-        case 'DEL':
-        case 'DELTA':
-            heuristicTypes.add('number')
-            break
-
-        case 'PLAYERNUM':
-        case 'PLAYERID':
-            heuristicTypes.add('integer')
-            break
-
-        case 'KEY':
-            if (checkTypes.size === 0 || checkTypes.has('number')) {
-                heuristicTypes.add('integer')
-            }
-
-            break
+    const rule = findHeuristicRule(
+        rules,
+        name,
+        types,
+        containerName,
+        parameterNames,
+    )
+
+    if (!rule || rule.types.length === 0) {
+        return types
     }
 
-    if (heuristicTypes.size > 0) {
-        if (nullable) {
-            heuristicTypes.add('nil')
-        }
-
-        return heuristicTypes
+    const heuristicTypes = new Set(rule.types)
+    if (types.has('nil')) {
+        heuristicTypes.add('nil')
     }
 
-    return types
+    return heuristicTypes
 }
@@ -0,0 +1,63 @@
+import type { RosettaFile, RosettaFunction } from '../../rosetta'
+import { getRosettaTypeString } from '../annotation/get-rosetta-type-string'
+
+/**
+ * Gets the return type strings of a Rosetta function.
+ * @param func The Rosetta function.
+ * @returns The type strings, or `undefined` if any return is missing a type or the function is generic.
+ */
+const getReturnTypes = (func: RosettaFunction): string[] | undefined => {
+    if (func.generics?.length) {
+        return
+    }
+
+    const returns = func.return ?? []
+    if (returns.length === 0 || returns.some((x) => !x.type)) {
+        return
+    }
+
+    return returns.map((x) => getRosettaTypeString(x.type, false, x.nullable))
+}
+
+/**
+ * Gets the documented return types of global functions and static methods in Rosetta files.
+ * Static methods are named with their class or table name, like `Class.method`.
+ * Generic functions and functions without typed returns are not included.
+ * @param files The Rosetta files.
+ * @param includeRemoved Flag for whether items tagged as removed from the Lua source should be included.
+ * @returns A record associating function names to the type strings of their returns.
+ */
+export const getRosettaReturnTypes = (
+    files: RosettaFile[],
+    includeRemoved = false,
+): Record<string, string[]> => {
+    const returnTypes: Record<string, string[]> = {}
+    const addFunctions = (
+        funcs: Record<string, RosettaFunction> | undefined,
+        prefix = '',
+    ) => {
+        for (const func of Object.values(funcs ?? {})) {
+            if (!includeRemoved && func.tags?.includes('StubGen_Removed')) {
+                continue
+            }
+
+            const types = getReturnTypes(func)
+            if (types) {
+                returnTypes[prefix + func.name] = types
+            }
+        }
+    }
+
+    for (const file of files) {
+        addFunctions(file.functions)
+
+        for (const item of [
+            ...Object.values(file.classes),
+            ...Object.values(file.tables),
+        ]) {
+            addFunctions(item.staticMethods, `${item.name}.`)
+        }
+    }
+
+    return returnTypes
+}
@@ -10,3 +10,4 @@ export { convertRosettaParameters } from './convert-rosetta-parameters'
 export { convertRosettaReturns } from './convert-rosetta-returns'
 export { convertRosettaTable } from './convert-rosetta-table'
 export { convertRosettaTypes } from './convert-rosetta-types'
+export { getRosettaReturnTypes } from './get-rosetta-return-types'
@@ -3,3 +3,4 @@ export * from './annotation'
 export * from './common'
 export * from './convert-analyzed-to-rosetta'
 export * from './convert-rosetta-to-analyzed'
+export * from './type-expressions'
@@ -0,0 +1,176 @@
+import { parseTypeExpression } from './parse-type-expression'
+import type {
+    FunctionTypeExpression,
+    NamedTypeExpression,
+    TableTypeExpression,
+    TypeExpression,
+} from '../../type-expressions'
+
+/**
+ * Maps built-in Lua type names to Teal types.
+ */
+const BUILTIN_TYPES: Record<string, string> = {
+    any: 'any',
+    boolean: 'boolean',
+    false: 'boolean',
+    function: 'function(...: any): any...',
+    integer: 'integer',
+    lightuserdata: 'userdata',
+    nil: 'nil',
+    number: 'number',
+    string: 'string',
+    table: '{any:any}',
+    thread: 'thread',
+    true: 'boolean',
+    unknown: 'any',
+    userdata: 'userdata',
+    void: 'nil',
+    '...': 'any',
+}
+
+/**
+ * Converts a LuaLS type string to a Teal type string.
+ * Teal types are always nilable, so optional types are written as their inner type.
+ * If the type string is malformed, `any` is returned.
+ * @param type The type string to convert.
+ * @param selfType The type to use for `self`. Defaults to `any`.
+ */
+export const getTealTypeString = (
+    type: string | undefined,
+    selfType: string = 'any',
+): string => {
+    if (!type) {
+        return 'any'
+    }
+
+    try {
+        return convert(parseTypeExpression(type), selfType)
+    } catch {
+        return 'any'
+    }
+}
+
+/**
+ * Converts a type expression to a Teal type string.
+ * @param expr The type expression to convert.
+ * @param selfType The type to use for `self`.
+ */
+const convert = (expr: TypeExpression, selfType: string): string => {
+    switch (expr.kind) {
+        case 'name':
+            return convertName(expr, selfType)
+
+        case 'literal':
+            // Teal has no literal types
+            if (/^["'`]/.test(expr.literal)) {
+                return 'string'
+            }
+
+            return /^(true|false)$/.test(expr.literal) ? 'boolean' : 'number'
+
+        case 'union':
+            // all types are nilable, so `nil` is excluded from unions
+            const types = new Set(expr.types.map((x) => wrap(x, selfType)))
+            if (types.size > 1) {
+                types.delete('nil')
+            }
+
+            return [...types].join(' | ')
+
+        case 'optional':
+            return convert(expr.type, selfType)
+
+        case 'array':
+            return `{${convert(expr.type, selfType)}}`
+
+        case 'variadic':
+            return convert(expr.type, selfType)
+
+        case 'tuple':
+            const elements = expr.types.map((x) => convert(x, selfType))
+            return `{${elements.join(', ')}}`
+
+        case 'function':
+            return convertFunction(expr, selfType)
+
+        case 'table':
+            return convertTable(expr, selfType)
+    }
+}
+
+/**
+ * Converts a function type expression to a Teal function type.
+ * @param expr The function type expression.
+ * @param selfType The type to use for `self`.
+ */
+const convertFunction = (
+    expr: FunctionTypeExpression,
+    selfType: string,
+): string => {
+    const params = expr.parameters.map((param) => {
+        const type = param.type ? convert(param.type, selfType) : 'any'
+        if (param.name === '...') {
+            return `...: ${type}`
+        }
+
+        const name = /^[A-Za-z_]\w*$/.test(param.name) ? param.name : 'arg'
+        return `${name}${param.optional ? '?' : ''}: ${type}`
+    })
+
+    const returns = expr.returns
+        .filter((x) => x.kind !== 'name' || x.name !== 'void')
+        .map((x) =>
+            x.kind === 'variadic'
+                ? `${wrap(x.type, selfType)}...`
+                : wrap(x, selfType),
+        )
+
+    const result = `function(${params.join(', ')})`
+    return returns.length > 0 ? `${result}: ${returns.join(', ')}` : result
+}
+
+/**
+ * Converts a named type expression to a Teal type reference.
+ * @param expr The named type expression.
+ * @param selfType The type to use for `self`.
+ */
+const convertName = (expr: NamedTypeExpression, selfType: string): string => {
+    const args = expr.arguments?.map((x) => convert(x, selfType))
+
+    if (expr.name === 'self') {
+        return selfType
+    }
+
+    if (expr.name === 'table' && args) {
+        return args.length === 2 ? `{${args[0]}:${args[1]}}` : '{any:any}'
+    }
+
+    const name = BUILTIN_TYPES[expr.name] ?? expr.name.replaceAll('.', '_')
+    return args ? `${name}<${args.join(', ')}>` : name
+}
+
+/**
+ * Converts a table literal type expression to a Teal map type.
+ * Teal has no anonymous record types, so tables with named fields are converted to `{string:any}`.
+ * @param expr The table type expression.
+ * @param selfType The type to use for `self`.
+ */
+const convertTable = (expr: TableTypeExpression, selfType: string): string => {
+    const [field] = expr.fields
+    if (expr.fields.length !== 1 || typeof field.key === 'string') {
+        return expr.fields.length === 0 ? '{any:any}' : '{string:any}'
+    }
+
+    const key = convert(field.key, selfType)
+    return `{${key}:${convert(field.type, selfType)}}`
+}
+
+/**
+ * Converts a type expression, wrapping it in parentheses if it's a function type.
+ * @param expr The type expression to convert.
+ * @param selfType The type to use for `self`.
+ */
+const wrap = (expr: TypeExpression, selfType: string): string => {
+    const str = convert(expr, selfType)
+    return str.startsWith('function(') ? `(${str})` : str
+}
@@ -0,0 +1,60 @@
+import type { TypeExpression } from '../../type-expressions'
+
+/**
+ * Gets the set of type names referenced by a type expression.
+ * This includes built-in type names.
+ * @param expr The type expression.
+ * @param names A set to add names to. If not given, a new set is created.
+ */
+export const getTypeExpressionNames = (
+    expr: TypeExpression,
+    names?: Set<string>,
+): Set<string> => {
+    names ??= new Set()
+
+    const stack = [expr]
+    while (stack.length > 0) {
+        const current = stack.pop()!
+
+        switch (current.kind) {
+            case 'name':
+                names.add(current.name)
+                stack.push(...(current.arguments ?? []))
+                break
+
+            case 'union':
+            case 'tuple':
+                stack.push(...current.types)
+                break
+
+            case 'optional':
+            case 'array':
+            case 'variadic':
+                stack.push(current.type)
+                break
+
+            case 'function':
+                for (const param of current.parameters) {
+                    if (param.type) {
+                        stack.push(param.type)
+                    }
+                }
+
+                stack.push(...current.returns)
+                break
+
+            case 'table':
+                for (const field of current.fields) {
+                    if (typeof field.key !== 'string') {
+                        stack.push(field.key)
+                    }
+
+                    stack.push(field.type)
+                }
+
+                break
+        }
+    }
+
+    return names
+}
@@ -0,0 +1,227 @@
+import { parseTypeExpression } from './parse-type-expression'
+import type {
+    FunctionTypeExpression,
+    NamedTypeExpression,
+    TableTypeExpression,
+    TypeExpression,
+} from '../../type-expressions'
+
+/**
+ * Maps built-in Lua type names to TypeScript types.
+ * These use the types provided by TypeScriptToLua's `lua-types`.
+ */
+const BUILTIN_TYPES: Record<string, string> = {
+    any: 'any',
+    boolean: 'boolean',
+    false: 'false',
+    function: '(...args: any[]) => any',
+    integer: 'number',
+    lightuserdata: 'LuaUserdata',
+    nil: 'undefined',
+    number: 'number',
+    self: 'this',
+    string: 'string',
+    table: 'LuaTable',
+    thread: 'LuaThread',
+    true: 'true',
+    unknown: 'unknown',
+    userdata: 'LuaUserdata',
+    void: 'void',
+    '...': 'any',
+}
+
+/**
+ * Converts a LuaLS type string to a TypeScript type string.
+ * If the type string is malformed, `any` is returned.
+ * @param type The type string to convert.
+ */
+export const getTypeScriptTypeString = (type: string | undefined): string => {
+    if (!type) {
+        return 'unknown'
+    }
+
+    try {
+        return convert(parseTypeExpression(type))
+    } catch {
+        return 'any'
+    }
+}
+
+/**
+ * Converts a type expression to a TypeScript type string.
+ * @param expr The type expression to convert.
+ */
+const convert = (expr: TypeExpression): string => {
+    switch (expr.kind) {
+        case 'name':
+            return convertName(expr)
+
+        case 'literal':
+            if (expr.literal.startsWith('`')) {
+                return JSON.stringify(expr.literal.slice(1, -1))
+            }
+
+            return expr.literal
+
+        case 'union':
+            return expr.types.map((x) => wrap(x)).join(' | ')
+
+        case 'optional':
+            const inner =
+                expr.type.kind === 'union'
+                    ? convert(expr.type)
+                    : wrap(expr.type)
+
+            return `${inner} | undefined`
+
+        case 'array':
+            return `${wrap(expr.type, expr.type.kind === 'optional')}[]`
+
+        case 'variadic':
+            return convert(expr.type)
+
+        case 'tuple':
+            return `[${expr.types.map(convert).join(', ')}]`
+
+        case 'function':
+            return convertFunction(expr)
+
+        case 'table':
+            return convertTable(expr)
+    }
+}
+
+/**
+ * Converts a function type expression to a TypeScript arrow function type.
+ * @param expr The function type expression.
+ */
+const convertFunction = (expr: FunctionTypeExpression): string => {
+    const params: string[] = []
+
+    let canBeOptional = true
+    for (let i = expr.parameters.length - 1; i >= 0; i--) {
+        const param = expr.parameters[i]
+        const type = param.type ? convert(param.type) : 'any'
+
+        if (param.name === '...') {
+            params.unshift(`...args: ${wrap(param.type)}[]`)
+            continue
+        }
+
+        // TypeScript doesn't allow required parameters after optional ones
+        const optional = param.optional && canBeOptional
+        canBeOptional &&= !!param.optional
+
+        const name = getParameterName(param.name, i)
+        if (optional) {
+            params.unshift(`${name}?: ${type}`)
+        } else if (param.optional) {
+            params.unshift(`${name}: ${type} | undefined`)
+        } else {
+            params.unshift(`${name}: ${type}`)
+        }
+    }
+
+    return `(${params.join(', ')}) => ${getReturnType(expr.returns)}`
+}
+
+/**
+ * Converts a named type expression to a TypeScript type reference.
+ * @param expr The named type expression.
+ */
+const convertName = (expr: NamedTypeExpression): string => {
+    const args = expr.arguments?.map(convert)
+
+    if (expr.name === 'table' && args) {
+        return `LuaTable<${args.join(', ')}>`
+    }
+
+    const name = BUILTIN_TYPES[expr.name] ?? expr.name.replaceAll('.', '_')
+    return args ? `${name}<${args.join(', ')}>` : name
+}
+
+/**
+ * Converts a table literal type expression to a TypeScript object type.
+ * Tables with keys that can't be represented as index signatures are converted to `LuaTable`.
+ * @param expr The table type expression.
+ */
+const convertTable = (expr: TableTypeExpression): string => {
+    if (expr.fields.length === 0) {
+        return 'LuaTable'
+    }
+
+    const members: string[] = []
+    for (const field of expr.fields) {
+        const type = convert(field.type)
+        if (typeof field.key === 'string') {
+            const key = /^[A-Za-z_$][\w$]*$|^\d+$|^["']/.test(field.key)
+                ? field.key
+                : JSON.stringify(field.key)
+
+            members.push(`${key}${field.optional ? '?' : ''}: ${type}`)
+            continue
+        }
+
+        const keyType = convert(field.key)
+        if (keyType !== 'string' && keyType !== 'number') {
+            return 'LuaTable'
+        }
+
+        members.push(`[key: ${keyType}]: ${type}`)
+    }
+
+    return `{ ${members.join('; ')} }`
+}
+
+/**
+ * Gets a parameter name that is valid in TypeScript.
+ * @param name The Lua parameter name.
+ * @param index The index of the parameter, used for unnamed parameters.
+ */
+const getParameterName = (name: string, index: number): string => {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+        return `arg${index}`
+    }
+
+    return name
+}
+
+/**
+ * Gets the TypeScript return type for a list of return type expressions.
+ * @param returns The return types.
+ */
+const getReturnType = (returns: TypeExpression[]): string => {
+    if (returns.length === 0) {
+        return 'void'
+    }
+
+    if (returns.length === 1 && returns[0].kind !== 'variadic') {
+        return convert(returns[0])
+    }
+
+    const types = returns.map((x) =>
+        x.kind === 'variadic' ? `...${wrap(x.type)}[]` : convert(x),
+    )
+
+    return `LuaMultiReturn<[${types.join(', ')}]>`
+}
+
+/**
+ * Converts a type expression, wrapping it in parentheses if it's a compound type.
+ * @param expr The type expression to convert.
+ * @param force Flag for whether to wrap the type regardless of its kind.
+ */
+const wrap = (expr: TypeExpression | undefined, force = false): string => {
+    if (!expr) {
+        return 'any'
+    }
+
+    const str = convert(expr)
+    const isCompound =
+        expr.kind === 'union' ||
+        expr.kind === 'optional' ||
+        expr.kind === 'function' ||
+        (expr.kind === 'name' && expr.name === 'function')
+
+    return force || isCompound ? `(${str})` : str
+}
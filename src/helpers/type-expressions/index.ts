@@ -0,0 +1,8 @@
+export { getTealTypeString } from './get-teal-type-string'
+export { getTypeExpressionNames } from './get-type-expression-names'
+export { getTypeScriptTypeString } from './get-typescript-type-string'
+export { isBuiltinTypeName } from './is-builtin-type-name'
+export { normalizeTypeString } from './normalize-type-string'
+export { parseTypeExpression } from './parse-type-expression'
+export { splitUnionType } from './split-union-type'
+export { stringifyTypeExpression } from './stringify-type-expression'
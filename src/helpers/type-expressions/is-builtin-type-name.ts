@@ -0,0 +1,30 @@
+/**
+ * Names of types that are built into LuaLS and EmmyLua.
+ */
+const BUILTIN_TYPES = new Set([
+    'any',
+    'boolean',
+    'false',
+    'function',
+    'integer',
+    'lightuserdata',
+    'nil',
+    'number',
+    'self',
+    'string',
+    'table',
+    'thread',
+    'true',
+    'unknown',
+    'userdata',
+    'void',
+    '...',
+])
+
+/**
+ * Checks whether a type name refers to a built-in type.
+ * @param name The type name to check.
+ */
+export const isBuiltinTypeName = (name: string): boolean => {
+    return BUILTIN_TYPES.has(name)
+}
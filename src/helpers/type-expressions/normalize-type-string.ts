@@ -0,0 +1,28 @@
+import { parseTypeExpression } from './parse-type-expression'
+import { stringifyTypeExpression } from './stringify-type-expression'
+
+/**
+ * Normalizes a type string.
+ * If the type string is malformed, it's returned trimmed but otherwise unchanged.
+ * @param type The type string to normalize.
+ * @param optional Flag for whether the type should be marked as optional.
+ */
+export const normalizeTypeString = (type: string, optional = false): string => {
+    try {
+        let expr = parseTypeExpression(type)
+        if (optional && expr.kind !== 'optional') {
+            expr = { kind: 'optional', type: expr }
+        }
+
+        return stringifyTypeExpression(expr)
+    } catch {
+        type = type.trim()
+        if (!optional) {
+            return type
+        }
+
+        return type.includes('|') || type.includes('fun(')
+            ? `(${type})?`
+            : `${type}?`
+    }
+}
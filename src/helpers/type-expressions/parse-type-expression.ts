@@ -0,0 +1,11 @@
+import { TypeExpressionParser } from '../../type-expressions/TypeExpressionParser'
+import type { TypeExpression } from '../../type-expressions'
+
+/**
+ * Parses a type string into a type expression.
+ * Throws an error if the type string is malformed.
+ * @param type The type string to parse.
+ */
+export const parseTypeExpression = (type: string): TypeExpression => {
+    return new TypeExpressionParser(type).parse()
+}
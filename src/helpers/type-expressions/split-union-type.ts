@@ -0,0 +1,38 @@
+import { parseTypeExpression } from './parse-type-expression'
+import { stringifyTypeExpression } from './stringify-type-expression'
+import type { TypeExpression } from '../../type-expressions'
+
+/**
+ * Splits a type string into the type strings of its top-level union members.
+ * Optional types are split into their inner type and `nil`.
+ * If the type string is malformed, it's returned trimmed as the only member.
+ * @param type The type string to split.
+ */
+export const splitUnionType = (type: string): string[] => {
+    let expr: TypeExpression
+    try {
+        expr = parseTypeExpression(type)
+    } catch {
+        return [type.trim()]
+    }
+
+    const types: string[] = []
+    const stack = [expr]
+    while (stack.length > 0) {
+        const current = stack.shift()!
+        switch (current.kind) {
+            case 'union':
+                stack.unshift(...current.types)
+                break
+
+            case 'optional':
+                stack.unshift(current.type, { kind: 'name', name: 'nil' })
+                break
+
+            default:
+                types.push(stringifyTypeExpression(current))
+        }
+    }
+
+    return [...new Set(types)]
+}
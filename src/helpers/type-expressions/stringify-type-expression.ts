@@ -0,0 +1,122 @@
+import type {
+    TypeExpression,
+    TypeExpressionField,
+    TypeExpressionParameter,
+} from '../../type-expressions'
+
+/**
+ * Converts a type expression to a normalized type string.
+ * @param expr The type expression to convert.
+ */
+export const stringifyTypeExpression = (expr: TypeExpression): string => {
+    switch (expr.kind) {
+        case 'name':
+            if (!expr.arguments) {
+                return expr.name
+            }
+
+            const args = expr.arguments.map(stringifyTypeExpression)
+            return `${expr.name}<${args.join(', ')}>`
+
+        case 'literal':
+            return expr.literal
+
+        case 'union':
+            return expr.types
+                .map((x) => wrap(x, isFunctionWithReturns(x)))
+                .join(' | ')
+
+        case 'optional':
+            const inner = expr.type
+            return `${wrap(inner, inner.kind === 'union' || inner.kind === 'function')}?`
+
+        case 'array':
+            const element = expr.type
+            const wrapElement =
+                element.kind === 'union' ||
+                element.kind === 'optional' ||
+                element.kind === 'function'
+
+            return `${wrap(element, wrapElement)}[]`
+
+        case 'variadic':
+            const value = expr.type
+            const wrapValue =
+                value.kind === 'union' ||
+                value.kind === 'optional' ||
+                value.kind === 'function'
+
+            return `${wrap(value, wrapValue)}...`
+
+        case 'tuple':
+            return `[${expr.types.map(stringifyTypeExpression).join(', ')}]`
+
+        case 'function':
+            const params = expr.parameters.map(stringifyParameter).join(', ')
+            if (expr.returns.length === 0) {
+                return `fun(${params})`
+            }
+
+            const returns = expr.returns
+                .map((x) => wrap(x, isFunctionWithReturns(x)))
+                .join(', ')
+
+            return `fun(${params}): ${returns}`
+
+        case 'table':
+            if (expr.fields.length === 0) {
+                return '{}'
+            }
+
+            return `{ ${expr.fields.map(stringifyField).join(', ')} }`
+    }
+}
+
+/**
+ * Checks whether a type expression is a function type with returns.
+ * These must be parenthesized when followed by other types to avoid ambiguity.
+ * @param expr The type expression to check.
+ */
+const isFunctionWithReturns = (expr: TypeExpression): boolean => {
+    return expr.kind === 'function' && expr.returns.length > 0
+}
+
+/**
+ * Converts a type expression to a string, optionally wrapped in parentheses.
+ * @param expr The type expression to convert.
+ * @param parenthesize Flag for whether to wrap the string in parentheses.
+ */
+const wrap = (expr: TypeExpression, parenthesize: boolean): string => {
+    const str = stringifyTypeExpression(expr)
+    return parenthesize ? `(${str})` : str
+}
+
+/**
+ * Converts a function type parameter to a string.
+ * @param param The parameter to convert.
+ */
+const stringifyParameter = (param: TypeExpressionParameter): string => {
+    const name = param.optional ? `${param.name}?` : param.name
+    if (!param.type) {
+        return name
+    }
+
+    return `${name}: ${stringifyTypeExpression(param.type)}`
+}
+
+/**
+ * Converts a table type field to a string.
+ * @param field The field to convert.
+ */
+const stringifyField = (field: TypeExpressionField): string => {
+    let key =
+        typeof field.key === 'string'
+            ? field.key
+            : `[${stringifyTypeExpression(field.key)}]`
+
+    if (field.optional) {
+        key += '?'
+    }
+
+    return `${key}: ${stringifyTypeExpression(field.type)}`
+}
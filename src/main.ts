@@ -2,21 +2,34 @@ import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
 import { ResolveArgs, DependencyResolver } from './dependency-resolution'
 import { AnalyzeArgs, Analyzer } from './analysis'
-import { AnnotateArgs, Annotator } from './annotation'
+import { ApiDiffArgs, ApiDiffer } from './api-diff'
+import {
+    AnnotateArgs,
+    Annotator,
+    DeclarationAnnotator,
+    TealAnnotator,
+    TypeReportArgs,
+    TypeReporter,
+} from './annotation'
 
 import {
     RosettaGenerateArgs as GenerateArgs,
     RosettaGenerator as Generator,
     RosettaUpdater as Updater,
     RosettaUpdateArgs as UpdateArgs,
+    RosettaValidateArgs as ValidateArgs,
+    RosettaValidator as Validator,
 } from './rosetta'
 
 import {
     annotateCommand,
+    diffApiCommand,
     initRosettaCommand,
     reportAnalysisCommand,
     reportDepsCommand,
+    reportTypesCommand,
     updateRosettaCommand,
+    validateRosettaCommand,
 } from './commands'
 
 yargs(hideBin(process.argv))
@@ -25,19 +38,44 @@ yargs(hideBin(process.argv))
         '$0',
         'Generates typestubs for Lua files',
         annotateCommand,
-        (async (args: AnnotateArgs) => await new Annotator(args).run()) as any,
+        (async (args: AnnotateArgs) => {
+            let annotator: Annotator
+            switch (args.target) {
+                case 'd.ts':
+                    annotator = new DeclarationAnnotator(args)
+                    break
+
+                case 'd.tl':
+                    annotator = new TealAnnotator(args)
+                    break
+
+                default:
+                    annotator = new Annotator(args)
+                    break
+            }
+
+            await annotator.start()
+        }) as any,
     )
     .command(
         'init-rosetta',
         'Generates default Rosetta data files',
         initRosettaCommand,
-        (async (args: GenerateArgs) => await new Generator(args).run()) as any,
+        (async (args: GenerateArgs) =>
+            await new Generator(args).start()) as any,
     )
     .command(
         'update-rosetta',
         'Updates Rosetta data files with information from Lua files',
         updateRosettaCommand,
-        (async (args: UpdateArgs) => await new Updater(args).run()) as any,
+        (async (args: UpdateArgs) => await new Updater(args).start()) as any,
+    )
+    .command(
+        'validate-rosetta',
+        'Validates Rosetta data files and reports any issues',
+        validateRosettaCommand,
+        (async (args: ValidateArgs) =>
+            await new Validator(args).generateReport()) as any,
     )
     .command(
         'report-analysis',
@@ -53,6 +91,20 @@ yargs(hideBin(process.argv))
         (async (args: ResolveArgs) =>
             await new DependencyResolver(args).generateReport()) as any,
     )
+    .command(
+        'report-types',
+        'Reports on type names that are referenced but never defined',
+        reportTypesCommand,
+        (async (args: TypeReportArgs) =>
+            await new TypeReporter(args).generateReport()) as any,
+    )
+    .command(
+        'diff-api',
+        'Reports on API changes between two Lua trees or analysis reports',
+        diffApiCommand,
+        (async (args: ApiDiffArgs) =>
+            await new ApiDiffer(args).generateReport()) as any,
+    )
     .strict()
     .demandCommand()
     .parseAsync()
@@ -8,6 +8,8 @@ import type {
     RosettaArgs,
     RosettaClass,
     RosettaDataReader,
+    RosettaEnum,
+    RosettaEvent,
     RosettaField,
     RosettaFile,
     RosettaFunction,
@@ -48,6 +50,15 @@ export class Rosetta {
         this.files = {}
     }
 
+    /**
+     * Removes all loaded Rosetta files.
+     */
+    reset() {
+        for (const id of Object.keys(this.files)) {
+            delete this.files[id]
+        }
+    }
+
     /**
      * Loads Rosetta files from a directory and logs the result.
      * @param dir The directory to load files from. Defaults to the input directory.
@@ -132,6 +143,63 @@ export class Rosetta {
         )
     }
 
+    /**
+     * Checks the generic type parameters of a Rosetta function and its overloads.
+     * @param func The object for the function.
+     * @param name A description of the function for error messages.
+     */
+    protected checkFunctionGenerics(func: any, name: string) {
+        this.checkGenerics(func, name)
+
+        if (!expectField(func, 'overloads', 'array')) {
+            return
+        }
+
+        for (let i = 0; i < func.overloads.length; i++) {
+            const overload = func.overloads[i]
+            expect(overload, 'object', `overload at index ${i} of ${name}`)
+
+            this.checkGenerics(overload, `overload at index ${i} of ${name}`)
+        }
+    }
+
+    /**
+     * Checks the generic type parameters of a Rosetta class, function, or overload.
+     * @param obj The object for the item.
+     * @param name A description of the item for error messages.
+     */
+    protected checkGenerics(obj: any, name: string) {
+        if (!expectField(obj, 'generics', 'array')) {
+            return
+        }
+
+        const seen = new Set<string>()
+        for (let i = 0; i < obj.generics.length; i++) {
+            const generic = obj.generics[i]
+            const desc = `generic at index ${i} of ${name}`
+            expect(generic, 'object', desc)
+            expect(generic.name, 'string', `'name' field of ${desc}`)
+            expect(
+                generic.extends,
+                'string',
+                `'extends' field of ${desc}`,
+                true,
+            )
+
+            if (!/^[A-Za-z_]\w*$/.test(generic.name)) {
+                throw new Error(`Invalid name '${generic.name}' for ${desc}`)
+            }
+
+            if (seen.has(generic.name)) {
+                throw new Error(
+                    `Duplicate generic '${generic.name}' in ${name}`,
+                )
+            }
+
+            seen.add(generic.name)
+        }
+    }
+
     /**
      * Loads a single Rosetta data file.
      * @param filePath The path to the Rosetta data file.
@@ -281,6 +349,17 @@ export class Rosetta {
                 cls.methods = arrayToRecord(obj.methods)
                 cls.staticMethods = arrayToRecord(obj.staticMethods)
 
+                this.checkFunctionGenerics(cls, `class '${name}'`)
+                const methods = [
+                    ...Object.values(cls.methods),
+                    ...Object.values(cls.staticMethods),
+                ]
+
+                for (const method of methods) {
+                    const desc = `method '${method.name}' of '${name}'`
+                    this.checkFunctionGenerics(method, desc)
+                }
+
                 classes[name] = cls
             }
         }
@@ -296,10 +375,47 @@ export class Rosetta {
                 tab.methods = arrayToRecord(obj.methods)
                 tab.staticMethods = arrayToRecord(obj.staticMethods)
 
+                const methods = [
+                    ...Object.values(tab.methods),
+                    ...Object.values(tab.staticMethods),
+                ]
+
+                for (const method of methods) {
+                    const desc = `method '${method.name}' of '${name}'`
+                    this.checkFunctionGenerics(method, desc)
+                }
+
                 tables[name] = tab
             }
         }
 
+        const enums: Record<string, RosettaEnum> = {}
+        if (expectField(data, 'languages.lua.enums', 'object')) {
+            for (const name of Object.keys(lua.enums)) {
+                const obj = lua.enums[name]
+                expect(obj, 'object', `enum '${name}'`)
+
+                const enumObj = obj as RosettaEnum
+                enumObj.name = name
+
+                enums[name] = enumObj
+            }
+        }
+
+        const events: Record<string, RosettaEvent> = {}
+        if (expectField(data, 'languages.lua.events', 'object')) {
+            for (const name of Object.keys(lua.events)) {
+                const obj = lua.events[name]
+                expect(obj, 'object', `event '${name}'`)
+                expectField(obj, 'parameters', 'array')
+
+                const event = obj as RosettaEvent
+                event.name = name
+
+                events[name] = event
+            }
+        }
+
         const fields: Record<string, RosettaField> = {}
         if (expectField(data, 'languages.lua.fields', 'object')) {
             for (const name of Object.keys(lua.fields)) {
@@ -316,6 +432,7 @@ export class Rosetta {
                 const obj = lua.functions[i]
                 expect(obj, 'object', `value at index ${i} of function list`)
 
+                this.checkFunctionGenerics(obj, `function '${obj.name}'`)
                 functions[obj.name] = obj
             }
         }
@@ -347,6 +464,8 @@ export class Rosetta {
             aliases,
             classes,
             tables,
+            enums,
+            events,
             functions,
             fields,
             tags,
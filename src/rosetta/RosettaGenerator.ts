@@ -2,7 +2,7 @@ import path from 'path'
 import YAML from 'yaml'
 import { BaseGenerator } from '../common'
 import type { RosettaGenerateArgs } from './types'
-import type { AnalyzedModule } from '../analysis/types'
+import type { AnalyzedModule, HeuristicRule } from '../analysis/types'
 
 import {
     convertAnalyzedClass,
@@ -10,7 +10,7 @@ import {
     convertAnalyzedFunctions,
     convertAnalyzedTable,
     log,
-    writeFile,
+    readHeuristicsFile,
     time,
 } from '../helpers'
 
@@ -23,6 +23,12 @@ export class RosettaGenerator extends BaseGenerator {
      */
     protected rosettaFormat: 'json' | 'yml'
 
+    /**
+     * Rules for assigning types to fields and parameters based on their names.
+     * This is `undefined` if heuristics are disabled.
+     */
+    protected heuristicRules: HeuristicRule[] | undefined
+
     /**
      * Flag for whether types in existing Rosetta files should be kept.
      */
@@ -42,6 +48,12 @@ export class RosettaGenerator extends BaseGenerator {
 
         this.keepTypes = args.keepTypes ?? false
         this.rosettaFormat = args.format ?? 'yml'
+        this.heuristicRules = this.heuristics
+            ? readHeuristicsFile(this.heuristicsFile)?.rosetta
+            : undefined
+
+        // removed items are kept in Rosetta data
+        this.includeRemoved = true
 
         if (args.skipPattern) {
             this.skipPattern = new RegExp(args.skipPattern)
@@ -53,6 +65,38 @@ export class RosettaGenerator extends BaseGenerator {
      * @param mod The module to generate Rosetta data for.
      */
     generateRosetta(mod: AnalyzedModule): string {
+        const data = this.getRosettaData(mod)
+
+        let out: string
+        const format = this.rosettaFormat
+        if (format === 'json') {
+            out = JSON.stringify(data, undefined, 2)
+        } else {
+            out = YAML.stringify(data)
+        }
+
+        return out.replaceAll('\r', '').trimEnd() + '\n'
+    }
+
+    /**
+     * Runs Rosetta generation.
+     * @returns A list of analyzed modules.
+     */
+    async run(): Promise<AnalyzedModule[]> {
+        const modules = await this.getModules(true)
+        await this.writeModules(modules)
+
+        const resolvedOutDir = path.resolve(this.outDirectory)
+        log.info(`Generated Rosetta data at '${resolvedOutDir}'`)
+
+        return modules
+    }
+
+    /**
+     * Gets the Rosetta data for an analyzed module.
+     * @param mod The module to get Rosetta data for.
+     */
+    protected getRosettaData(mod: AnalyzedModule): any {
         const rosettaFile = this.rosetta.files[mod.id]
 
         const classes: Record<string, any> = {}
@@ -61,7 +105,7 @@ export class RosettaGenerator extends BaseGenerator {
                 cls,
                 rosettaFile?.classes[cls.name],
                 this.keepTypes,
-                this.heuristics,
+                this.heuristicRules,
             )
 
             delete converted.name
@@ -74,7 +118,7 @@ export class RosettaGenerator extends BaseGenerator {
                 table,
                 rosettaFile?.tables[table.name],
                 this.keepTypes,
-                this.heuristics,
+                this.heuristicRules,
             )
 
             delete converted.name
@@ -96,6 +140,24 @@ export class RosettaGenerator extends BaseGenerator {
             luaData.tables = tables
         }
 
+        // enums and events are only read from Rosetta, so existing ones are kept as-is
+        for (const key of ['enums', 'events'] as const) {
+            const items = Object.values(rosettaFile?.[key] ?? {})
+            if (items.length === 0) {
+                continue
+            }
+
+            const converted: Record<string, any> = {}
+            for (const item of items) {
+                const obj: any = { ...item }
+
+                delete obj.name
+                converted[item.name] = obj
+            }
+
+            luaData[key] = converted
+        }
+
         if (mod.classes.length > 0) {
             luaData.classes = classes
         }
@@ -105,7 +167,7 @@ export class RosettaGenerator extends BaseGenerator {
                 mod.functions,
                 rosettaFile?.functions,
                 this.keepTypes,
-                this.heuristics,
+                this.heuristicRules,
             )
         }
 
@@ -114,7 +176,7 @@ export class RosettaGenerator extends BaseGenerator {
                 mod.fields,
                 rosettaFile?.fields,
                 this.keepTypes,
-                this.heuristics,
+                this.heuristicRules,
             )
         }
 
@@ -125,29 +187,7 @@ export class RosettaGenerator extends BaseGenerator {
             },
         }
 
-        let out: string
-        const format = this.rosettaFormat
-        if (format === 'json') {
-            out = JSON.stringify(data, undefined, 2)
-        } else {
-            out = YAML.stringify(data)
-        }
-
-        return out.replaceAll('\r', '').trimEnd() + '\n'
-    }
-
-    /**
-     * Runs Rosetta generation.
-     * @returns A list of analyzed modules.
-     */
-    async run(): Promise<AnalyzedModule[]> {
-        const modules = await this.getModules(true)
-        await this.writeModules(modules)
-
-        const resolvedOutDir = path.resolve(this.outDirectory)
-        log.info(`Generated Rosetta data at '${resolvedOutDir}'`)
-
-        return modules
+        return data
     }
 
     /**
@@ -172,6 +212,10 @@ export class RosettaGenerator extends BaseGenerator {
                     continue
                 }
 
+                if (!this.isAffectedModule(mod.id)) {
+                    continue
+                }
+
                 const outFile = path.resolve(
                     path.join(outDir, this.rosettaFormat, mod.id + extension),
                 )
@@ -188,7 +232,7 @@ export class RosettaGenerator extends BaseGenerator {
                 }
 
                 try {
-                    await writeFile(outFile, data)
+                    await this.writeOutputFile(outFile, data)
                 } catch (e) {
                     log.error(`Failed to write file '${outFile}': ${e}`)
                 }
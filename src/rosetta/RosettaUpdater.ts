@@ -1,18 +1,29 @@
 import fs from 'fs'
 import path from 'path'
+import YAML from 'yaml'
 import { log } from '../helpers'
 import { RosettaGenerator } from './RosettaGenerator'
 
 import {
     convertAnalyzedParameter,
+    convertAnalyzedReturns,
+    convertAnalyzedTypes,
     expressionToDefaultValue,
+    getNameSimilarity,
+    getSimilarity,
+    getUnifiedDiff,
+    mergeYamlDocument,
+    readFileContents,
     time,
+    writeReport,
 } from '../helpers'
 
 import type {
+    AnalyzedClass,
     AnalyzedField,
     AnalyzedFunction,
     AnalyzedModule,
+    AnalyzedTable,
 } from '../analysis'
 
 import type {
@@ -20,11 +31,46 @@ import type {
     RosettaConstructor,
     RosettaField,
     RosettaFile,
+    RosettaFileChanges,
     RosettaFunction,
     RosettaParameter,
+    RosettaTable,
     RosettaUpdateArgs,
 } from './types'
 
+/**
+ * A Rosetta item that can be marked as removed.
+ */
+type RemovableItem =
+    | RosettaClass
+    | RosettaConstructor
+    | RosettaField
+    | RosettaFunction
+    | RosettaTable
+
+/**
+ * The type and notes of a member in Rosetta file content, for summarizing changes.
+ */
+interface MemberSummary {
+    type?: string
+    notes?: string
+}
+
+/**
+ * The minimum similarity for a Rosetta file to be matched to a moved module.
+ */
+const FILE_MATCH_THRESHOLD = 0.5
+
+/**
+ * The minimum similarity for a Rosetta class or table to be matched to a renamed one.
+ */
+const CLASS_MATCH_THRESHOLD = 0.5
+
+/**
+ * The minimum similarity for a Rosetta function to be matched to a renamed one.
+ */
+const FUNCTION_MATCH_THRESHOLD = 0.65
+
 /**
  * Handles updating Rosetta data files.
  */
@@ -39,11 +85,48 @@ export class RosettaUpdater extends RosettaGenerator {
      */
     protected deleteUnknown: boolean
 
+    /**
+     * Flag for whether unknown items should be marked as deprecated instead of deleted.
+     */
+    protected deprecateUnknown: boolean
+
+    /**
+     * The version or date to record for removed items.
+     */
+    protected removedVersion: string
+
     /**
      * A set of file identifiers to treat as extra and not update.
      */
     protected extraFiles: Set<string>
 
+    /**
+     * Flag for whether changes should be reported instead of written.
+     */
+    protected dryRun: boolean
+
+    /**
+     * The format to use to report changes in a dry run.
+     */
+    protected dryRunFormat: 'diff' | 'json'
+
+    /**
+     * Maps resolved file paths to the content that would be written in a dry run.
+     * Files that would be deleted map to `undefined`.
+     */
+    protected pendingFiles: Map<string, string | undefined>
+
+    /**
+     * Maps module identifiers to the renamed members found in them, from old names to new names.
+     * Class and table members are named like `Class.field` or `Class:method`.
+     */
+    protected memberRenames: Map<string, Map<string, string>>
+
+    /**
+     * Maps Rosetta files to the YAML they were read from.
+     */
+    protected yamlSources: Map<RosettaFile, string>
+
     /**
      * Creates a new updater.
      * @param args Arguments for updating.
@@ -55,8 +138,38 @@ export class RosettaUpdater extends RosettaGenerator {
         super(args)
 
         this.rosettaDir = rosettaDir
-        this.deleteUnknown = args.deleteUnknown ?? true
+        this.deprecateUnknown = args.deprecateUnknown ?? false
+        this.deleteUnknown =
+            !this.deprecateUnknown && (args.deleteUnknown ?? true)
+
+        this.removedVersion =
+            args.removedVersion ?? new Date().toISOString().slice(0, 10)
         this.extraFiles = new Set(args.extraFiles)
+        this.dryRun = args.dryRun ?? false
+        this.dryRunFormat = args.dryRunFormat ?? 'diff'
+        this.pendingFiles = new Map()
+        this.memberRenames = new Map()
+        this.yamlSources = new Map()
+    }
+
+    /**
+     * Generates a string containing Rosetta data for an analyzed module.
+     * Existing YAML files are updated in place to keep comments and formatting.
+     * @param mod The module to generate Rosetta data for.
+     */
+    generateRosetta(mod: AnalyzedModule): string {
+        const file = this.rosetta.files[mod.id]
+        const source = file ? this.yamlSources.get(file) : undefined
+        if (this.rosettaFormat !== 'yml' || source === undefined) {
+            return super.generateRosetta(mod)
+        }
+
+        const out = mergeYamlDocument(source, this.getRosettaData(mod))
+        if (out === undefined) {
+            return super.generateRosetta(mod)
+        }
+
+        return out.replaceAll('\r', '').trimEnd() + '\n'
     }
 
     /**
@@ -78,6 +191,11 @@ export class RosettaUpdater extends RosettaGenerator {
 
         await this.writeModules(modules, 'rewriting data', this.extraFiles)
 
+        if (this.dryRun) {
+            await this.reportChanges()
+            return modules
+        }
+
         const resolvedOutDir = path.resolve(this.outDirectory)
         log.info(
             `${isUpdate ? 'Updated' : 'Generated'} Rosetta data at '${resolvedOutDir}'`,
@@ -86,6 +204,710 @@ export class RosettaUpdater extends RosettaGenerator {
         return modules
     }
 
+    /**
+     * Records a renamed member, for the dry run summary.
+     * @param moduleId A module file identifier.
+     * @param oldName The old name of the member.
+     * @param newName The new name of the member.
+     */
+    protected addMemberRename(
+        moduleId: string,
+        oldName: string,
+        newName: string,
+    ) {
+        let renames = this.memberRenames.get(moduleId)
+        if (!renames) {
+            renames = new Map()
+            this.memberRenames.set(moduleId, renames)
+        }
+
+        renames.set(oldName, newName)
+    }
+
+    /**
+     * Deletes a Rosetta file, or records the deletion in a dry run.
+     * @param filename The path of the file to delete.
+     * @param id The file identifier.
+     */
+    protected async deleteFile(filename: string, id: string) {
+        if (this.dryRun) {
+            this.pendingFiles.set(path.resolve(filename), undefined)
+            return
+        }
+
+        try {
+            await fs.promises.unlink(filename)
+            log.verbose(`Deleted Rosetta data file '${id}'`)
+        } catch (e) {
+            log.error(`Failed to delete Rosetta data file '${id}': ${e}`)
+        }
+    }
+
+    /**
+     * Finds likely renames between old and new names.
+     * Pairs are matched greedily, starting with the most similar.
+     * @param oldNames Names of items that only exist in Rosetta data.
+     * @param newNames Names of items that only exist in the analyzed data.
+     * @param getScore Function that returns the similarity of an old and new item, from 0 to 1.
+     * @param threshold The minimum similarity for a match.
+     * @returns A map of old names to new names.
+     */
+    protected findRenames(
+        oldNames: string[],
+        newNames: string[],
+        getScore: (oldName: string, newName: string) => number,
+        threshold: number,
+    ): Map<string, string> {
+        const pairs: [string, string, number][] = []
+        for (const oldName of oldNames) {
+            for (const newName of newNames) {
+                const score = getScore(oldName, newName)
+                if (score >= threshold) {
+                    pairs.push([oldName, newName, score])
+                }
+            }
+        }
+
+        pairs.sort((a, b) => b[2] - a[2])
+
+        const renames = new Map<string, string>()
+        const matched = new Set<string>()
+        for (const [oldName, newName] of pairs) {
+            if (renames.has(oldName) || matched.has(newName)) {
+                continue
+            }
+
+            renames.set(oldName, newName)
+            matched.add(newName)
+        }
+
+        return renames
+    }
+
+    /**
+     * Summarizes the changes between two versions of a Rosetta file.
+     * @param file The path of the file, for the summary.
+     * @param oldContent The current content of the file, if it exists.
+     * @param newContent The content that would be written, or `undefined` if the file would be deleted.
+     * @param renames Renamed members in the file, from old names to new names.
+     */
+    protected getFileChanges(
+        file: string,
+        oldContent: string | undefined,
+        newContent: string | undefined,
+        renames?: Map<string, string>,
+    ): RosettaFileChanges {
+        const oldMembers = this.getMemberSummaries(oldContent)
+        const newMembers = this.getMemberSummaries(newContent)
+
+        const changes: RosettaFileChanges = {
+            file,
+            status: 'modified',
+            added: [],
+            removed: [],
+            renamed: [],
+            typeChanges: [],
+            notesDropped: [],
+        }
+
+        if (oldContent === undefined) {
+            changes.status = 'added'
+        } else if (newContent === undefined) {
+            changes.status = 'deleted'
+        }
+
+        const renamedTo = new Set<string>()
+        for (const [name, oldMember] of oldMembers) {
+            let newName = name
+            let newMember = newMembers.get(name)
+            if (!newMember && renames) {
+                const renamed = this.getRenamedMember(name, renames)
+                newMember = renamed ? newMembers.get(renamed) : undefined
+                if (renamed && newMember && !oldMembers.has(renamed)) {
+                    newName = renamed
+                    renamedTo.add(renamed)
+                    changes.renamed.push({ old: name, new: renamed })
+                } else {
+                    newMember = undefined
+                }
+            }
+
+            if (!newMember) {
+                changes.removed.push(name)
+
+                if (oldMember.notes) {
+                    changes.notesDropped.push(name)
+                }
+
+                continue
+            }
+
+            if (oldMember.notes && !newMember.notes) {
+                changes.notesDropped.push(name)
+            }
+
+            if (oldMember.type !== newMember.type) {
+                changes.typeChanges.push({
+                    name: newName,
+                    old: oldMember.type ?? 'unknown',
+                    new: newMember.type ?? 'unknown',
+                })
+            }
+        }
+
+        for (const name of newMembers.keys()) {
+            if (!oldMembers.has(name) && !renamedTo.has(name)) {
+                changes.added.push(name)
+            }
+        }
+
+        return changes
+    }
+
+    /**
+     * Reads the members of Rosetta file content, along with their types and notes.
+     * Class and table members are named with the class or table name, like `Class.field` or `Class:method`.
+     * @param content The content of a Rosetta file.
+     */
+    protected getMemberSummaries(
+        content: string | undefined,
+    ): Map<string, MemberSummary> {
+        const members = new Map<string, MemberSummary>()
+
+        let lua: any
+        try {
+            // JSON is valid YAML
+            lua = content ? YAML.parse(content)?.languages?.lua : undefined
+        } catch {
+            return members
+        }
+
+        if (!lua) {
+            return members
+        }
+
+        const addField = (name: string, field: any) => {
+            const type = field?.type
+                ? `${field.type}${field.nullable ? '?' : ''}`
+                : undefined
+
+            members.set(name, { type, notes: field?.notes })
+        }
+
+        const addFunctions = (prefix: string, funcs: any) => {
+            for (const func of Array.isArray(funcs) ? funcs : []) {
+                members.set(`${prefix}${func?.name}`, {
+                    type: this.getSignature(func),
+                    notes: func?.notes,
+                })
+            }
+        }
+
+        const classes = {
+            ...(lua.tables ?? {}),
+            ...(lua.classes ?? {}),
+        } as Record<string, any>
+
+        for (const [name, cls] of Object.entries(classes)) {
+            members.set(name, { notes: cls?.notes })
+
+            const fields = {
+                ...(cls?.fields ?? {}),
+                ...(cls?.staticFields ?? {}),
+            }
+
+            for (const [fieldName, field] of Object.entries(fields)) {
+                addField(`${name}.${fieldName}`, field)
+            }
+
+            const cons = cls?.constructors?.[0]
+            if (cons) {
+                members.set(`${name}:new`, {
+                    type: this.getSignature(cons),
+                    notes: cons.notes,
+                })
+            }
+
+            addFunctions(`${name}:`, cls?.methods)
+            addFunctions(`${name}.`, cls?.staticMethods)
+        }
+
+        addFunctions('', lua.functions)
+        for (const [name, field] of Object.entries(lua.fields ?? {})) {
+            addField(name, field)
+        }
+
+        return members
+    }
+
+    /**
+     * Gets the new name of a renamed member.
+     * Members of renamed classes and tables are renamed along with them.
+     * @param name The old name of the member.
+     * @param renames Renamed members, from old names to new names.
+     */
+    protected getRenamedMember(
+        name: string,
+        renames: Map<string, string>,
+    ): string | undefined {
+        const renamed = renames.get(name)
+        if (renamed) {
+            return renamed
+        }
+
+        for (const [oldName, newName] of renames) {
+            const indexer = name.charAt(oldName.length)
+            if (
+                !name.startsWith(oldName) ||
+                (indexer !== '.' && indexer !== ':')
+            ) {
+                continue
+            }
+
+            const member = newName + name.slice(oldName.length)
+            return renames.get(member) ?? member
+        }
+    }
+
+    /**
+     * Gets the names of the functions and fields of an analyzed class or table.
+     * @param cls The class or table.
+     */
+    protected getMemberNames(cls: AnalyzedClass | AnalyzedTable): string[] {
+        const members = [
+            ...cls.methods,
+            ...cls.functions,
+            ...cls.staticFields,
+            ...((cls as AnalyzedClass).functionConstructors ?? []),
+            ...((cls as AnalyzedClass).fields ?? []),
+            ...((cls as AnalyzedClass).setterFields ?? []),
+        ]
+
+        return members.map((x) => x.name)
+    }
+
+    /**
+     * Gets the names of the items in an analyzed module, for comparison with Rosetta files.
+     * @param mod The analyzed module.
+     */
+    protected getModuleNames(mod: AnalyzedModule): string[] {
+        const names: string[] = []
+        for (const cls of [...mod.classes, ...mod.tables]) {
+            names.push(cls.name)
+            names.push(
+                ...this.getMemberNames(cls).map((x) => `${cls.name}.${x}`),
+            )
+        }
+
+        names.push(...mod.functions.map((x) => x.name))
+        names.push(...mod.fields.map((x) => x.name))
+
+        return names
+    }
+
+    /**
+     * Gets the names of the items in a Rosetta file, for comparison with analyzed modules.
+     * @param file The Rosetta file.
+     */
+    protected getRosettaFileNames(file: RosettaFile): string[] {
+        const names: string[] = []
+        const classes = [
+            ...Object.values(file.classes),
+            ...Object.values(file.tables),
+        ]
+
+        for (const cls of classes) {
+            names.push(cls.name)
+            names.push(
+                ...this.getRosettaMemberNames(cls).map(
+                    (x) => `${cls.name}.${x}`,
+                ),
+            )
+        }
+
+        names.push(...Object.keys(file.functions))
+        names.push(...Object.keys(file.fields))
+
+        return names
+    }
+
+    /**
+     * Gets the names of the functions and fields of a Rosetta class or table.
+     * @param cls The class or table.
+     */
+    protected getRosettaMemberNames(
+        cls: RosettaClass | RosettaTable,
+    ): string[] {
+        return [
+            ...Object.keys(cls.methods ?? {}),
+            ...Object.keys(cls.staticMethods ?? {}),
+            ...Object.keys(cls.staticFields ?? {}),
+            ...Object.keys((cls as RosettaClass).fields ?? {}),
+        ]
+    }
+
+    /**
+     * Gets a string describing the parameter and return types of a function in Rosetta file content.
+     * @param func The function data.
+     */
+    protected getSignature(func: any): string {
+        const params = Array.isArray(func?.parameters) ? func.parameters : []
+        const returns = Array.isArray(func?.return) ? func.return : []
+
+        const paramTypes = params.map(
+            (x: any) =>
+                `${x?.name}${x?.optional ? '?' : ''}: ${x?.type ?? 'unknown'}`,
+        )
+
+        const returnTypes = returns.map((x: any) => x?.type ?? 'unknown')
+        const signature = `(${paramTypes.join(', ')})`
+
+        return returnTypes.length > 0
+            ? `${signature} -> ${returnTypes.join(', ')}`
+            : signature
+    }
+
+    /**
+     * Gets the directories to watch for changes in watch mode.
+     */
+    protected getWatchDirectories(): string[] {
+        return [...super.getWatchDirectories(), this.rosettaDir]
+    }
+
+    /**
+     * Matches Rosetta files without a module to modules without a Rosetta file, to carry data over for moved or renamed files.
+     * Matched files are moved to the new file identifier, and the old files are deleted.
+     * @param modules The analyzed modules.
+     */
+    protected async matchMovedFiles(modules: AnalyzedModule[]) {
+        const moduleMap = new Map(modules.map((x) => [x.id, x]))
+        const newIds = modules
+            .map((x) => x.id)
+            .filter((x) => !this.rosetta.files[x] && !this.extraFiles.has(x))
+
+        const oldIds = Object.values(this.rosetta.files)
+            .filter(
+                (x) =>
+                    !moduleMap.has(x.id) &&
+                    !this.extraFiles.has(x.id) &&
+                    !x.tags.has('StubGen_Definitions'),
+            )
+            .map((x) => x.id)
+
+        if (newIds.length === 0 || oldIds.length === 0) {
+            return
+        }
+
+        const newNames = new Map(
+            newIds.map((x) => [x, this.getModuleNames(moduleMap.get(x)!)]),
+        )
+
+        const oldNames = new Map(
+            oldIds.map((x) => [
+                x,
+                this.getRosettaFileNames(this.rosetta.files[x]),
+            ]),
+        )
+
+        const renames = this.findRenames(
+            oldIds,
+            newIds,
+            (oldId, newId) => {
+                const sameName = path.basename(oldId) === path.basename(newId)
+                const similarity = getSimilarity(
+                    oldNames.get(oldId)!,
+                    newNames.get(newId)!,
+                )
+
+                return 0.8 * similarity + (sameName ? 0.2 : 0)
+            },
+            FILE_MATCH_THRESHOLD,
+        )
+
+        for (const [oldId, newId] of renames) {
+            const file = this.rosetta.files[oldId]
+            delete this.rosetta.files[oldId]
+
+            file.id = newId
+            this.rosetta.files[newId] = file
+            log.info(`Matched moved Rosetta file '${oldId}' to '${newId}'`)
+
+            if (file.filename) {
+                await this.deleteFile(file.filename, oldId)
+            }
+        }
+    }
+
+    /**
+     * Matches unknown Rosetta classes or tables to new ones, to carry data over for renamed items.
+     * Matched items are moved to the new name.
+     * @param moduleId A module file identifier.
+     * @param kind The kind of the items.
+     * @param items The analyzed classes or tables.
+     * @param rosettaItems The Rosetta classes or tables.
+     */
+    protected matchRenamedClasses(
+        moduleId: string,
+        kind: 'class' | 'table',
+        items: (AnalyzedClass | AnalyzedTable)[],
+        rosettaItems: Record<string, RosettaClass | RosettaTable>,
+    ) {
+        const itemMap = new Map(items.map((x) => [x.name, x]))
+        const newNames = items
+            .map((x) => x.name)
+            .filter((x) => !rosettaItems[x])
+
+        const oldNames = Object.values(rosettaItems)
+            .filter((x) => !itemMap.has(x.name))
+            .filter((x) => !this.shouldSkip(x.name, x.tags))
+            .map((x) => x.name)
+
+        const renames = this.findRenames(
+            oldNames,
+            newNames,
+            (oldName, newName) => {
+                const similarity = getSimilarity(
+                    this.getRosettaMemberNames(rosettaItems[oldName]),
+                    this.getMemberNames(itemMap.get(newName)!),
+                )
+
+                return (
+                    0.7 * similarity + 0.3 * getNameSimilarity(oldName, newName)
+                )
+            },
+            CLASS_MATCH_THRESHOLD,
+        )
+
+        for (const [oldName, newName] of renames) {
+            const item = rosettaItems[oldName]
+            delete rosettaItems[oldName]
+
+            item.name = newName
+            rosettaItems[newName] = item
+            this.addMemberRename(moduleId, oldName, newName)
+            log.info(
+                `Matched renamed ${kind} '${oldName}' to '${newName}' in '${moduleId}'`,
+            )
+        }
+    }
+
+    /**
+     * Matches unknown Rosetta functions to new ones, to carry data over for renamed functions.
+     * Functions are compared by name, parameters, and position.
+     * Matched functions are moved to the new name.
+     * @param moduleId A module file identifier.
+     * @param type The type of the functions.
+     * @param funcs The analyzed functions.
+     * @param rosettaFuncs The Rosetta functions.
+     * @param parentName The name of the containing class, if these are class functions.
+     */
+    protected matchRenamedFunctions(
+        moduleId: string,
+        type: 'method' | 'function',
+        funcs: AnalyzedFunction[],
+        rosettaFuncs: Record<string, RosettaFunction>,
+        parentName?: string,
+    ) {
+        const funcMap = new Map(funcs.map((x) => [x.name, x]))
+        const newNames = funcs
+            .map((x) => x.name)
+            .filter((x) => !rosettaFuncs[x])
+
+        const oldNames = Object.values(rosettaFuncs)
+            .filter((x) => !funcMap.has(x.name))
+            .filter((x) => !this.shouldSkip(x.name, x.tags))
+            .map((x) => x.name)
+
+        const newPositions = funcs.map((x) => x.name)
+        const oldPositions = Object.keys(rosettaFuncs)
+        const renames = this.findRenames(
+            oldNames,
+            newNames,
+            (oldName, newName) => {
+                const oldParams = (rosettaFuncs[oldName].parameters ?? [])
+                    .map((x) => x.name)
+                    .filter((x) => x !== 'self')
+
+                const newParams = funcMap
+                    .get(newName)!
+                    .parameters.map((x) => x.name)
+                    .filter((x) => x !== 'self')
+
+                // functions without parameters are weak evidence of a match
+                const paramScore =
+                    oldParams.length === 0 && newParams.length === 0
+                        ? 0.5
+                        : getSimilarity(oldParams, newParams)
+
+                const sameCount = oldParams.length === newParams.length
+                const samePosition =
+                    oldPositions.indexOf(oldName) ===
+                    newPositions.indexOf(newName)
+
+                return (
+                    0.4 * getNameSimilarity(oldName, newName) +
+                    0.3 * paramScore +
+                    (sameCount ? 0.15 : 0) +
+                    (samePosition ? 0.15 : 0)
+                )
+            },
+            FUNCTION_MATCH_THRESHOLD,
+        )
+
+        const prefix = parentName
+            ? `${parentName}${type === 'method' ? ':' : '.'}`
+            : ''
+
+        for (const [oldName, newName] of renames) {
+            const rosettaFunc = rosettaFuncs[oldName]
+            delete rosettaFuncs[oldName]
+
+            rosettaFunc.name = newName
+            rosettaFuncs[newName] = rosettaFunc
+            this.addMemberRename(moduleId, prefix + oldName, prefix + newName)
+
+            log.info(
+                `Matched renamed ${type} '${prefix}${oldName}' to '${prefix}${newName}' in '${moduleId}'`,
+            )
+        }
+    }
+
+    /**
+     * Marks every item in a Rosetta file as removed.
+     * @param file The Rosetta file.
+     */
+    protected markFileRemoved(file: RosettaFile) {
+        for (const cls of Object.values(file.classes)) {
+            this.markRemoved(cls, `class '${cls.name}'`, file.id)
+        }
+
+        for (const table of Object.values(file.tables)) {
+            this.markRemoved(table, `table '${table.name}'`, file.id)
+        }
+
+        for (const func of Object.values(file.functions)) {
+            this.markRemoved(func, `function '${func.name}'`, file.id)
+        }
+
+        for (const [name, field] of Object.entries(file.fields)) {
+            this.markRemoved(field, `field '${name}'`, file.id)
+        }
+    }
+
+    /**
+     * Marks a Rosetta item as deprecated and removed from the Lua source.
+     * Items that are already marked as removed keep their original version.
+     * If the item wasn't already deprecated, it's tagged so that the deprecation can be cleared if it reappears.
+     * @param item The Rosetta item.
+     * @param description A description of the item for log output.
+     * @param moduleId A module file identifier.
+     */
+    protected markRemoved(
+        item: RemovableItem,
+        description: string,
+        moduleId: string,
+    ) {
+        if (item.tags?.includes('StubGen_Removed')) {
+            return
+        }
+
+        const tags = [
+            ...(item.tags ?? []),
+            'StubGen_Removed',
+            `StubGen_RemovedIn:${this.removedVersion}`,
+        ]
+
+        if (!item.deprecated) {
+            item.deprecated = true
+            tags.push('StubGen_RemovedDeprecated')
+        }
+
+        item.tags = tags
+
+        log.debug(`Marked ${description} in '${moduleId}' as removed`)
+    }
+
+    /**
+     * Reads the source of YAML Rosetta files, so that they can be updated in place.
+     */
+    protected async readYamlSources() {
+        for (const file of Object.values(this.rosetta.files)) {
+            if (!/\.ya?ml$/i.test(file.filename)) {
+                continue
+            }
+
+            try {
+                this.yamlSources.set(
+                    file,
+                    await readFileContents(file.filename),
+                )
+            } catch (e) {
+                log.warn(`Failed to read Rosetta file '${file.filename}': ${e}`)
+            }
+        }
+    }
+
+    /**
+     * Reports the changes that would be made in a dry run.
+     * The process exit code is set to 1 if any files would change.
+     */
+    protected async reportChanges() {
+        const diffs: string[] = []
+        const summaries: RosettaFileChanges[] = []
+        const formatDir = path.resolve(this.outDirectory, this.rosettaFormat)
+
+        const filePaths = [...this.pendingFiles.keys()].sort()
+        for (const filePath of filePaths) {
+            const newContent = this.pendingFiles.get(filePath)
+            const oldContent = fs.existsSync(filePath)
+                ? (await readFileContents(filePath)).replaceAll('\r', '')
+                : undefined
+
+            if (oldContent === newContent) {
+                continue
+            }
+
+            const name = path.relative('.', filePath).replaceAll('\\', '/')
+            if (this.dryRunFormat === 'json') {
+                const id = path
+                    .relative(formatDir, filePath)
+                    .replaceAll('\\', '/')
+                    .replace(/\.(json|ya?ml)$/i, '')
+
+                summaries.push(
+                    this.getFileChanges(
+                        name,
+                        oldContent,
+                        newContent,
+                        this.memberRenames.get(id),
+                    ),
+                )
+            } else {
+                diffs.push(
+                    getUnifiedDiff(
+                        oldContent,
+                        newContent,
+                        `a/${name}`,
+                        `b/${name}`,
+                    ),
+                )
+            }
+        }
+
+        const count = diffs.length + summaries.length
+        log.verbose(`Found changes in ${count} Rosetta file(s)`)
+
+        if (this.dryRunFormat === 'json') {
+            await writeReport({ files: summaries })
+        } else if (diffs.length > 0) {
+            console.log(diffs.join('\n'))
+        }
+
+        if (count > 0) {
+            process.exitCode = 1
+        }
+    }
+
     /**
      * Determines whether a module should be skipped.
      * @param name The module identifier.
@@ -99,11 +921,49 @@ export class RosettaUpdater extends RosettaGenerator {
         )
     }
 
+    /**
+     * Removes the removal tags from an item that has reappeared in the Lua source.
+     * The item's deprecation is only removed if it was added when the item was marked as removed.
+     * @param item The Rosetta item.
+     * @param description A description of the item for log output.
+     * @param moduleId A module file identifier.
+     */
+    protected unmarkRemoved(
+        item: RemovableItem,
+        description: string,
+        moduleId: string,
+    ) {
+        if (!item.tags?.includes('StubGen_Removed')) {
+            return
+        }
+
+        if (item.tags.includes('StubGen_RemovedDeprecated')) {
+            delete item.deprecated
+        }
+
+        item.tags = item.tags.filter(
+            (x) =>
+                x !== 'StubGen_Removed' &&
+                x !== 'StubGen_RemovedDeprecated' &&
+                !x.startsWith('StubGen_RemovedIn:'),
+        )
+
+        if (item.tags.length === 0) {
+            delete item.tags
+        }
+
+        log.debug(`Restored removed ${description} in '${moduleId}'`)
+    }
+
     /**
      * Updates Rosetta data for the given modules.
      * @param modules The modules to update.
      */
     protected async update(modules: AnalyzedModule[]) {
+        this.memberRenames.clear()
+        await this.readYamlSources()
+        await this.matchMovedFiles(modules)
+
         for (const mod of modules) {
             if (this.extraFiles.has(mod.id)) {
                 continue
@@ -142,6 +1002,11 @@ export class RosettaUpdater extends RosettaGenerator {
                 continue
             }
 
+            if (this.deprecateUnknown) {
+                this.markFileRemoved(file)
+                continue
+            }
+
             const filename = file.filename
             if (!filename || !this.deleteUnknown) {
                 log.warn(`Found unknown file in Rosetta data: '${file.id}'`)
@@ -153,15 +1018,7 @@ export class RosettaUpdater extends RosettaGenerator {
 
         for (const file of toDelete) {
             delete this.rosetta.files[file.id]
-
-            try {
-                await fs.promises.unlink(file.filename!)
-                log.verbose(`Deleted Rosetta data file '${file.id}'`)
-            } catch (e) {
-                log.error(
-                    `Failed to delete Rosetta data file '${file.id}': ${e}`,
-                )
-            }
+            await this.deleteFile(file.filename!, file.id)
         }
 
         await this.transformModules(modules)
@@ -173,6 +1030,8 @@ export class RosettaUpdater extends RosettaGenerator {
      * @param file The associated Rosetta file.
      */
     protected updateClasses(mod: AnalyzedModule, file: RosettaFile) {
+        this.matchRenamedClasses(mod.id, 'class', mod.classes, file.classes)
+
         const clsMap = new Map(mod.classes.map((x) => [x.name, x]))
 
         const toDelete = new Set<string>()
@@ -188,6 +1047,12 @@ export class RosettaUpdater extends RosettaGenerator {
                     log.debug(
                         `Deleted unknown class '${rosettaCls.name}' from '${mod.id}'`,
                     )
+                } else if (this.deprecateUnknown) {
+                    this.markRemoved(
+                        rosettaCls,
+                        `class '${rosettaCls.name}'`,
+                        mod.id,
+                    )
                 } else {
                     log.warn(
                         `Found unknown class '${rosettaCls.name}' in '${mod.id}'`,
@@ -197,6 +1062,15 @@ export class RosettaUpdater extends RosettaGenerator {
                 continue
             }
 
+            this.unmarkRemoved(rosettaCls, `class '${rosettaCls.name}'`, mod.id)
+
+            if (cls.description && !rosettaCls.notes) {
+                rosettaCls.notes = cls.description
+                log.debug(
+                    `Added notes from source comments for class '${rosettaCls.name}' in '${mod.id}'`,
+                )
+            }
+
             this.updateConstructors(mod.id, cls.constructors, rosettaCls)
 
             this.updateFunctions(
@@ -278,6 +1152,12 @@ export class RosettaUpdater extends RosettaGenerator {
                 log.debug(
                     `Deleted constructor from class '${clsName}' in '${moduleId}'`,
                 )
+            } else if (this.deprecateUnknown) {
+                this.markRemoved(
+                    rosettaCons,
+                    `'${clsName}' constructor`,
+                    moduleId,
+                )
             } else {
                 log.warn(
                     `Found unknown constructor in class '${clsName}', in '${moduleId}'`,
@@ -287,6 +1167,15 @@ export class RosettaUpdater extends RosettaGenerator {
             return
         }
 
+        this.unmarkRemoved(rosettaCons, `'${clsName}' constructor`, moduleId)
+
+        if (cons.description && !rosettaCons.notes) {
+            rosettaCons.notes = cons.description
+            log.debug(
+                `Added notes from source comments for '${clsName}' constructor in '${moduleId}'`,
+            )
+        }
+
         this.updateParameters(
             moduleId,
             `'${clsName}' constructor`,
@@ -338,6 +1227,12 @@ export class RosettaUpdater extends RosettaGenerator {
                     log.debug(
                         `Deleted unknown field '${fullName}' from '${moduleId}'`,
                     )
+                } else if (this.deprecateUnknown) {
+                    this.markRemoved(
+                        rosettaField,
+                        `field '${fullName}'`,
+                        moduleId,
+                    )
                 } else {
                     log.warn(
                         `Found unknown field '${fullName}' in '${moduleId}'`,
@@ -347,6 +1242,19 @@ export class RosettaUpdater extends RosettaGenerator {
                 continue
             }
 
+            this.unmarkRemoved(rosettaField, `field '${fullName}'`, moduleId)
+
+            // prefill types from annotation comments
+            if (field.isAnnotated && !rosettaField.type) {
+                const [type, nullable] = convertAnalyzedTypes(field.types)
+                rosettaField.type = type
+                rosettaField.nullable = nullable || undefined
+
+                log.debug(
+                    `Added annotated type for field '${fullName}' in '${moduleId}'`,
+                )
+            }
+
             if (updateDefault && field.expression) {
                 const expr = expressionToDefaultValue(field.expression)
 
@@ -384,6 +1292,14 @@ export class RosettaUpdater extends RosettaGenerator {
             return
         }
 
+        this.matchRenamedFunctions(
+            moduleId,
+            type,
+            funcs,
+            rosettaFuncs,
+            parentName,
+        )
+
         const toDelete = new Set<string>()
         const funcMap = new Map(funcs.map((x) => [x.name, x]))
         for (const rosettaFunc of Object.values(rosettaFuncs)) {
@@ -404,6 +1320,12 @@ export class RosettaUpdater extends RosettaGenerator {
                     log.debug(
                         `Deleted unknown ${type} '${fullName}' from '${moduleId}'`,
                     )
+                } else if (this.deprecateUnknown) {
+                    this.markRemoved(
+                        rosettaFunc,
+                        `${type} '${fullName}'`,
+                        moduleId,
+                    )
                 } else {
                     log.warn(
                         `Found unknown ${type} '${fullName}' in '${moduleId}'`,
@@ -413,6 +1335,15 @@ export class RosettaUpdater extends RosettaGenerator {
                 continue
             }
 
+            this.unmarkRemoved(rosettaFunc, `${type} '${fullName}'`, moduleId)
+
+            if (func.description && !rosettaFunc.notes) {
+                rosettaFunc.notes = func.description
+                log.debug(
+                    `Added notes from source comments for ${type} '${fullName}' in '${moduleId}'`,
+                )
+            }
+
             this.updateParameters(
                 moduleId,
                 `'${fullName}'`,
@@ -420,6 +1351,14 @@ export class RosettaUpdater extends RosettaGenerator {
                 rosettaFunc,
                 type === 'method',
             )
+
+            // prefill returns from annotation comments
+            if (func.hasAnnotatedReturns && !rosettaFunc.return) {
+                rosettaFunc.return = convertAnalyzedReturns(func.returnTypes)
+                log.debug(
+                    `Added annotated returns for ${type} '${fullName}' in '${moduleId}'`,
+                )
+            }
         }
 
         for (const name of toDelete) {
@@ -450,8 +1389,28 @@ export class RosettaUpdater extends RosettaGenerator {
             paramSet.add('self')
         }
 
+        // match renamed parameters by position
+        const renamed = new Map<string, RosettaParameter>()
+        const renamedFrom = new Set<string>()
+        const rosettaNames = new Set(params.map((x) => x.name))
+        const oldParams = params.filter((x) => x.name !== 'self')
+        const newParams = func.parameters.filter((x) => x.name !== 'self')
+        for (let i = 0; i < oldParams.length && i < newParams.length; i++) {
+            const oldName = oldParams[i].name
+            const newName = newParams[i].name
+            if (paramSet.has(oldName) || rosettaNames.has(newName)) {
+                continue
+            }
+
+            renamed.set(newName, { ...oldParams[i], name: newName })
+            renamedFrom.add(oldName)
+            log.info(
+                `Matched renamed parameter '${oldName}' to '${newName}' in ${funcName}, in '${moduleId}'`,
+            )
+        }
+
         for (const param of params) {
-            if (paramSet.has(param.name)) {
+            if (paramSet.has(param.name) || renamedFrom.has(param.name)) {
                 continue
             }
 
@@ -485,12 +1444,19 @@ export class RosettaUpdater extends RosettaGenerator {
         }
 
         for (const param of func.parameters) {
-            let rosettaParam = rosettaParamMap.get(param.name)
+            let rosettaParam =
+                rosettaParamMap.get(param.name) ?? renamed.get(param.name)
             if (!rosettaParam) {
                 rosettaParam = convertAnalyzedParameter(param)
                 log.debug(
                     `Added new parameter '${param.name}' to ${funcName} in '${moduleId}'`,
                 )
+            } else if (param.isAnnotated && !rosettaParam.type) {
+                // prefill types from annotation comments
+                rosettaParam = convertAnalyzedParameter(param, rosettaParam)
+                log.debug(
+                    `Added annotated type for parameter '${param.name}' of ${funcName} in '${moduleId}'`,
+                )
             }
 
             updated.push(rosettaParam)
@@ -511,6 +1477,8 @@ export class RosettaUpdater extends RosettaGenerator {
      * @param file The Rosetta file.
      */
     protected updateTables(mod: AnalyzedModule, file: RosettaFile) {
+        this.matchRenamedClasses(mod.id, 'table', mod.tables, file.tables)
+
         const tableMap = new Map(mod.tables.map((x) => [x.name, x]))
 
         const toDelete = new Set<string>()
@@ -526,6 +1494,12 @@ export class RosettaUpdater extends RosettaGenerator {
                     log.debug(
                         `Deleted unknown table '${rosettaTable.name}' from '${mod.id}'`,
                     )
+                } else if (this.deprecateUnknown) {
+                    this.markRemoved(
+                        rosettaTable,
+                        `table '${rosettaTable.name}'`,
+                        mod.id,
+                    )
                 } else {
                     log.warn(
                         `Found unknown table '${rosettaTable.name}' in '${mod.id}'`,
@@ -535,6 +1509,19 @@ export class RosettaUpdater extends RosettaGenerator {
                 continue
             }
 
+            this.unmarkRemoved(
+                rosettaTable,
+                `table '${rosettaTable.name}'`,
+                mod.id,
+            )
+
+            if (table.description && !rosettaTable.notes) {
+                rosettaTable.notes = table.description
+                log.debug(
+                    `Added notes from source comments for table '${rosettaTable.name}' in '${mod.id}'`,
+                )
+            }
+
             this.updateFunctions(
                 mod.id,
                 'method',
@@ -563,4 +1550,18 @@ export class RosettaUpdater extends RosettaGenerator {
             delete file.tables[name]
         }
     }
+
+    /**
+     * Writes an output file, or records the content to be written in a dry run.
+     * @param outFile The path of the file to write.
+     * @param content The file content.
+     */
+    protected async writeOutputFile(outFile: string, content: string) {
+        if (this.dryRun) {
+            this.pendingFiles.set(path.resolve(outFile), content)
+            return
+        }
+
+        await super.writeOutputFile(outFile, content)
+    }
 }
@@ -0,0 +1,829 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { BaseCommandHandler } from '../common'
+import {
+    getTypeExpressionNames,
+    isBuiltinTypeName,
+    log,
+    parseTypeExpression,
+    readFileContents,
+    time,
+    writeReport,
+} from '../helpers'
+
+import type {
+    RosettaIssueCode,
+    RosettaSchemaObject,
+    RosettaSchemaRule,
+    RosettaValidateArgs,
+    RosettaValidationIssue,
+} from './types'
+
+/**
+ * Callback to record a validation issue.
+ */
+type IssueCallback = (
+    offset: number,
+    code: RosettaIssueCode,
+    path: string,
+    message: string,
+    severity?: 'error' | 'warning',
+) => void
+
+/**
+ * The expected Rosetta version.
+ */
+const VERSION = '1.1'
+
+/**
+ * Valid names for operators.
+ */
+const OPERATIONS = new Set([
+    'add',
+    'sub',
+    'mul',
+    'div',
+    'idiv',
+    'mod',
+    'pow',
+    'unm',
+    'concat',
+    'len',
+    'eq',
+    'lt',
+    'le',
+    'band',
+    'bor',
+    'bxor',
+    'bnot',
+    'shl',
+    'shr',
+    'call',
+])
+
+/**
+ * Rules for parameter lists.
+ */
+const PARAMETERS: RosettaSchemaRule = { array: { object: 'parameter' } }
+
+/**
+ * Rules for return lists.
+ */
+const RETURNS: RosettaSchemaRule = { array: { object: 'return' } }
+
+/**
+ * Rules for overload lists.
+ */
+const OVERLOADS: RosettaSchemaRule = { array: { object: 'overload' } }
+
+/**
+ * Rules for operator lists.
+ */
+const OPERATORS: RosettaSchemaRule = { array: { object: 'operator' } }
+
+/**
+ * Rules for field maps.
+ */
+const FIELDS: RosettaSchemaRule = { map: { object: 'field' } }
+
+/**
+ * Rules for generic type parameter lists.
+ */
+const GENERICS: RosettaSchemaRule = { named: 'generic' }
+
+/**
+ * Descriptions of the objects in the Rosetta 1.1 schema.
+ */
+const SCHEMA: Record<string, RosettaSchemaObject> = {
+    file: {
+        fields: {
+            $schema: 'string',
+            version: 'version',
+            languages: { object: 'languages' },
+        },
+        required: ['version'],
+    },
+    languages: {
+        fields: {
+            lua: { object: 'lua' },
+            '*': 'any',
+        },
+    },
+    lua: {
+        fields: {
+            aliases: { map: { array: { object: 'alias' } } },
+            classes: { map: { object: 'class' } },
+            tables: { map: { object: 'table' } },
+            enums: { map: { object: 'enum' } },
+            events: { map: { object: 'event' } },
+            fields: FIELDS,
+            functions: { named: 'function' },
+            tags: 'tags',
+        },
+    },
+    alias: {
+        fields: {
+            type: 'type',
+            notes: 'string',
+        },
+        required: ['type'],
+    },
+    class: {
+        fields: {
+            name: 'string',
+            extends: 'string',
+            generics: GENERICS,
+            notes: 'string',
+            deprecated: 'boolean',
+            mutable: 'boolean',
+            local: 'boolean',
+            constructors: { array: { object: 'classConstructor' } },
+            fields: FIELDS,
+            staticFields: FIELDS,
+            methods: { named: 'function' },
+            staticMethods: { named: 'function' },
+            overloads: OVERLOADS,
+            operators: OPERATORS,
+            tags: 'tags',
+        },
+    },
+    table: {
+        fields: {
+            name: 'string',
+            notes: 'string',
+            deprecated: 'boolean',
+            mutable: 'boolean',
+            local: 'boolean',
+            staticFields: FIELDS,
+            methods: { named: 'function' },
+            staticMethods: { named: 'function' },
+            overloads: OVERLOADS,
+            operators: OPERATORS,
+            tags: 'tags',
+        },
+    },
+    enum: {
+        fields: {
+            name: 'string',
+            notes: 'string',
+            deprecated: 'boolean',
+            tags: 'tags',
+        },
+    },
+    event: {
+        fields: {
+            name: 'string',
+            notes: 'string',
+            deprecated: 'boolean',
+            parameters: PARAMETERS,
+            tags: 'tags',
+        },
+    },
+    classConstructor: {
+        fields: {
+            notes: 'string',
+            deprecated: 'boolean',
+            parameters: PARAMETERS,
+            tags: 'tags',
+        },
+    },
+    function: {
+        fields: {
+            name: 'string',
+            notes: 'string',
+            deprecated: 'boolean',
+            parameters: PARAMETERS,
+            return: RETURNS,
+            generics: GENERICS,
+            overloads: OVERLOADS,
+            tags: 'tags',
+        },
+        required: ['name'],
+    },
+    operator: {
+        fields: {
+            operation: 'operation',
+            parameter: 'type',
+            return: 'type',
+            tags: 'tags',
+        },
+    },
+    overload: {
+        fields: {
+            notes: 'string',
+            parameters: PARAMETERS,
+            return: RETURNS,
+            generics: GENERICS,
+            tags: 'tags',
+        },
+    },
+    generic: {
+        fields: {
+            name: 'string',
+            extends: 'type',
+        },
+        required: ['name'],
+    },
+    field: {
+        fields: {
+            type: 'type',
+            notes: 'string',
+            nullable: 'boolean',
+            deprecated: 'boolean',
+            defaultValue: 'string',
+            tags: 'tags',
+        },
+    },
+    parameter: {
+        fields: {
+            name: 'string',
+            type: 'type',
+            notes: 'string',
+            optional: 'boolean',
+            nullable: 'boolean',
+        },
+        required: ['name'],
+    },
+    return: {
+        fields: {
+            name: 'string',
+            type: 'type',
+            notes: 'string',
+            nullable: 'boolean',
+        },
+    },
+}
+
+/**
+ * Handles validation of Rosetta data files.
+ */
+export class RosettaValidator extends BaseCommandHandler {
+    /**
+     * The directory to read Rosetta files from.
+     */
+    protected rosettaDir: string
+
+    /**
+     * The file to output a report to.
+     */
+    protected outFile: string | undefined
+
+    /**
+     * Issues found during validation.
+     */
+    protected issues: RosettaValidationIssue[]
+
+    /**
+     * Flag for whether to report type names that aren't defined in Rosetta files.
+     */
+    protected warnUnknownTypes: boolean
+
+    /**
+     * Names of classes, aliases, and enums defined in Rosetta files.
+     */
+    protected definedTypes: Set<string>
+
+    /**
+     * Callbacks to report type names that weren't defined, keyed by type name.
+     */
+    protected typeReferences: Map<string, (() => void)[]>
+
+    /**
+     * Names of the generic type parameters in scope for the object being checked.
+     */
+    protected genericScopes: Set<string>[]
+
+    /**
+     * Creates a new Rosetta validator.
+     * @param args Arguments for validation.
+     */
+    constructor(args: RosettaValidateArgs) {
+        super(args)
+
+        this.rosettaDir = path.normalize(args.rosetta)
+        this.outFile = args.outputFile
+            ? path.normalize(args.outputFile)
+            : undefined
+
+        this.issues = []
+        this.warnUnknownTypes = args.warnUnknownTypes ?? false
+        this.definedTypes = new Set()
+        this.typeReferences = new Map()
+        this.genericScopes = []
+    }
+
+    /**
+     * Validates the Rosetta files in the Rosetta directory.
+     * @returns The list of issues found.
+     */
+    async run(): Promise<RosettaValidationIssue[]> {
+        this.issues = []
+        this.definedTypes.clear()
+        this.typeReferences.clear()
+
+        const fileCount = await time('Rosetta validation', async () => {
+            let count = 0
+            for (const type of ['json', 'yml']) {
+                const basePath = path.join(this.rosettaDir, type)
+                if (!fs.existsSync(basePath)) {
+                    continue
+                }
+
+                for (const filePath of await this.getFiles(basePath)) {
+                    await this.validateFile(filePath)
+                    count++
+                }
+            }
+
+            for (const [name, reports] of this.typeReferences) {
+                if (!this.definedTypes.has(name)) {
+                    reports.forEach((report) => report())
+                }
+            }
+
+            return count
+        })
+
+        if (fileCount === 0) {
+            log.warn(`Failed to find Rosetta files in '${this.rosettaDir}'`)
+        }
+
+        this.issues.sort(
+            (a, b) =>
+                a.file.localeCompare(b.file) ||
+                a.line - b.line ||
+                a.column - b.column,
+        )
+
+        log.verbose(
+            `Found ${this.issues.length} issue(s) in ${fileCount} Rosetta file(s)`,
+        )
+
+        return this.issues
+    }
+
+    /**
+     * Validates Rosetta files and reports the issues found.
+     * Sets a non-zero exit code if any issues were found.
+     */
+    async generateReport() {
+        const issues = await this.run()
+        await writeReport({ issues }, this.outFile)
+
+        if (issues.some((x) => x.severity === 'error')) {
+            process.exitCode = 1
+        }
+    }
+
+    /**
+     * Validates a single Rosetta file.
+     * @param filePath The path of the file to validate.
+     */
+    async validateFile(filePath: string) {
+        let content: string
+        try {
+            content = await readFileContents(filePath)
+        } catch (e) {
+            log.error(`Failed to read Rosetta file '${filePath}': ${e}`)
+            return
+        }
+
+        const lineCounter = new YAML.LineCounter()
+        const doc = YAML.parseDocument(content, { lineCounter })
+
+        const file = path.resolve(filePath)
+        const addIssue = (
+            offset: number,
+            code: RosettaIssueCode,
+            issuePath: string,
+            message: string,
+            severity: 'error' | 'warning' = 'error',
+        ) => {
+            const pos = lineCounter.linePos(offset)
+            this.issues.push({
+                file,
+                line: pos.line,
+                column: pos.col,
+                code,
+                severity,
+                path: issuePath,
+                message,
+            })
+        }
+
+        for (const error of doc.errors) {
+            const message = error.message.split('\n')[0]
+            addIssue(error.pos[0], 'syntax', '', message)
+        }
+
+        if (doc.errors.length > 0) {
+            return
+        }
+
+        this.checkRule(doc.contents, { object: 'file' }, '', addIssue)
+
+        const lua = doc.toJS()?.languages?.lua
+        for (const key of ['classes', 'aliases', 'enums']) {
+            const defined = lua?.[key]
+            if (defined && typeof defined === 'object') {
+                Object.keys(defined).forEach((x) => this.definedTypes.add(x))
+            }
+        }
+    }
+
+    /**
+     * Checks a type string for syntax errors and records the type names it references.
+     * @param type The type string.
+     * @param offset The offset of the type string.
+     * @param nodePath The path to the type string.
+     * @param addIssue Callback to record an issue.
+     */
+    protected checkTypeString(
+        type: string,
+        offset: number,
+        nodePath: string,
+        addIssue: IssueCallback,
+    ) {
+        let names: Set<string>
+        try {
+            names = getTypeExpressionNames(parseTypeExpression(type))
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e)
+            addIssue(
+                offset,
+                'invalid-type',
+                nodePath,
+                `Malformed type '${type}': ${message}`,
+            )
+
+            return
+        }
+
+        if (!this.warnUnknownTypes) {
+            return
+        }
+
+        for (const name of names) {
+            if (isBuiltinTypeName(name)) {
+                continue
+            }
+
+            if (this.genericScopes.some((x) => x.has(name))) {
+                continue
+            }
+
+            const reports = this.typeReferences.get(name) ?? []
+            reports.push(() =>
+                addIssue(
+                    offset,
+                    'unknown-type',
+                    nodePath,
+                    `Unknown type '${name}'`,
+                    'warning',
+                ),
+            )
+
+            this.typeReferences.set(name, reports)
+        }
+    }
+
+    /**
+     * Checks a value against a schema rule.
+     * @param node The YAML node of the value.
+     * @param rule The rule to check against.
+     * @param nodePath The path to the value.
+     * @param addIssue Callback to record an issue.
+     */
+    protected checkRule(
+        node: unknown,
+        rule: RosettaSchemaRule,
+        nodePath: string,
+        addIssue: IssueCallback,
+    ) {
+        const offset = this.getOffset(node)
+
+        if (typeof rule === 'string') {
+            this.checkScalarRule(node, rule, nodePath, addIssue)
+            return
+        }
+
+        if ('object' in rule) {
+            if (!YAML.isMap(node)) {
+                addIssue(
+                    offset,
+                    'invalid-value',
+                    nodePath,
+                    `Expected object (got ${this.describe(node)})`,
+                )
+
+                return
+            }
+
+            this.checkObject(node, SCHEMA[rule.object], nodePath, addIssue)
+            return
+        }
+
+        if ('map' in rule) {
+            if (!YAML.isMap(node)) {
+                addIssue(
+                    offset,
+                    'invalid-value',
+                    nodePath,
+                    `Expected object (got ${this.describe(node)})`,
+                )
+
+                return
+            }
+
+            for (const pair of node.items) {
+                const key = this.getKey(pair)
+                const childPath = this.joinPath(nodePath, key)
+                this.checkRule(pair.value, rule.map, childPath, addIssue)
+            }
+
+            return
+        }
+
+        if (!YAML.isSeq(node)) {
+            addIssue(
+                offset,
+                'invalid-value',
+                nodePath,
+                `Expected array (got ${this.describe(node)})`,
+            )
+
+            return
+        }
+
+        if ('array' in rule) {
+            for (const [i, item] of node.items.entries()) {
+                this.checkRule(item, rule.array, `${nodePath}[${i}]`, addIssue)
+            }
+
+            return
+        }
+
+        const seen = new Set<string>()
+        for (const [i, item] of node.items.entries()) {
+            const itemPath = `${nodePath}[${i}]`
+            this.checkRule(item, { object: rule.named }, itemPath, addIssue)
+
+            if (!YAML.isMap(item)) {
+                continue
+            }
+
+            const name = item.get('name')
+            if (typeof name !== 'string') {
+                continue
+            }
+
+            if (seen.has(name)) {
+                addIssue(
+                    this.getOffset(item),
+                    'duplicate-name',
+                    itemPath,
+                    `Duplicate ${rule.named} name '${name}'`,
+                )
+            }
+
+            seen.add(name)
+        }
+    }
+
+    /**
+     * Checks an object against a schema object description.
+     * @param node The YAML map node.
+     * @param schema The schema object description.
+     * @param nodePath The path to the object.
+     * @param addIssue Callback to record an issue.
+     */
+    protected checkObject(
+        node: YAML.YAMLMap,
+        schema: RosettaSchemaObject,
+        nodePath: string,
+        addIssue: IssueCallback,
+    ) {
+        this.genericScopes.push(this.getGenericNames(node))
+
+        const keys = new Set<string>()
+        for (const pair of node.items) {
+            const key = this.getKey(pair)
+            const childPath = this.joinPath(nodePath, key)
+            keys.add(key)
+
+            const rule = schema.fields[key] ?? schema.fields['*']
+            if (!rule) {
+                addIssue(
+                    this.getOffset(pair.key),
+                    'unknown-key',
+                    childPath,
+                    `Unknown key '${key}'`,
+                )
+
+                continue
+            }
+
+            this.checkRule(pair.value, rule, childPath, addIssue)
+        }
+
+        for (const key of schema.required ?? []) {
+            if (keys.has(key)) {
+                continue
+            }
+
+            addIssue(
+                this.getOffset(node),
+                'missing-field',
+                nodePath,
+                `Missing required field '${key}'`,
+            )
+        }
+
+        this.genericScopes.pop()
+    }
+
+    /**
+     * Checks a scalar value against a schema rule.
+     * @param node The YAML node of the value.
+     * @param rule The rule to check against.
+     * @param nodePath The path to the value.
+     * @param addIssue Callback to record an issue.
+     */
+    protected checkScalarRule(
+        node: unknown,
+        rule: RosettaSchemaRule & string,
+        nodePath: string,
+        addIssue: IssueCallback,
+    ) {
+        const offset = this.getOffset(node)
+        const value = YAML.isScalar(node) ? node.value : undefined
+
+        switch (rule) {
+            case 'any':
+                return
+
+            case 'tags':
+                this.checkRule(node, { array: 'string' }, nodePath, addIssue)
+                return
+
+            case 'boolean':
+                if (typeof value !== 'boolean') {
+                    addIssue(
+                        offset,
+                        'invalid-value',
+                        nodePath,
+                        `Expected boolean (got ${this.describe(node)})`,
+                    )
+                }
+
+                return
+        }
+
+        if (typeof value !== 'string') {
+            addIssue(
+                offset,
+                'invalid-value',
+                nodePath,
+                `Expected string (got ${this.describe(node)})`,
+            )
+
+            return
+        }
+
+        switch (rule) {
+            case 'version':
+                if (value !== VERSION) {
+                    addIssue(
+                        offset,
+                        'invalid-version',
+                        nodePath,
+                        `Unexpected version '${value}' (expected '${VERSION}')`,
+                    )
+                }
+
+                break
+
+            case 'operation':
+                if (!OPERATIONS.has(value)) {
+                    addIssue(
+                        offset,
+                        'invalid-operation',
+                        nodePath,
+                        `Unknown operation '${value}'`,
+                    )
+                }
+
+                break
+
+            case 'type':
+                this.checkTypeString(value, offset, nodePath, addIssue)
+                break
+        }
+    }
+
+    /**
+     * Gets a description of the type of a YAML node for issue messages.
+     * @param node The YAML node.
+     */
+    protected describe(node: unknown): string {
+        if (YAML.isMap(node)) {
+            return 'object'
+        }
+
+        if (YAML.isSeq(node)) {
+            return 'array'
+        }
+
+        if (YAML.isScalar(node)) {
+            return node.value === null ? 'null' : typeof node.value
+        }
+
+        return 'nothing'
+    }
+
+    /**
+     * Gets the paths of all files within a directory, descending the directory tree.
+     * @param baseDirPath The directory to read.
+     */
+    protected async getFiles(baseDirPath: string): Promise<string[]> {
+        const files: string[] = []
+        const stack = [baseDirPath]
+        while (stack.length > 0) {
+            const dirPath = stack.pop()!
+
+            try {
+                const dir = await fs.promises.opendir(dirPath)
+
+                for await (const fileOrDir of dir) {
+                    const childPath = path.join(dirPath, fileOrDir.name)
+
+                    if (fileOrDir.isDirectory()) {
+                        stack.push(childPath)
+                        continue
+                    }
+
+                    const extname = path.extname(childPath)
+                    if (['.json', '.yml', '.yaml'].includes(extname)) {
+                        files.push(childPath)
+                    }
+                }
+            } catch (e) {
+                log.error(`Failed to read Rosetta directory '${dirPath}': ${e}`)
+            }
+        }
+
+        return files.sort()
+    }
+
+    /**
+     * Gets the names of the generic type parameters declared by an object.
+     * @param node The YAML map node.
+     */
+    protected getGenericNames(node: YAML.YAMLMap): Set<string> {
+        const names = new Set<string>()
+        const generics = node.get('generics')
+        if (!YAML.isSeq(generics)) {
+            return names
+        }
+
+        for (const item of generics.items) {
+            const name = YAML.isMap(item) ? item.get('name') : undefined
+            if (typeof name === 'string') {
+                names.add(name)
+            }
+        }
+
+        return names
+    }
+
+    /**
+     * Gets the string key of a YAML pair.
+     * @param pair The YAML pair.
+     */
+    protected getKey(pair: YAML.Pair<unknown, unknown>): string {
+        const key = pair.key
+        return String(YAML.isScalar(key) ? key.value : key)
+    }
+
+    /**
+     * Gets the starting offset of a YAML node.
+     * @param node The YAML node.
+     */
+    protected getOffset(node: unknown): number {
+        if (YAML.isNode(node) && node.range) {
+            return node.range[0]
+        }
+
+        return 0
+    }
+
+    /**
+     * Joins a path with a key.
+     * @param base The base path.
+     * @param key The key to append.
+     */
+    protected joinPath(base: string, key: string): string {
+        return base ? `${base}.${key}` : key
+    }
+}
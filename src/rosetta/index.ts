@@ -2,3 +2,4 @@ export type * from './types'
 export { Rosetta } from './Rosetta'
 export { RosettaGenerator } from './RosettaGenerator'
 export { RosettaUpdater } from './RosettaUpdater'
+export { RosettaValidator } from './RosettaValidator'
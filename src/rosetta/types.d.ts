@@ -1,4 +1,4 @@
-import { BaseAnnotateArgs } from '../common'
+import { BaseAnnotateArgs, BaseReportArgs } from '../common'
 
 /**
  * Arguments for reading Rosetta data.
@@ -50,12 +50,125 @@ export interface RosettaUpdateArgs extends RosettaGenerateArgs {
      */
     deleteUnknown?: boolean
 
+    /**
+     * Flag for whether unknown items should be kept and marked as deprecated instead of deleted.
+     * Items are tagged with `StubGen_Removed` and `StubGen_RemovedIn:<version>`.
+     * Items which weren't already deprecated are also tagged with `StubGen_RemovedDeprecated`.
+     */
+    deprecateUnknown?: boolean
+
+    /**
+     * The version or date to record for items that are no longer in the Lua source.
+     * Defaults to the current date.
+     */
+    removedVersion?: string
+
+    /**
+     * Flag for whether changes should be reported instead of written.
+     */
+    dryRun?: boolean
+
+    /**
+     * The format to use to report changes in a dry run.
+     */
+    dryRunFormat?: 'diff' | 'json'
+
     /**
      * File identifiers to treat as extra and not update.
      */
     extraFiles?: string[]
 }
 
+/**
+ * A summary of the changes that an update would make to a Rosetta file.
+ */
+export interface RosettaFileChanges {
+    /**
+     * The path of the file, relative to the working directory.
+     */
+    file: string
+
+    /**
+     * Whether the file would be added, modified, or deleted.
+     */
+    status: 'added' | 'modified' | 'deleted'
+
+    /**
+     * Names of members that would be added.
+     */
+    added: string[]
+
+    /**
+     * Names of members that would be removed.
+     */
+    removed: string[]
+
+    /**
+     * Members that would be renamed, with their data carried over.
+     */
+    renamed: RosettaMemberRename[]
+
+    /**
+     * Members with types that would change.
+     */
+    typeChanges: RosettaTypeChange[]
+
+    /**
+     * Names of members with notes that would be dropped.
+     */
+    notesDropped: string[]
+}
+
+/**
+ * A rename of a Rosetta member.
+ */
+export interface RosettaMemberRename {
+    /**
+     * The old name of the member.
+     */
+    old: string
+
+    /**
+     * The new name of the member.
+     */
+    new: string
+}
+
+/**
+ * A change to the type of a Rosetta member.
+ */
+export interface RosettaTypeChange {
+    /**
+     * The name of the member.
+     */
+    name: string
+
+    /**
+     * The old type.
+     */
+    old: string
+
+    /**
+     * The new type.
+     */
+    new: string
+}
+
+/**
+ * Arguments for Rosetta validation.
+ */
+export interface RosettaValidateArgs extends BaseReportArgs {
+    /**
+     * The directory to read Rosetta files from.
+     */
+    rosetta: string
+
+    /**
+     * Flag for whether to report warnings for type names that aren't defined in Rosetta files.
+     */
+    warnUnknownTypes?: boolean
+}
+
 /**
  * Rosetta data read from a file.
  */
@@ -85,6 +198,16 @@ export interface RosettaFile {
      */
     tables: Record<string, RosettaTable>
 
+    /**
+     * Map of table identifiers to tables to annotate with `@enum`.
+     */
+    enums: Record<string, RosettaEnum>
+
+    /**
+     * Map of event names to events, written to the `Events` table.
+     */
+    events: Record<string, RosettaEvent>
+
     /**
      * Map of function identifiers to functions to include.
      */
@@ -115,6 +238,11 @@ export interface RosettaClass {
      */
     extends?: string
 
+    /**
+     * Generic type parameters of the class, annotated as `@class Name<T>`.
+     */
+    generics?: RosettaGeneric[]
+
     /**
      * Notes to include in the class annotation.
      */
@@ -238,6 +366,61 @@ export interface RosettaTable {
     tags?: string[]
 }
 
+/**
+ * Rosetta data about an enum table.
+ */
+export interface RosettaEnum {
+    /**
+     * The table identifier.
+     */
+    name: string
+
+    /**
+     * Notes to include in the enum annotation.
+     */
+    notes?: string
+
+    /**
+     * Flag for whether the enum should be marked as deprecated.
+     */
+    deprecated?: boolean
+
+    /**
+     * List of tags for the enum.
+     */
+    tags?: string[]
+}
+
+/**
+ * Rosetta data about an event.
+ */
+export interface RosettaEvent {
+    /**
+     * The event name.
+     */
+    name: string
+
+    /**
+     * Notes to include for the event.
+     */
+    notes?: string
+
+    /**
+     * Flag for whether the event should be marked as deprecated.
+     */
+    deprecated?: boolean
+
+    /**
+     * Parameters passed to callbacks for the event.
+     */
+    parameters?: RosettaParameter[]
+
+    /**
+     * List of tags for the event.
+     */
+    tags?: string[]
+}
+
 /**
  * Rosetta data about a class constructor.
  */
@@ -256,6 +439,11 @@ export interface RosettaConstructor {
      * Function parameters.
      */
     parameters?: RosettaParameter[]
+
+    /**
+     * List of tags for the constructor.
+     */
+    tags?: string[]
 }
 
 /**
@@ -287,6 +475,11 @@ export interface RosettaFunction {
      */
     return?: RosettaReturn[]
 
+    /**
+     * Generic type parameters of the function, annotated with `@generic`.
+     */
+    generics?: RosettaGeneric[]
+
     /**
      * List of overloads, annotated with `@overload`.
      */
@@ -360,6 +553,11 @@ export interface RosettaOverload {
      */
     return?: RosettaReturn[]
 
+    /**
+     * Generic type parameters of the overload.
+     */
+    generics?: RosettaGeneric[]
+
     /**
      * List of tags for the overload.
      */
@@ -385,6 +583,11 @@ export interface RosettaField {
      */
     nullable?: boolean
 
+    /**
+     * Flag for whether the field should be marked as deprecated.
+     */
+    deprecated?: boolean
+
     /**
      * A default value to include with the field.
      */
@@ -426,6 +629,21 @@ export interface RosettaParameter {
     nullable?: boolean
 }
 
+/**
+ * Rosetta data about a generic type parameter.
+ */
+export interface RosettaGeneric {
+    /**
+     * The name of the type parameter.
+     */
+    name: string
+
+    /**
+     * A type that the type parameter is constrained to.
+     */
+    extends?: string
+}
+
 /**
  * Rosetta data about a function return.
  */
@@ -512,3 +730,100 @@ export type WritableRosettaTable = HasMethodLists &
  * Function that reads a string and returns a Rosetta data object.
  */
 export type RosettaDataReader = (text: string) => any
+
+/**
+ * Identifier for the kind of a Rosetta validation issue.
+ */
+export type RosettaIssueCode =
+    | 'syntax'
+    | 'invalid-version'
+    | 'unknown-key'
+    | 'missing-field'
+    | 'invalid-value'
+    | 'invalid-operation'
+    | 'invalid-type'
+    | 'unknown-type'
+    | 'duplicate-name'
+
+/**
+ * A problem found while validating a Rosetta file.
+ */
+export interface RosettaValidationIssue {
+    /**
+     * The path of the file containing the issue.
+     */
+    file: string
+
+    /**
+     * The line of the issue, starting from 1.
+     */
+    line: number
+
+    /**
+     * The column of the issue, starting from 1.
+     */
+    column: number
+
+    /**
+     * The kind of issue.
+     */
+    code: RosettaIssueCode
+
+    /**
+     * The severity of the issue.
+     */
+    severity: 'error' | 'warning'
+
+    /**
+     * The path to the value with the issue, delimited by `.`.
+     */
+    path: string
+
+    /**
+     * A description of the issue.
+     */
+    message: string
+}
+
+/**
+ * A rule describing the expected value in a Rosetta file.
+ * - `any`: Any value
+ * - `string`: A string
+ * - `boolean`: A boolean
+ * - `version`: The version string of the file
+ * - `type`: A type string
+ * - `operation`: An operator name
+ * - `tags`: A list of strings
+ * - `object`: An object of the given kind
+ * - `array`: A list of values matching the given rule
+ * - `map`: An object with values matching the given rule
+ * - `named`: A list of objects of the given kind with unique `name` fields
+ */
+export type RosettaSchemaRule =
+    | 'any'
+    | 'string'
+    | 'boolean'
+    | 'version'
+    | 'type'
+    | 'operation'
+    | 'tags'
+    | { object: string }
+    | { array: RosettaSchemaRule }
+    | { map: RosettaSchemaRule }
+    | { named: string }
+
+/**
+ * Description of an object in a Rosetta file.
+ */
+export interface RosettaSchemaObject {
+    /**
+     * Maps keys to the rules for their values.
+     * The `*` key applies to keys that aren't otherwise listed.
+     */
+    fields: Record<string, RosettaSchemaRule>
+
+    /**
+     * Keys which must be present.
+     */
+    required?: string[]
+}
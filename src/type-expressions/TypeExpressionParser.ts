@@ -0,0 +1,434 @@
+import type {
+    FunctionTypeExpression,
+    TableTypeExpression,
+    TupleTypeExpression,
+    TypeExpression,
+    TypeExpressionField,
+    TypeExpressionParameter,
+    TypeExpressionToken,
+} from './types'
+
+/**
+ * Symbols which are read as single tokens.
+ */
+const SYMBOLS = new Set([
+    '|',
+    '?',
+    ':',
+    ',',
+    '[',
+    ']',
+    '(',
+    ')',
+    '<',
+    '>',
+    '{',
+    '}',
+])
+
+/**
+ * Handles parsing of LuaLS/EmmyLua type strings.
+ */
+export class TypeExpressionParser {
+    /**
+     * The type string being parsed.
+     */
+    protected text: string
+
+    /**
+     * Tokens read from the type string.
+     */
+    protected tokens: TypeExpressionToken[]
+
+    /**
+     * The index of the current token.
+     */
+    protected index: number
+
+    /**
+     * The depth of nested lists, used to determine whether commas end a function's return list.
+     */
+    protected depth: number
+
+    /**
+     * Creates a new type expression parser.
+     * @param text The type string to parse.
+     */
+    constructor(text: string) {
+        this.text = text
+        this.tokens = []
+        this.index = 0
+        this.depth = 0
+    }
+
+    /**
+     * Parses the type string.
+     * Throws an error if the type string is malformed.
+     * @returns The parsed type expression.
+     */
+    parse(): TypeExpression {
+        this.tokens = this.tokenize()
+        this.index = 0
+        this.depth = 0
+
+        const expr = this.readType()
+        const token = this.peek()
+        if (token.kind !== 'end') {
+            this.fail(`Unexpected '${token.value}'`, token)
+        }
+
+        return expr
+    }
+
+    /**
+     * Throws an error for a token.
+     * @param message The error message.
+     * @param token The token the error occurred at.
+     */
+    protected fail(message: string, token: TypeExpressionToken): never {
+        throw new Error(`${message} at position ${token.position + 1}`)
+    }
+
+    /**
+     * Consumes the current token if it's the given symbol.
+     * @param symbol The symbol to check for.
+     * @returns Flag for whether the symbol was consumed.
+     */
+    protected accept(symbol: string): boolean {
+        const token = this.peek()
+        if (token.kind !== 'symbol' || token.value !== symbol) {
+            return false
+        }
+
+        this.index++
+        return true
+    }
+
+    /**
+     * Consumes the current token, throwing an error if it isn't the given symbol.
+     * @param symbol The expected symbol.
+     */
+    protected expect(symbol: string) {
+        if (!this.accept(symbol)) {
+            const token = this.peek()
+            const found = token.kind === 'end' ? 'end of type' : token.value
+            this.fail(`Expected '${symbol}' but found '${found}'`, token)
+        }
+    }
+
+    /**
+     * Gets the current token.
+     */
+    protected peek(): TypeExpressionToken {
+        return this.tokens[this.index]
+    }
+
+    /**
+     * Gets the current token and advances to the next.
+     */
+    protected next(): TypeExpressionToken {
+        const token = this.tokens[this.index]
+        if (token.kind !== 'end') {
+            this.index++
+        }
+
+        return token
+    }
+
+    /**
+     * Reads a comma-delimited list until a closing symbol.
+     * @param close The closing symbol.
+     * @param read Function to read a single item.
+     */
+    protected readList<T>(close: string, read: () => T): T[] {
+        const items: T[] = []
+
+        this.depth++
+        if (!this.accept(close)) {
+            do {
+                items.push(read())
+            } while (this.accept(','))
+
+            this.expect(close)
+        }
+
+        this.depth--
+        return items
+    }
+
+    /**
+     * Reads a function type, after the `fun` name.
+     */
+    protected readFunction(): FunctionTypeExpression {
+        this.expect('(')
+        const parameters = this.readList(')', () => this.readParameter())
+
+        const returns: TypeExpression[] = []
+        if (this.accept(':')) {
+            returns.push(this.readType())
+
+            // a comma only continues the return list outside of other lists
+            while (this.depth === 0 && this.accept(',')) {
+                returns.push(this.readType())
+            }
+        }
+
+        return { kind: 'function', parameters, returns }
+    }
+
+    /**
+     * Reads a function parameter.
+     */
+    protected readParameter(): TypeExpressionParameter {
+        const token = this.next()
+        if (token.kind !== 'name') {
+            this.fail(
+                `Expected parameter name but found '${token.value}'`,
+                token,
+            )
+        }
+
+        const param: TypeExpressionParameter = { name: token.value }
+        if (this.accept('?')) {
+            param.optional = true
+        }
+
+        if (this.accept(':')) {
+            param.type = this.readType()
+        }
+
+        return param
+    }
+
+    /**
+     * Reads a type with postfix `[]`, `?`, and `...` modifiers.
+     */
+    protected readPostfix(): TypeExpression {
+        let expr = this.readPrimary()
+
+        while (true) {
+            if (this.accept('?')) {
+                if (expr.kind !== 'optional') {
+                    expr = { kind: 'optional', type: expr }
+                }
+
+                continue
+            }
+
+            const token = this.peek()
+            const nextToken = this.tokens[this.index + 1]
+            if (
+                token.value === '[' &&
+                token.kind === 'symbol' &&
+                nextToken.value === ']' &&
+                nextToken.kind === 'symbol'
+            ) {
+                this.index += 2
+                expr = { kind: 'array', type: expr }
+                continue
+            }
+
+            // `...` ends the type, as in `string...`
+            if (token.kind === 'name' && token.value === '...') {
+                this.index++
+                return { kind: 'variadic', type: expr }
+            }
+
+            return expr
+        }
+    }
+
+    /**
+     * Reads a type without postfix modifiers.
+     */
+    protected readPrimary(): TypeExpression {
+        const token = this.next()
+
+        if (token.kind === 'literal') {
+            return { kind: 'literal', literal: token.value }
+        }
+
+        if (token.kind === 'name') {
+            if (token.value === 'fun' && this.peek().value === '(') {
+                return this.readFunction()
+            }
+
+            if (token.value === 'true' || token.value === 'false') {
+                return { kind: 'literal', literal: token.value }
+            }
+
+            if (this.accept('<')) {
+                const args = this.readList('>', () => this.readType())
+                if (args.length === 0) {
+                    this.fail('Expected type arguments', token)
+                }
+
+                return { kind: 'name', name: token.value, arguments: args }
+            }
+
+            return { kind: 'name', name: token.value }
+        }
+
+        if (token.kind === 'symbol') {
+            switch (token.value) {
+                case '(':
+                    const inner = this.readType()
+                    this.expect(')')
+                    return inner
+
+                case '{':
+                    return this.readTable()
+
+                case '[':
+                    return this.readTuple()
+            }
+        }
+
+        const found = token.kind === 'end' ? 'end of type' : token.value
+        this.fail(`Expected type but found '${found}'`, token)
+    }
+
+    /**
+     * Reads a table literal type, after the opening brace.
+     */
+    protected readTable(): TableTypeExpression {
+        const fields = this.readList('}', (): TypeExpressionField => {
+            let key: string | TypeExpression
+            if (this.accept('[')) {
+                this.depth++
+                key = this.readType()
+                this.depth--
+                this.expect(']')
+            } else {
+                const token = this.next()
+                if (token.kind !== 'name' && token.kind !== 'literal') {
+                    this.fail(
+                        `Expected field name but found '${token.value}'`,
+                        token,
+                    )
+                }
+
+                key = token.value
+            }
+
+            const optional = this.accept('?')
+            this.expect(':')
+
+            const field: TypeExpressionField = { key, type: this.readType() }
+            if (optional) {
+                field.optional = true
+            }
+
+            return field
+        })
+
+        return { kind: 'table', fields }
+    }
+
+    /**
+     * Reads a tuple type, after the opening bracket.
+     */
+    protected readTuple(): TupleTypeExpression {
+        const types = this.readList(']', () => this.readType())
+        if (types.length === 0) {
+            this.fail('Expected tuple element types', this.peek())
+        }
+
+        return { kind: 'tuple', types }
+    }
+
+    /**
+     * Reads a type, including unions.
+     */
+    protected readType(): TypeExpression {
+        const types: TypeExpression[] = []
+
+        do {
+            const expr = this.readPostfix()
+            if (expr.kind === 'union') {
+                types.push(...expr.types)
+            } else {
+                types.push(expr)
+            }
+        } while (this.accept('|'))
+
+        return types.length === 1 ? types[0] : { kind: 'union', types }
+    }
+
+    /**
+     * Splits the type string into tokens.
+     */
+    protected tokenize(): TypeExpressionToken[] {
+        const text = this.text
+        const tokens: TypeExpressionToken[] = []
+
+        let i = 0
+        while (i < text.length) {
+            const char = text[i]
+            if (/\s/.test(char)) {
+                i++
+                continue
+            }
+
+            const start = i
+            if (SYMBOLS.has(char)) {
+                tokens.push({ kind: 'symbol', value: char, position: start })
+                i++
+                continue
+            }
+
+            if (char === '"' || char === "'" || char === '`') {
+                i++
+                while (i < text.length && text[i] !== char) {
+                    i += text[i] === '\\' ? 2 : 1
+                }
+
+                if (i >= text.length) {
+                    throw new Error(
+                        `Unterminated string at position ${start + 1}`,
+                    )
+                }
+
+                i++
+                tokens.push({
+                    kind: 'literal',
+                    value: text.slice(start, i),
+                    position: start,
+                })
+
+                continue
+            }
+
+            const number = /^-?\d+(\.\d+)?/.exec(text.slice(i))
+            if (number) {
+                i += number[0].length
+                tokens.push({
+                    kind: 'literal',
+                    value: number[0],
+                    position: start,
+                })
+                continue
+            }
+
+            if (text.startsWith('...', i)) {
+                i += 3
+                tokens.push({ kind: 'name', value: '...', position: start })
+                continue
+            }
+
+            const name = /^[A-Za-z_][\w.]*/.exec(text.slice(i))
+            if (name) {
+                // avoid consuming a trailing `.` as part of the name
+                const value = name[0].replace(/\.+$/, '')
+                i += value.length
+                tokens.push({ kind: 'name', value, position: start })
+                continue
+            }
+
+            throw new Error(`Unexpected '${char}' at position ${start + 1}`)
+        }
+
+        tokens.push({ kind: 'end', value: '', position: text.length })
+        return tokens
+    }
+}
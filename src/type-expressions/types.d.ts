@@ -0,0 +1,192 @@
+/**
+ * A parsed type expression.
+ */
+export type TypeExpression =
+    | NamedTypeExpression
+    | LiteralTypeExpression
+    | UnionTypeExpression
+    | OptionalTypeExpression
+    | ArrayTypeExpression
+    | VariadicTypeExpression
+    | TupleTypeExpression
+    | FunctionTypeExpression
+    | TableTypeExpression
+
+/**
+ * A named type, such as a class name or built-in type, with optional generic arguments.
+ */
+export interface NamedTypeExpression {
+    kind: 'name'
+
+    /**
+     * The name of the type.
+     */
+    name: string
+
+    /**
+     * Generic type arguments, as in `table<string, number>`.
+     */
+    arguments?: TypeExpression[]
+}
+
+/**
+ * A literal type, such as `"value"`, `1`, or `true`.
+ */
+export interface LiteralTypeExpression {
+    kind: 'literal'
+
+    /**
+     * The literal, as written.
+     */
+    literal: string
+}
+
+/**
+ * A union of types, as in `string | number`.
+ */
+export interface UnionTypeExpression {
+    kind: 'union'
+
+    /**
+     * The types included in the union.
+     */
+    types: TypeExpression[]
+}
+
+/**
+ * An optional type, as in `string?`.
+ */
+export interface OptionalTypeExpression {
+    kind: 'optional'
+
+    /**
+     * The type which is optional.
+     */
+    type: TypeExpression
+}
+
+/**
+ * An array type, as in `string[]`.
+ */
+export interface ArrayTypeExpression {
+    kind: 'array'
+
+    /**
+     * The element type.
+     */
+    type: TypeExpression
+}
+
+/**
+ * A variadic type, as in `string...`.
+ */
+export interface VariadicTypeExpression {
+    kind: 'variadic'
+
+    /**
+     * The type of each value.
+     */
+    type: TypeExpression
+}
+
+/**
+ * A tuple type, as in `[string, number]`.
+ */
+export interface TupleTypeExpression {
+    kind: 'tuple'
+
+    /**
+     * The element types.
+     */
+    types: TypeExpression[]
+}
+
+/**
+ * A function type, as in `fun(x: number): string`.
+ */
+export interface FunctionTypeExpression {
+    kind: 'function'
+
+    /**
+     * The function parameters.
+     */
+    parameters: TypeExpressionParameter[]
+
+    /**
+     * The function return types.
+     */
+    returns: TypeExpression[]
+}
+
+/**
+ * A table literal type, as in `{ x: number, [string]: any }`.
+ */
+export interface TableTypeExpression {
+    kind: 'table'
+
+    /**
+     * The table fields.
+     */
+    fields: TypeExpressionField[]
+}
+
+/**
+ * A parameter of a function type.
+ */
+export interface TypeExpressionParameter {
+    /**
+     * The parameter name.
+     */
+    name: string
+
+    /**
+     * Flag for whether the parameter is marked as optional.
+     */
+    optional?: boolean
+
+    /**
+     * The parameter type.
+     */
+    type?: TypeExpression
+}
+
+/**
+ * A field of a table literal type.
+ */
+export interface TypeExpressionField {
+    /**
+     * The field key.
+     * This is a string for named keys and a type expression for indexed keys.
+     */
+    key: string | TypeExpression
+
+    /**
+     * Flag for whether the field is marked as optional.
+     */
+    optional?: boolean
+
+    /**
+     * The field type.
+     */
+    type: TypeExpression
+}
+
+/**
+ * A token read from a type string.
+ */
+export interface TypeExpressionToken {
+    /**
+     * The kind of token.
+     */
+    kind: 'name' | 'literal' | 'symbol' | 'end'
+
+    /**
+     * The token text.
+     */
+    value: string
+
+    /**
+     * The position of the token in the type string.
+     */
+    position: number
+}